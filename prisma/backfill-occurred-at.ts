@@ -0,0 +1,23 @@
+import "dotenv/config";
+import { db } from "../src/lib/db";
+
+// Transaction date backfill
+// Usage: pnpm db:backfill-occurred-at   (run once, right after the `prisma db push` that adds Transaction.occurredAt)
+// The push stamps every existing row with the push time; before backdating existed the
+// money always moved when it was logged, so occurredAt is reset to createdAt.
+
+async function main() {
+  const updated = await db.$executeRaw`
+    UPDATE "Transaction" SET "occurredAt" = "createdAt" WHERE "occurredAt" > "createdAt"`;
+
+  console.log(`✅ Backfilled occurredAt on ${updated} transaction(s)`);
+}
+
+main()
+  .catch((e) => {
+    console.error("❌ Backfill failed:", e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await db.$disconnect();
+  });
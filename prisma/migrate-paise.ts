@@ -0,0 +1,95 @@
+import "dotenv/config";
+import { db } from "../src/lib/db";
+import { Prisma } from "../src/generated/prisma";
+import { toPaise } from "../src/lib/money";
+
+// Rupees -> paise migration
+// Usage: pnpm db:migrate-paise   (run BEFORE `prisma db push` on a database created with Float money columns)
+// Scales every rupee column by 100 and converts it to INTEGER in place. Columns that are
+// already integers are skipped, so it is safe to run twice. Projections are dropped and
+// rebuilt by the next projection-refresh run.
+
+const MONEY_COLUMNS: Array<[table: string, column: string]> = [
+  ["Owner", "currentCash"],
+  ["Staff", "salaryAmount"],
+  ["Staff", "advanceBalance"],
+  ["Customer", "totalLifetimeValue"],
+  ["Transaction", "amount"],
+  ["Posting", "amount"],
+  ["ActionLog", "amount"],
+  ["Receivable", "amount"],
+  ["Receivable", "amountPaid"],
+];
+
+const PREVIOUS_STATE_KEYS = ["advanceBalance", "advanceDeducted"] as const;
+
+type PreviousState = {
+  receivable?: { amountPaid: number };
+  advanceBalance?: number;
+  advanceDeducted?: number;
+};
+
+async function isFloatColumn(tx: Prisma.TransactionClient, table: string, column: string): Promise<boolean> {
+  const rows = await tx.$queryRaw<Array<{ data_type: string }>>`
+    SELECT data_type FROM information_schema.columns
+    WHERE table_schema = current_schema() AND table_name = ${table} AND column_name = ${column}`;
+  return rows[0]?.data_type === "double precision";
+}
+
+async function main() {
+  const migrated = await db.$transaction(
+    async (tx) => {
+      const done: string[] = [];
+
+      // Undo snapshots are JSON, so scale them alongside the action log they belong to
+      if (await isFloatColumn(tx, "ActionLog", "amount")) {
+        const actions = await tx.actionLog.findMany({
+          where: { previousState: { not: Prisma.DbNull } },
+          select: { id: true, previousState: true },
+        });
+
+        for (const action of actions) {
+          const state = action.previousState as PreviousState;
+          if (state.receivable) state.receivable.amountPaid = toPaise(state.receivable.amountPaid);
+          for (const key of PREVIOUS_STATE_KEYS) {
+            if (state[key] !== undefined) state[key] = toPaise(state[key]);
+          }
+          await tx.actionLog.update({ where: { id: action.id }, data: { previousState: state as Prisma.InputJsonValue } });
+        }
+      }
+
+      for (const [table, column] of MONEY_COLUMNS) {
+        if (!(await isFloatColumn(tx, table, column))) continue;
+        await tx.$executeRawUnsafe(
+          `ALTER TABLE "${table}" ALTER COLUMN "${column}" TYPE INTEGER USING ROUND("${column}" * 100)::INTEGER`
+        );
+        done.push(`${table}.${column}`);
+      }
+
+      if (await isFloatColumn(tx, "Projection", "projectedCash")) {
+        await tx.projection.deleteMany({});
+        done.push("Projection (cleared)");
+      }
+
+      return done;
+    },
+    { timeout: 120_000 }
+  );
+
+  if (migrated.length === 0) {
+    console.log("✅ Money columns are already in paise");
+    return;
+  }
+
+  console.log(`✅ Converted to paise: ${migrated.join(", ")}`);
+  console.log("   Now run `npx prisma db push` to finish the schema update");
+}
+
+main()
+  .catch((e) => {
+    console.error("❌ Paise migration failed:", e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await db.$disconnect();
+  });
@@ -0,0 +1,63 @@
+import "dotenv/config";
+import { db } from "../src/lib/db";
+import { postOpeningBalances, reconcileLedger, syncCashCache } from "../src/lib/ledger";
+import { formatCurrency } from "../src/lib/whatsapp";
+
+// Ledger reconciliation
+// Usage: pnpm db:reconcile [--fix] [phone]
+//   --fix  books opening balances for owners without a journal and resets drifted cash caches
+
+async function main() {
+  const args = process.argv.slice(2);
+  const fix = args.includes("--fix");
+  const phone = args.find((a) => !a.startsWith("--"));
+
+  const owners = await db.owner.findMany({
+    where: phone ? { phone } : undefined,
+    select: { id: true, phone: true, name: true },
+  });
+
+  console.log(`🔎 Reconciling ledger for ${owners.length} owner(s)${fix ? " (fix mode)" : ""}...\n`);
+
+  let drifted = 0;
+
+  for (const owner of owners) {
+    if (fix && (await postOpeningBalances(owner.id))) {
+      console.log(`📒 ${owner.phone}: booked opening balances`);
+    }
+
+    const report = await reconcileLedger(owner.id);
+    if (!report.hasDrift) {
+      console.log(`✅ ${owner.phone} (${owner.name || "unnamed"}): cash ${formatCurrency(report.cash.ledger)}`);
+      continue;
+    }
+
+    drifted++;
+    console.log(`⚠️  ${owner.phone} (${owner.name || "unnamed"})`);
+    console.log(`   Cash:           ledger ${formatCurrency(report.cash.ledger)}, cached ${formatCurrency(report.cash.cached)}, drift ${formatCurrency(report.cash.drift)}`);
+    console.log(`   Receivables:    ledger ${formatCurrency(report.receivables.ledger)}, open ${formatCurrency(report.receivables.open)}, drift ${formatCurrency(report.receivables.drift)}`);
+    console.log(`   Staff advances: ledger ${formatCurrency(report.staffAdvances.ledger)}, recorded ${formatCurrency(report.staffAdvances.recorded)}, drift ${formatCurrency(report.staffAdvances.drift)}`);
+    console.log(`   Payables:       ledger ${formatCurrency(report.payables.ledger)}, open ${formatCurrency(report.payables.open)}, drift ${formatCurrency(report.payables.drift)}`);
+    console.log(`   Customer credit: ledger ${formatCurrency(report.customerCredit.ledger)}, recorded ${formatCurrency(report.customerCredit.recorded)}, drift ${formatCurrency(report.customerCredit.drift)}`);
+    if (report.unbalancedEntries.length > 0) {
+      console.log(`   Unbalanced entries: ${report.unbalancedEntries.join(", ")}`);
+    }
+
+    if (fix) {
+      const cash = await syncCashCache(owner.id);
+      console.log(`   🔧 Cash cache reset to ${formatCurrency(cash)}`);
+    }
+  }
+
+  console.log(`\n${drifted === 0 ? "✅ No drift" : `⚠️  ${drifted} owner(s) with drift`}`);
+  if (drifted > 0 && !fix) process.exitCode = 1;
+}
+
+main()
+  .catch((e) => {
+    console.error("❌ Reconciliation failed:", e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await db.$disconnect();
+  });
@@ -2,6 +2,7 @@ import { PrismaClient } from "../src/generated/prisma";
 import { PrismaPg } from "@prisma/adapter-pg";
 import { Pool } from "pg";
 import "dotenv/config";
+import { toPaise, toRupees } from "../src/lib/money";
 
 // Create Prisma client with adapter
 const connectionString = process.env.DATABASE_URL;
@@ -42,8 +43,8 @@ async function main() {
       phone: DEMO_PHONE,
       name: "Priya",
       businessName: "Priya's Tiffin Service",
-      businessType: "food",
-      currentCash: 28500,
+      businessType: "tiffin",
+      currentCash: toPaise(28500),
       language: "hi",
       onboardingStep: "COMPLETE",
     },
@@ -55,7 +56,7 @@ async function main() {
     data: {
       ownerId: owner.id,
       name: "Ramu",
-      salaryAmount: 10000,
+      salaryAmount: toPaise(10000),
       salaryType: "monthly",
       paymentDay: 1,
       advanceBalance: 0,
@@ -66,10 +67,10 @@ async function main() {
     data: {
       ownerId: owner.id,
       name: "Sita",
-      salaryAmount: 8000,
+      salaryAmount: toPaise(8000),
       salaryType: "monthly",
       paymentDay: 1,
-      advanceBalance: 2000, // Has advance
+      advanceBalance: toPaise(2000), // Has advance
     },
   });
 
@@ -77,7 +78,7 @@ async function main() {
     data: {
       ownerId: owner.id,
       name: "Bunty",
-      salaryAmount: 500,
+      salaryAmount: toPaise(500),
       salaryType: "daily",
       paymentDay: null,
       advanceBalance: 0,
@@ -151,7 +152,7 @@ async function main() {
     data: {
       ownerId: owner.id,
       customerId: techPark.id,
-      amount: 12000,
+      amount: toPaise(12000),
       amountPaid: 0,
       status: "pending",
       createdAt: daysAgo(5),
@@ -162,7 +163,7 @@ async function main() {
     data: {
       ownerId: owner.id,
       customerId: sharma.id,
-      amount: 5000,
+      amount: toPaise(5000),
       amountPaid: 0,
       status: "pending",
       createdAt: daysAgo(12),
@@ -173,8 +174,8 @@ async function main() {
     data: {
       ownerId: owner.id,
       customerId: kumar.id,
-      amount: 8000,
-      amountPaid: 3000,
+      amount: toPaise(8000),
+      amountPaid: toPaise(3000),
       status: "partial",
       createdAt: daysAgo(8),
     },
@@ -184,7 +185,7 @@ async function main() {
     data: {
       ownerId: owner.id,
       customerId: abcOffice.id,
-      amount: 15000,
+      amount: toPaise(15000),
       amountPaid: 0,
       status: "pending",
       createdAt: daysAgo(18),
@@ -195,7 +196,7 @@ async function main() {
     data: {
       ownerId: owner.id,
       customerId: singh.id,
-      amount: 3000,
+      amount: toPaise(3000),
       amountPaid: 0,
       status: "pending",
       createdAt: daysAgo(3),
@@ -242,13 +243,13 @@ async function main() {
 
     // Daily expenses
     const dailyExpenses = [
-      { category: "supplies", amount: 800 + Math.floor(Math.random() * 400), description: "Vegetables & groceries" },
-      { category: "utilities", amount: 100 + Math.floor(Math.random() * 50), description: "Gas cylinder share" },
+      { category: "ingredients", amount: 800 + Math.floor(Math.random() * 400), description: "Vegetables & groceries" },
+      { category: "gas", amount: 100 + Math.floor(Math.random() * 50), description: "Gas cylinder share" },
     ];
 
     // Add transport on some days
     if (i % 3 === 0) {
-      dailyExpenses.push({ category: "transport", amount: 200, description: "Delivery transport" });
+      dailyExpenses.push({ category: "delivery", amount: 200, description: "Delivery transport" });
     }
 
     for (const exp of dailyExpenses) {
@@ -310,8 +311,9 @@ async function main() {
         ownerId: owner.id,
         type: t.type,
         category: t.category,
-        amount: t.amount,
+        amount: toPaise(t.amount),
         description: t.description,
+        occurredAt: t.createdAt,
         createdAt: t.createdAt,
         customerId: t.customerId || null,
         staffId: t.staffId || null,
@@ -322,12 +324,34 @@ async function main() {
 
   console.log(`   Created ${transactions.length} transactions`);
 
+  // Opening ledger entry: today's balances (the history above predates the ledger)
+  const openReceivables = await prisma.receivable.findMany({
+    where: { ownerId: owner.id, status: { in: ["pending", "partial"] } },
+  });
+  const receivablesTotal = openReceivables.reduce((sum, r) => sum + (r.amount - r.amountPaid), 0);
+  const advancesTotal = toPaise(2000); // Sita's advance
+
+  await prisma.journalEntry.create({
+    data: {
+      ownerId: owner.id,
+      description: "Opening balances",
+      postings: {
+        create: [
+          { ownerId: owner.id, account: "cash", amount: owner.currentCash },
+          { ownerId: owner.id, account: "receivables", amount: receivablesTotal },
+          { ownerId: owner.id, account: "staff_advances", amount: advancesTotal },
+          { ownerId: owner.id, account: "equity", amount: -(owner.currentCash + receivablesTotal + advancesTotal) },
+        ],
+      },
+    },
+  });
+
   // Create projections for next 7 days
   console.log("\n📅 Creating 7-day projections...");
 
   let projectedCash = owner.currentCash;
-  const avgDailyIncome = 4500;
-  const avgDailyExpense = 1200;
+  const avgDailyIncome = toPaise(4500);
+  const avgDailyExpense = toPaise(1200);
 
   for (let i = 0; i < 7; i++) {
     const date = new Date();
@@ -344,7 +368,7 @@ async function main() {
     // Check for salary day (1st of month)
     let salaryDue = 0;
     if (dayOfMonth === 1) {
-      salaryDue = 10000 + 8000 - 2000; // Ramu + Sita (minus advance)
+      salaryDue = toPaise(10000 + 8000 - 2000); // Ramu + Sita (minus advance)
     }
 
     const expectedOut = avgDailyExpense + salaryDue;
@@ -359,10 +383,10 @@ async function main() {
       data: {
         ownerId: owner.id,
         date,
-        projectedCash: Math.round(projectedCash),
+        projectedCash,
         expectedIn,
         expectedOut,
-        commitments: salaryDue > 0 ? { salaries: [{ name: "Ramu", amount: 10000 }, { name: "Sita", amount: 6000 }] } : undefined,
+        commitments: salaryDue > 0 ? { salaries: [{ name: "Ramu", amount: toPaise(10000) }, { name: "Sita", amount: toPaise(6000) }] } : undefined,
         confidence: i < 3 ? "high" : i < 5 ? "medium" : "low",
         flags,
       },
@@ -376,7 +400,7 @@ async function main() {
   console.log("\n📋 Summary:");
   console.log(`   Owner: ${owner.name} (${owner.businessName})`);
   console.log(`   Phone: ${owner.phone}`);
-  console.log(`   Cash: ₹${owner.currentCash.toLocaleString("en-IN")}`);
+  console.log(`   Cash: ₹${toRupees(owner.currentCash).toLocaleString("en-IN")}`);
   console.log(`   Staff: 3 (Ramu, Sita, Bunty)`);
   console.log(`   Customers: 5`);
   console.log(`   Pending: ₹40,000`);
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { readAttachment } from "@/lib/attachments";
+
+interface RouteParams {
+  params: { id: string };
+}
+
+// GET /api/attachments/:id?phone=... - the bill/khata photo behind an entry
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const phone = request.nextUrl.searchParams.get("phone");
+    if (!phone) {
+      return NextResponse.json(
+        { error: "Phone number required" },
+        { status: 400 }
+      );
+    }
+
+    const attachment = await db.attachment.findFirst({
+      where: { id: params.id, owner: { phone } },
+    });
+    const data = attachment ? await readAttachment(attachment) : null;
+
+    if (!attachment || !data) {
+      return NextResponse.json(
+        { error: "Attachment not found" },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        "Content-Type": attachment.mimeType,
+        "Content-Length": String(data.length),
+        "Cache-Control": "private, max-age=86400",
+      },
+    });
+  } catch (error) {
+    console.error("Attachment API error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch attachment", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
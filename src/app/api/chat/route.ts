@@ -1,40 +1,99 @@
 import { NextRequest, NextResponse } from "next/server";
 import { runAgent } from "@/lib/agent";
-import { storeSimulatorMessage, getSimulatorResponses } from "@/lib/whatsapp";
+import { storeSimulatorMessage } from "@/lib/whatsapp";
+import { getSimulatorResponses } from "@/lib/outbound";
+import { recordInboundMessage } from "@/lib/session";
+import { parseSimulatedVoice, transcribeVoiceNote } from "@/lib/transcription";
+import { debounceMessage } from "@/lib/debounce";
+import { claimMessage, completeMessage, releaseMessage } from "@/lib/idempotency";
 import { db } from "@/lib/db";
 
 export async function POST(request: NextRequest) {
+  let key: string | null = null;
+
   try {
     const body = await request.json();
-    const { phone, message, image } = body;
+    const { phone, message, image, audio } = body;
 
-    if (!phone || (!message && !image)) {
+    if (!phone || (!message && !image && !audio)) {
       return NextResponse.json(
-        { error: "Phone and message/image are required" },
+        { error: "Phone and message/image/audio are required" },
         { status: 400 }
       );
     }
 
+    // Retried request with the same client key - return the stored reply instead of re-running tools
+    const clientKey = body.messageId || request.headers.get("idempotency-key");
+    if (clientKey) {
+      const messageKey = `chat:${phone}:${clientKey}`;
+      const claim = await claimMessage(messageKey, phone);
+      if (!claim.claimed) {
+        if (claim.status === "processing") {
+          return NextResponse.json(
+            { error: "Message is still being processed" },
+            { status: 409 }
+          );
+        }
+        return NextResponse.json({ success: true, response: claim.reply, duplicate: true });
+      }
+      key = messageKey;
+    }
+
+    // Voice input: real audio (base64) is transcribed, "[Voice Message]" text is a pre-made transcript
+    let text: string = message || "";
+    let source = "whatsapp";
+
+    if (audio) {
+      const rawAudio = audio.includes(",") ? audio.split(",")[1] : audio;
+      const transcript = await transcribeVoiceNote(Buffer.from(rawAudio, "base64"), "audio/ogg");
+      if (!transcript) {
+        if (key) await releaseMessage(key);
+        return NextResponse.json(
+          { error: "Could not transcribe voice message" },
+          { status: 422 }
+        );
+      }
+      text = transcript;
+      source = "voice";
+    } else {
+      const simulatedTranscript = parseSimulatedVoice(text);
+      if (simulatedTranscript !== null) {
+        text = simulatedTranscript;
+        source = "voice";
+      }
+    }
+
     // Store incoming message for simulator history (legacy)
     storeSimulatorMessage({
       from: phone,
-      text: message || "",
+      text,
       timestamp: new Date(),
-      type: image ? "image" : "text",
+      type: image ? "image" : source === "voice" ? "voice" : "text",
     });
 
     // Store user message in database for multi-device sync
     await db.simulatorMessage.create({
       data: {
         phone,
-        text: message || "",
+        text: message || text,
         sender: "user",
         attachment: image ? { type: "photo", data: image } : undefined,
       },
     });
 
+    // Owner just wrote in - reopen the session window and release held briefs
+    await recordInboundMessage(phone);
+
     // Run the AI agent to process the message (with optional image)
-    const response = await runAgent(phone, message || "", image);
+    // Plain texts are debounced so a burst gets one agent turn and one reply
+    const response = image || source === "voice"
+      ? await runAgent(phone, text, image, source)
+      : await debounceMessage(phone, text, (merged) => runAgent(phone, merged));
+
+    if (response === null) {
+      if (key) await completeMessage(key, null);
+      return NextResponse.json({ success: true, response: null, merged: true });
+    }
 
     // Store bot response in database for multi-device sync
     await db.simulatorMessage.create({
@@ -45,11 +104,16 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    if (key) await completeMessage(key, response);
+
     return NextResponse.json({
       success: true,
       response,
     });
   } catch (error) {
+    // Let the client retry with the same key
+    if (key) await releaseMessage(key).catch(() => undefined);
+
     console.error("Chat API error:", error);
     return NextResponse.json(
       { error: "Failed to process message", details: String(error) },
@@ -69,7 +133,7 @@ export async function GET(request: NextRequest) {
     );
   }
 
-  const responses = getSimulatorResponses(phone);
+  const responses = await getSimulatorResponses(phone);
 
   return NextResponse.json({
     responses,
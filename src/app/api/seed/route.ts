@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server";
 import { db } from "@/lib/db";
+import { postOpeningBalances } from "@/lib/ledger";
+import { toPaise, toRupees } from "@/lib/money";
 
 const DEMO_PHONE = "9876543210";
 
@@ -28,8 +30,8 @@ export async function POST() {
         phone: DEMO_PHONE,
         name: "Priya",
         businessName: "Priya's Tiffin Service",
-        businessType: "food",
-        currentCash: 28500,
+        businessType: "tiffin",
+        currentCash: toPaise(28500),
         language: "hi",
         onboardingStep: "COMPLETE",
       },
@@ -40,7 +42,7 @@ export async function POST() {
       data: {
         ownerId: owner.id,
         name: "Ramu",
-        salaryAmount: 10000,
+        salaryAmount: toPaise(10000),
         salaryType: "monthly",
         paymentDay: 1,
       },
@@ -50,10 +52,10 @@ export async function POST() {
       data: {
         ownerId: owner.id,
         name: "Sita",
-        salaryAmount: 8000,
+        salaryAmount: toPaise(8000),
         salaryType: "monthly",
         paymentDay: 1,
-        advanceBalance: 2000,
+        advanceBalance: toPaise(2000),
       },
     });
 
@@ -61,7 +63,7 @@ export async function POST() {
       data: {
         ownerId: owner.id,
         name: "Bunty",
-        salaryAmount: 500,
+        salaryAmount: toPaise(500),
         salaryType: "daily",
       },
     });
@@ -93,11 +95,11 @@ export async function POST() {
     // Create Receivables
     await db.receivable.createMany({
       data: [
-        { ownerId: owner.id, customerId: techPark.id, amount: 12000, status: "pending", createdAt: daysAgo(5) },
-        { ownerId: owner.id, customerId: sharma.id, amount: 5000, status: "pending", createdAt: daysAgo(12) },
-        { ownerId: owner.id, customerId: kumar.id, amount: 8000, amountPaid: 3000, status: "partial", createdAt: daysAgo(8) },
-        { ownerId: owner.id, customerId: abcOffice.id, amount: 15000, status: "pending", createdAt: daysAgo(18) },
-        { ownerId: owner.id, customerId: singh.id, amount: 3000, status: "pending", createdAt: daysAgo(3) },
+        { ownerId: owner.id, customerId: techPark.id, amount: toPaise(12000), status: "pending", createdAt: daysAgo(5) },
+        { ownerId: owner.id, customerId: sharma.id, amount: toPaise(5000), status: "pending", createdAt: daysAgo(12) },
+        { ownerId: owner.id, customerId: kumar.id, amount: toPaise(8000), amountPaid: toPaise(3000), status: "partial", createdAt: daysAgo(8) },
+        { ownerId: owner.id, customerId: abcOffice.id, amount: toPaise(15000), status: "pending", createdAt: daysAgo(18) },
+        { ownerId: owner.id, customerId: singh.id, amount: toPaise(3000), status: "pending", createdAt: daysAgo(3) },
       ],
     });
 
@@ -112,23 +114,28 @@ export async function POST() {
         ownerId: owner.id,
         type: "income",
         category: "tiffin",
-        amount: baseRevenue + Math.floor(Math.random() * 500),
+        amount: toPaise(baseRevenue + Math.floor(Math.random() * 500)),
         description: "Tiffin orders",
+        occurredAt: date,
         createdAt: date,
       });
 
       transactions.push({
         ownerId: owner.id,
         type: "expense",
-        category: "supplies",
-        amount: 800 + Math.floor(Math.random() * 300),
+        category: "ingredients",
+        amount: toPaise(800 + Math.floor(Math.random() * 300)),
         description: "Vegetables & groceries",
+        occurredAt: date,
         createdAt: date,
       });
     }
 
     await db.transaction.createMany({ data: transactions });
 
+    // Seeded history predates the ledger - book today's balances as the opening entry
+    await postOpeningBalances(owner.id);
+
     // Create projections
     let projectedCash = owner.currentCash;
     for (let i = 0; i < 7; i++) {
@@ -137,9 +144,9 @@ export async function POST() {
       date.setHours(0, 0, 0, 0);
 
       const dayOfMonth = date.getDate();
-      const expectedIn = 4500;
-      const salaryDue = dayOfMonth === 1 ? 16000 : 0;
-      const expectedOut = 1200 + salaryDue;
+      const expectedIn = toPaise(4500);
+      const salaryDue = dayOfMonth === 1 ? toPaise(16000) : 0;
+      const expectedOut = toPaise(1200) + salaryDue;
 
       projectedCash = projectedCash + expectedIn - expectedOut;
 
@@ -151,7 +158,7 @@ export async function POST() {
         data: {
           ownerId: owner.id,
           date,
-          projectedCash: Math.round(projectedCash),
+          projectedCash,
           expectedIn,
           expectedOut,
           confidence: i < 3 ? "high" : "medium",
@@ -166,7 +173,7 @@ export async function POST() {
       data: {
         owner: owner.name,
         phone: owner.phone,
-        cash: owner.currentCash,
+        cash: toRupees(owner.currentCash),
         staff: 3,
         customers: 5,
       },
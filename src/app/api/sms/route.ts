@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ingestBankSms, verifySmsSecret } from "@/services/sms";
+
+// POST /api/sms - ingest a forwarded bank/UPI alert SMS
+// Body: { phone, sms, sender?, receivedAt? } - phone is the owner's number
+// Requires the X-SMS-Secret header - without it anyone could post entries into a ledger
+export async function POST(request: NextRequest) {
+  if (!verifySmsSecret(request.headers.get("x-sms-secret"))) {
+    return NextResponse.json({ error: "Invalid SMS secret" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { phone, sms, sender, receivedAt } = body;
+
+    if (!phone || !sms) {
+      return NextResponse.json(
+        { error: "Phone and sms are required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await ingestBankSms(phone, sms, {
+      sender,
+      receivedAt: receivedAt ? new Date(receivedAt) : undefined,
+    });
+
+    if (!result) {
+      return NextResponse.json(
+        { error: "Owner not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("SMS ingest error:", error);
+    return NextResponse.json(
+      { error: "Failed to ingest SMS", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
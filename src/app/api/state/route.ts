@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
+import { toRupees } from "@/lib/money";
+import { getProfitAndLoss } from "@/lib/ledger";
 
 export async function GET(request: NextRequest) {
   try {
@@ -29,8 +31,13 @@ export async function GET(request: NextRequest) {
           include: { customer: true },
           orderBy: { createdAt: "desc" },
         },
-        transactions: {
+        payables: {
+          where: { status: { in: ["pending", "partial"] } },
+          include: { supplier: true },
           orderBy: { createdAt: "desc" },
+        },
+        transactions: {
+          orderBy: { occurredAt: "desc" },
           take: 10,
         },
         projections: {
@@ -42,6 +49,15 @@ export async function GET(request: NextRequest) {
           orderBy: { createdAt: "desc" },
           take: 5,
         },
+        cashCounts: {
+          orderBy: { createdAt: "desc" },
+          take: 7,
+        },
+        collectionReminders: {
+          include: { receivable: { include: { customer: true } } },
+          orderBy: { createdAt: "desc" },
+          take: 10,
+        },
       },
     });
 
@@ -59,22 +75,19 @@ export async function GET(request: NextRequest) {
       0
     );
 
-    const monthStart = new Date();
-    monthStart.setDate(1);
-    monthStart.setHours(0, 0, 0, 0);
-
-    const monthlyTransactions = owner.transactions.filter(
-      (t) => t.createdAt >= monthStart
+    const totalPayable = owner.payables.reduce(
+      (sum, p) => sum + (p.amount - p.amountPaid),
+      0
     );
 
-    const monthlyIncome = monthlyTransactions
-      .filter((t) => t.type === "income")
-      .reduce((sum, t) => sum + t.amount, 0);
+    const customerCredit = owner.customers.reduce((sum, c) => sum + c.creditBalance, 0);
 
-    const monthlyExpenses = monthlyTransactions
-      .filter((t) => t.type === "expense" || t.type === "salary" || t.type === "advance")
-      .reduce((sum, t) => sum + t.amount, 0);
+    const monthStart = new Date();
+    monthStart.setDate(1);
+    monthStart.setHours(0, 0, 0, 0);
 
+    // Same ledger P&L the owner gets in chat
+    const { income: monthlyIncome, expenses: monthlyExpenses } = await getProfitAndLoss(owner.id, monthStart);
     const monthlyProfit = monthlyIncome - monthlyExpenses;
 
     // Staff salary status
@@ -83,7 +96,7 @@ export async function GET(request: NextRequest) {
         (t) =>
           t.staffId === s.id &&
           t.type === "salary" &&
-          t.createdAt >= monthStart
+          t.occurredAt >= monthStart
       );
 
       return {
@@ -110,45 +123,79 @@ export async function GET(request: NextRequest) {
           name: owner.name,
           businessName: owner.businessName,
           businessType: owner.businessType,
-          currentCash: owner.currentCash,
+          currentCash: toRupees(owner.currentCash),
           onboardingStep: owner.onboardingStep,
           createdAt: owner.createdAt,
         },
         summary: {
-          cash: owner.currentCash,
-          pendingReceivables: totalPending,
-          salaryDue: totalSalaryDue,
-          monthlyIncome,
-          monthlyExpenses,
-          monthlyProfit,
+          cash: toRupees(owner.currentCash),
+          pendingReceivables: toRupees(totalPending),
+          supplierDues: toRupees(totalPayable),
+          customerCredit: toRupees(customerCredit),
+          salaryDue: toRupees(totalSalaryDue),
+          monthlyIncome: toRupees(monthlyIncome),
+          monthlyExpenses: toRupees(monthlyExpenses),
+          monthlyProfit: toRupees(monthlyProfit),
           staffCount: owner.staff.length,
           customerCount: owner.customers.length,
         },
-        staff: staffWithStatus,
+        staff: staffWithStatus.map((s) => ({
+          ...s,
+          salaryAmount: toRupees(s.salaryAmount),
+          advanceBalance: toRupees(s.advanceBalance),
+          due: toRupees(s.due),
+        })),
         receivables: owner.receivables.map((r) => ({
           id: r.id,
           customerName: r.customer.name,
-          amount: r.amount,
-          amountPaid: r.amountPaid,
-          remaining: r.amount - r.amountPaid,
+          amount: toRupees(r.amount),
+          amountPaid: toRupees(r.amountPaid),
+          remaining: toRupees(r.amount - r.amountPaid),
           status: r.status,
           daysOld: Math.floor(
             (Date.now() - r.createdAt.getTime()) / (1000 * 60 * 60 * 24)
           ),
         })),
+        payables: owner.payables.map((p) => ({
+          id: p.id,
+          supplierName: p.supplier.name,
+          amount: toRupees(p.amount),
+          amountPaid: toRupees(p.amountPaid),
+          remaining: toRupees(p.amount - p.amountPaid),
+          status: p.status,
+          dueDate: p.dueDate,
+        })),
+        cashCounts: owner.cashCounts.map((c) => ({
+          id: c.id,
+          expected: toRupees(c.expected),
+          counted: toRupees(c.counted),
+          difference: toRupees(c.difference),
+          kind: c.kind,
+          createdAt: c.createdAt,
+        })),
+        collectionReminders: owner.collectionReminders.map((r) => ({
+          id: r.id,
+          customerName: r.receivable.customer.name,
+          step: r.step,
+          daysOverdue: r.daysOverdue,
+          amount: toRupees(r.amount),
+          status: r.status,
+          createdAt: r.createdAt,
+        })),
         transactions: owner.transactions.map((t) => ({
           id: t.id,
           type: t.type,
           category: t.category,
-          amount: t.amount,
+          amount: toRupees(t.amount),
           description: t.description,
+          occurredAt: t.occurredAt,
           createdAt: t.createdAt,
         })),
         projections: owner.projections.map((p) => ({
           date: p.date,
-          projectedCash: p.projectedCash,
-          expectedIn: p.expectedIn,
-          expectedOut: p.expectedOut,
+          projectedCash: toRupees(p.projectedCash),
+          expectedIn: toRupees(p.expectedIn),
+          expectedOut: toRupees(p.expectedOut),
           confidence: p.confidence,
           flags: p.flags,
         })),
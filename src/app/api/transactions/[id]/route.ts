@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { toPaise, toRupees, withRupeeAmount } from "@/lib/money";
+import { deleteTransaction, updateTransaction, verifyAdminToken, type TransactionInput } from "@/services/transaction-admin";
+
+interface RouteParams {
+  params: { id: string };
+}
+
+// Support API - every handler requires Authorization: Bearer <ADMIN_API_TOKEN>, and the
+// owner's phone so a transaction id only ever reaches that owner's books
+
+// GET /api/transactions/:id?phone=...
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  if (!verifyAdminToken(request.headers.get("authorization"))) {
+    return NextResponse.json({ error: "Invalid admin token" }, { status: 401 });
+  }
+
+  try {
+    const phone = request.nextUrl.searchParams.get("phone");
+    if (!phone) {
+      return NextResponse.json(
+        { error: "Phone parameter is required" },
+        { status: 400 }
+      );
+    }
+
+    const owner = await db.owner.findUnique({ where: { phone } });
+    if (!owner) {
+      return NextResponse.json(
+        { error: "Owner not found" },
+        { status: 404 }
+      );
+    }
+
+    const transaction = await db.transaction.findFirst({
+      where: { id: params.id, ownerId: owner.id },
+      include: {
+        customer: { select: { id: true, name: true } },
+        staff: { select: { id: true, name: true } },
+        supplier: { select: { id: true, name: true } },
+      },
+    });
+
+    if (!transaction) {
+      return NextResponse.json(
+        { error: "Transaction not found" },
+        { status: 404 }
+      );
+    }
+
+    const journal = await db.journalEntry.findMany({
+      where: { transactionId: params.id, ownerId: owner.id },
+      include: { postings: true },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return NextResponse.json({
+      success: true,
+      transaction: withRupeeAmount(transaction),
+      journal: journal.map((entry) => ({ ...entry, postings: entry.postings.map(withRupeeAmount) })),
+    });
+  } catch (error) {
+    console.error("Transaction API error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch transaction", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/transactions/:id - { phone, type?, amount?, description?, category?, customerId?, staffId?, supplierId?, accountId?, date? }
+// Amount/type/customer/staff/supplier/account/date changes recompute cash, receivables, payables and advance balances
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  if (!verifyAdminToken(request.headers.get("authorization"))) {
+    return NextResponse.json({ error: "Invalid admin token" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+
+    if (!body.phone) {
+      return NextResponse.json(
+        { error: "Phone is required" },
+        { status: 400 }
+      );
+    }
+
+    const owner = await db.owner.findUnique({ where: { phone: body.phone } });
+    if (!owner) {
+      return NextResponse.json(
+        { error: "Owner not found" },
+        { status: 404 }
+      );
+    }
+
+    const changes: Partial<TransactionInput> = {};
+    if (body.type !== undefined) changes.type = body.type;
+    if (body.amount !== undefined) changes.amount = toPaise(Number(body.amount));
+    if (body.description !== undefined) changes.description = body.description;
+    if (body.category !== undefined) changes.category = body.category;
+    if (body.customerId !== undefined) changes.customerId = body.customerId;
+    if (body.staffId !== undefined) changes.staffId = body.staffId;
+    if (body.supplierId !== undefined) changes.supplierId = body.supplierId;
+    if (body.accountId !== undefined) changes.accountId = body.accountId;
+    if (body.date !== undefined) {
+      const date = new Date(body.date);
+      if (isNaN(date.getTime())) {
+        return NextResponse.json(
+          { error: "date must be a valid date" },
+          { status: 400 }
+        );
+      }
+      changes.date = date;
+    }
+
+    const result = await updateTransaction(owner.id, params.id, changes);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, transaction: withRupeeAmount(result.transaction), cash: toRupees(result.cash) });
+  } catch (error) {
+    console.error("Transaction API error:", error);
+    return NextResponse.json(
+      { error: "Failed to update transaction", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/transactions/:id?phone=... - reverses its effect on cash, receivables, payables and advances
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  if (!verifyAdminToken(request.headers.get("authorization"))) {
+    return NextResponse.json({ error: "Invalid admin token" }, { status: 401 });
+  }
+
+  try {
+    const phone = request.nextUrl.searchParams.get("phone");
+    if (!phone) {
+      return NextResponse.json(
+        { error: "Phone parameter is required" },
+        { status: 400 }
+      );
+    }
+
+    const owner = await db.owner.findUnique({ where: { phone } });
+    if (!owner) {
+      return NextResponse.json(
+        { error: "Owner not found" },
+        { status: 404 }
+      );
+    }
+
+    const result = await deleteTransaction(owner.id, params.id);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, deleted: params.id, cash: toRupees(result.cash) });
+  } catch (error) {
+    console.error("Transaction API error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete transaction", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { toPaise, toRupees, withRupeeAmount } from "@/lib/money";
+import { createTransaction, listTransactions, verifyAdminToken } from "@/services/transaction-admin";
+
+// Parse an optional date query/body value; undefined when absent, null when invalid
+function parseDate(value: string | null | undefined): Date | undefined | null {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Support API - every handler requires Authorization: Bearer <ADMIN_API_TOKEN>
+
+// GET /api/transactions?phone=...&from=&to=&type=&category=&customerId=&staffId=&supplierId=&accountId=&page=&pageSize=
+export async function GET(request: NextRequest) {
+  if (!verifyAdminToken(request.headers.get("authorization"))) {
+    return NextResponse.json({ error: "Invalid admin token" }, { status: 401 });
+  }
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const phone = searchParams.get("phone");
+
+    if (!phone) {
+      return NextResponse.json(
+        { error: "Phone parameter is required" },
+        { status: 400 }
+      );
+    }
+
+    const owner = await db.owner.findUnique({ where: { phone } });
+    if (!owner) {
+      return NextResponse.json(
+        { error: "Owner not found" },
+        { status: 404 }
+      );
+    }
+
+    const from = parseDate(searchParams.get("from"));
+    const to = parseDate(searchParams.get("to"));
+    if (from === null || to === null) {
+      return NextResponse.json(
+        { error: "from/to must be valid dates" },
+        { status: 400 }
+      );
+    }
+
+    const result = await listTransactions(owner.id, {
+      from,
+      to,
+      type: searchParams.get("type") || undefined,
+      category: searchParams.get("category") || undefined,
+      customerId: searchParams.get("customerId") || undefined,
+      staffId: searchParams.get("staffId") || undefined,
+      supplierId: searchParams.get("supplierId") || undefined,
+      accountId: searchParams.get("accountId") || undefined,
+      page: parseInt(searchParams.get("page") || "1"),
+      pageSize: parseInt(searchParams.get("pageSize") || "0") || undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      transactions: result.transactions.map(withRupeeAmount),
+    });
+  } catch (error) {
+    console.error("Transactions API error:", error);
+    return NextResponse.json(
+      { error: "Failed to list transactions", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/transactions - { phone, type, amount, description?, category?, customerId?, staffId?, supplierId?, accountId?, date? (when the money moved) }
+export async function POST(request: NextRequest) {
+  if (!verifyAdminToken(request.headers.get("authorization"))) {
+    return NextResponse.json({ error: "Invalid admin token" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const { phone, type, amount, description, category, customerId, staffId, supplierId, accountId } = body;
+
+    if (!phone || !type || amount === undefined) {
+      return NextResponse.json(
+        { error: "Phone, type and amount are required" },
+        { status: 400 }
+      );
+    }
+
+    const owner = await db.owner.findUnique({ where: { phone } });
+    if (!owner) {
+      return NextResponse.json(
+        { error: "Owner not found" },
+        { status: 404 }
+      );
+    }
+
+    const date = parseDate(body.date);
+    if (date === null) {
+      return NextResponse.json(
+        { error: "date must be a valid date" },
+        { status: 400 }
+      );
+    }
+
+    const result = await createTransaction(owner.id, {
+      type,
+      amount: toPaise(Number(amount)),
+      description,
+      category,
+      customerId,
+      staffId,
+      supplierId,
+      accountId,
+      date,
+    });
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(
+      { success: true, transaction: withRupeeAmount(result.transaction), cash: toRupees(result.cash) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Transactions API error:", error);
+    return NextResponse.json(
+      { error: "Failed to create transaction", details: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runAgent } from "@/lib/agent";
+import { debounceMessage } from "@/lib/debounce";
+import { claimMessage, completeMessage, releaseMessage } from "@/lib/idempotency";
+import { downloadMedia } from "@/lib/media";
+import { recordInboundMessage } from "@/lib/session";
+import { transcribeVoiceNote } from "@/lib/transcription";
+import { handleInteractiveAction } from "@/services/interactive";
+import { applyStatusUpdate, sendMessage } from "@/lib/outbound";
+import { parseWebhookMessages, parseWebhookStatuses, verifyWebhookSignature, type Message } from "@/lib/whatsapp";
+
+// GET /api/webhook/whatsapp
+// Meta verification handshake: echo hub.challenge when the verify token matches
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const mode = searchParams.get("hub.mode");
+  const token = searchParams.get("hub.verify_token");
+  const challenge = searchParams.get("hub.challenge");
+
+  if (
+    mode === "subscribe" &&
+    process.env.WHATSAPP_VERIFY_TOKEN &&
+    token === process.env.WHATSAPP_VERIFY_TOKEN &&
+    challenge
+  ) {
+    return new NextResponse(challenge, {
+      status: 200,
+      headers: { "Content-Type": "text/plain" },
+    });
+  }
+
+  return NextResponse.json({ error: "Verification failed" }, { status: 403 });
+}
+
+// POST /api/webhook/whatsapp
+// Inbound messages and status updates from the WhatsApp Cloud API
+export async function POST(request: NextRequest) {
+  // Signature is computed over the raw body, so read it before parsing
+  const rawBody = await request.text();
+  const signature = request.headers.get("x-hub-signature-256");
+
+  if (!verifyWebhookSignature(rawBody, signature)) {
+    return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  // Delivery receipts (sent/delivered/read/failed) for messages we queued
+  for (const status of parseWebhookStatuses(payload)) {
+    try {
+      await applyStatusUpdate(status);
+    } catch (error) {
+      console.error(`Webhook status ${status.providerMessageId} failed:`, error);
+    }
+  }
+
+  // Status-only payloads carry no messages
+  const messages = parseWebhookMessages(payload);
+
+  // Claim every message first, grouping by sender in arrival order
+  // Redelivered messages were already answered, so don't run the tools again
+  let duplicates = 0;
+  const bySender = new Map<string, Message[]>();
+  for (const message of messages) {
+    const key = messageKey(message);
+    if (key && !(await claimMessage(key, message.from)).claimed) {
+      duplicates++;
+      continue;
+    }
+    bySender.set(message.from, [...(bySender.get(message.from) || []), message]);
+  }
+
+  // Senders are independent - don't make one wait out another's debounce window
+  const counts = await Promise.all(Array.from(bySender.values()).map(processSenderMessages));
+  const processed = counts.reduce((sum, count) => sum + count, 0);
+
+  // Always acknowledge a verified delivery so Meta doesn't retry it
+  return NextResponse.json({ success: true, received: messages.length, processed, duplicates });
+}
+
+function messageKey(message: Message): string | null {
+  return message.id ? `whatsapp:${message.id}` : null;
+}
+
+// Plain texts merge into one agent turn; buttons, photos and voice notes stand alone
+function isPlainText(message: Message): boolean {
+  return message.type === "text" && !message.reply;
+}
+
+// Process one sender's messages from a delivery in order, returning how many succeeded
+// Consecutive texts batched in the same delivery are one burst, so they go through the
+// debounce together instead of each waiting out the window on its own
+async function processSenderMessages(messages: Message[]): Promise<number> {
+  let processed = 0;
+
+  for (let i = 0; i < messages.length; ) {
+    let end = i + 1;
+    if (isPlainText(messages[i])) {
+      while (end < messages.length && isPlainText(messages[end])) end++;
+    }
+    const batch = messages.slice(i, end);
+    i = end;
+
+    const keys = batch.map(messageKey).filter((key): key is string => key !== null);
+    const last = batch[batch.length - 1];
+    try {
+      const reply = await processInboundMessage({ ...last, text: batch.map((m) => m.text).join("\n") });
+      for (const key of keys) await completeMessage(key, reply);
+      processed += batch.length;
+    } catch (error) {
+      // Don't fail the whole delivery - Meta would redeliver every message in it
+      console.error(`Webhook messages ${batch.map((m) => m.id).join(", ")} from ${last.from} failed:`, error);
+      for (const key of keys) await releaseMessage(key).catch(() => undefined);
+    }
+  }
+
+  return processed;
+}
+
+// Run one inbound message through the agent and send the reply back
+// Returns the reply text so it can be stored against the message id,
+// or null when a text message was merged into a later message's turn
+async function processInboundMessage(message: Message): Promise<string | null> {
+  let reply: string | null;
+
+  // Reopens the 24h window and sends any brief that was held behind a template
+  await recordInboundMessage(message.from);
+
+  if (message.reply) {
+    // Tapped button/list row - structured actions skip the agent entirely
+    const response = await handleInteractiveAction(message.from, message.reply);
+    if (response) {
+      await sendMessage({ to: message.from, text: response.text, buttons: response.buttons, list: response.list }, "whatsapp");
+      return response.text;
+    }
+    reply = await runAgent(message.from, message.reply.title);
+  } else if (message.type === "image" && message.mediaUrl) {
+    // mediaUrl holds the Graph media id - fetch the bytes for the vision path
+    const media = await downloadMedia(message.mediaUrl, "image");
+
+    reply = media.success
+      ? await runAgent(message.from, message.text, media.data.toString("base64"))
+      : "📷 Photo download nahi ho payi. Please JPG/PNG photo phir se bhejo.";
+  } else if (message.type === "voice" && message.mediaUrl) {
+    // Voice notes are transcribed and then handled like typed text
+    const media = await downloadMedia(message.mediaUrl, "audio");
+    const transcript = media.success ? await transcribeVoiceNote(media.data, media.mimeType) : null;
+
+    reply = transcript
+      ? `🎤 _"${transcript}"_\n\n${await runAgent(message.from, transcript, undefined, "voice")}`
+      : "🎤 Voice note samajh nahi aaya. Please phir se bolo ya type karke bhejo.";
+  } else if (message.type !== "text" && !message.text) {
+    reply = "🙏 Abhi sirf text, photo aur voice note samajh pata hoon. Please type karke bhejo.";
+  } else {
+    // Bursts of short texts become one agent turn with one reply
+    reply = await debounceMessage(message.from, message.text, (text) => runAgent(message.from, text));
+    if (reply === null) return null;
+  }
+
+  // Reply on the channel the message came in on
+  await sendMessage({
+    to: message.from,
+    text: reply,
+  }, "whatsapp");
+
+  return reply;
+}
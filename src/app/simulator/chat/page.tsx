@@ -9,7 +9,8 @@ function ChatPageContent() {
   const phone = searchParams.get("phone") || "9876543210";
 
   const [messages, setMessages] = useState<Message[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
+  // Sends still waiting on a reply - texts can be sent while one is pending, so bursts merge
+  const [pendingSends, setPendingSends] = useState(0);
   const lastFetchRef = useRef<string | null>(null);
   const pollingRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -63,7 +64,7 @@ function ChatPageContent() {
   }, [phone, fetchMessages]);
 
   const handleSendMessage = async (text: string) => {
-    setIsLoading(true);
+    setPendingSends((n) => n + 1);
 
     try {
       // Optimistically add user message
@@ -79,19 +80,20 @@ function ChatPageContent() {
       const res = await fetch("/api/chat", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ phone, message: text }),
+        body: JSON.stringify({ phone, message: text, messageId: userMessage.id }),
       });
 
       const data = await res.json();
 
-      if (data.success) {
+      // Merged into a later message's turn - that send brings the combined reply
+      if (data.success && !data.merged) {
         // Force immediate fetch to get both messages with correct IDs
         await fetchMessages(lastFetchRef.current || undefined);
       }
     } catch (error) {
       console.error("Failed to send message:", error);
     } finally {
-      setIsLoading(false);
+      setPendingSends((n) => n - 1);
     }
   };
 
@@ -119,7 +121,7 @@ function ChatPageContent() {
             <ChatView
               messages={messages}
               phone={phone}
-              isLoading={isLoading}
+              isLoading={pendingSends > 0}
               showInput={true}
               onSendMessage={handleSendMessage}
             />
@@ -160,11 +160,10 @@ export default function ChatView({
               type="text"
               placeholder="Type a message..."
               className="flex-1 px-4 py-2 border border-gray-300 rounded-full text-sm focus:outline-none focus:border-emerald-500"
-              disabled={isLoading}
             />
+            {/* Stays enabled while a reply is pending - quick follow-ups merge into one turn */}
             <button
               type="submit"
-              disabled={isLoading}
               className="px-4 py-2 bg-emerald-500 text-white rounded-full text-sm font-medium hover:bg-emerald-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
               Send
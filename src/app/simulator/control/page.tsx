@@ -43,26 +43,24 @@ function ControlPageContent() {
   }, [phone, selectedCustomer]);
 
   const sendMessage = async (messageText: string) => {
-    if (!messageText.trim() || isLoading) return;
-
-    setIsLoading(true);
+    // No loading lock for texts - scenario messages sent back to back merge into one turn
+    if (!messageText.trim()) return;
 
     try {
       const response = await fetch("/api/chat", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ phone, message: messageText }),
+        body: JSON.stringify({ phone, message: messageText, messageId: crypto.randomUUID() }),
       });
 
       const data = await response.json();
 
-      if (data.success) {
+      // Merged into a later message's turn - that send brings the combined reply
+      if (data.success && !data.merged) {
         setRefreshTrigger((prev) => prev + 1);
       }
     } catch (error) {
       console.error("Failed to send message:", error);
-    } finally {
-      setIsLoading(false);
     }
   };
 
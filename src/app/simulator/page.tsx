@@ -22,6 +22,8 @@ export default function SimulatorPage() {
   const [input, setInput] = useState("");
   const [phone, setPhone] = useState("9876543210");
   const [isLoading, setIsLoading] = useState(false);
+  // Texts still waiting on a reply - more can be sent meanwhile, so bursts merge
+  const [pendingSends, setPendingSends] = useState(0);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -53,13 +55,13 @@ export default function SimulatorPage() {
 
     setMessages((prev) => [...prev, userMessage]);
     if (!messageText) setInput("");
-    setIsLoading(true);
+    setPendingSends((n) => n + 1);
 
     try {
       const response = await fetch("/api/chat", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ phone, message: text }),
+        body: JSON.stringify({ phone, message: text, messageId: userMessage.id }),
       });
 
       const data = await response.json();
@@ -73,7 +75,8 @@ export default function SimulatorPage() {
         };
         setMessages((prev) => [...prev, botMessage]);
         setRefreshTrigger((prev) => prev + 1);
-      } else {
+      } else if (!data.merged) {
+        // Merged messages get no reply of their own - the burst's last message carries it
         const errorMessage: Message = {
           id: (Date.now() + 1).toString(),
           text: `Error: ${data.error || "Unknown error"}`,
@@ -91,7 +94,7 @@ export default function SimulatorPage() {
       };
       setMessages((prev) => [...prev, errorMessage]);
     } finally {
-      setIsLoading(false);
+      setPendingSends((n) => n - 1);
     }
   };
 
@@ -331,7 +334,7 @@ export default function SimulatorPage() {
             </div>
           ))}
 
-          {isLoading && (
+          {(isLoading || pendingSends > 0) && (
             <div className="flex justify-start">
               <div className="bg-white rounded-lg px-4 py-2 shadow-sm">
                 <div className="flex gap-1">
@@ -0,0 +1,167 @@
+// Money accounts: where the owner's cash actually sits
+// Total cash is the ledger's cash account; each cash posting is tagged with the
+// money account it moved through (untagged postings belong to the cash drawer).
+// Owners need to know if the *drawer* can cover Ramu's salary, not just the total.
+
+import { db, type Account } from "./db";
+import { postEntry } from "./ledger";
+import { formatCurrency } from "./whatsapp";
+import type { Money } from "./money";
+
+export const ACCOUNT_KINDS = ["cash", "upi", "bank"] as const;
+export type AccountKind = (typeof ACCOUNT_KINDS)[number];
+
+const DEFAULT_NAMES: Record<AccountKind, string> = {
+  cash: "Cash drawer",
+  upi: "UPI wallet",
+  bank: "Bank",
+};
+
+const ACCOUNT_EMOJI: Record<AccountKind, string> = {
+  cash: "💵",
+  upi: "📱",
+  bank: "🏦",
+};
+
+// Keywords owners use for each kind ("galle mein", "PhonePe pe aaya", "bank se nikale")
+const KIND_PATTERNS: Array<{ kind: AccountKind; pattern: RegExp }> = [
+  { kind: "upi", pattern: /\b(upi|phone\s?pe|gpay|google\s?pay|paytm|bhim|qr)\b/i },
+  { kind: "bank", pattern: /\b(bank|a\/c|neft|imps|rtgs|cheque)\b/i },
+  { kind: "cash", pattern: /\b(cash|nakad|naqad|galla|galle|drawer|haath)\b/i },
+];
+
+export interface AccountBalance {
+  id: string;
+  name: string;
+  kind: AccountKind;
+  balance: Money;
+}
+
+export function isAccountKind(value: unknown): value is AccountKind {
+  return typeof value === "string" && (ACCOUNT_KINDS as readonly string[]).includes(value);
+}
+
+// Which kind of account a message talks about, if any
+export function parseAccountKind(text: string): AccountKind | null {
+  return KIND_PATTERNS.find(({ pattern }) => pattern.test(text))?.kind || null;
+}
+
+// The cash drawer - created on first use
+export async function getDefaultAccount(ownerId: string): Promise<Account> {
+  const existing = await db.account.findFirst({ where: { ownerId, isDefault: true } });
+  if (existing) return existing;
+
+  return db.account.upsert({
+    where: { ownerId_name: { ownerId, name: DEFAULT_NAMES.cash } },
+    create: { ownerId, name: DEFAULT_NAMES.cash, kind: "cash", isDefault: true },
+    update: { isDefault: true },
+  });
+}
+
+// First account of a kind, created with the default name if the owner has none
+async function accountOfKind(ownerId: string, kind: AccountKind): Promise<Account> {
+  if (kind === "cash") return getDefaultAccount(ownerId);
+
+  const existing = await db.account.findFirst({
+    where: { ownerId, kind },
+    orderBy: { createdAt: "asc" },
+  });
+  if (existing) return existing;
+
+  return db.account.upsert({
+    where: { ownerId_name: { ownerId, name: DEFAULT_NAMES[kind] } },
+    create: { ownerId, name: DEFAULT_NAMES[kind], kind },
+    update: {},
+  });
+}
+
+// Resolve what the owner called an account: its name ("SBI"), last digits ("4521") or a kind ("upi", "galla")
+// Returns null when nothing matches
+export async function resolveAccount(ownerId: string, hint: string): Promise<Account | null> {
+  const text = hint.trim();
+  if (!text) return null;
+
+  const accounts = await db.account.findMany({ where: { ownerId }, orderBy: { createdAt: "asc" } });
+
+  const byName = accounts.find((a) => a.name.toLowerCase() === text.toLowerCase())
+    || accounts.find((a) => text.toLowerCase().includes(a.name.toLowerCase()));
+  if (byName) return byName;
+
+  const digits = text.match(/\d{3,}/)?.[0];
+  const byNumber = digits && accounts.find((a) => a.number && (a.number.endsWith(digits) || digits.endsWith(a.number)));
+  if (byNumber) return byNumber;
+
+  const kind = isAccountKind(text.toLowerCase()) ? (text.toLowerCase() as AccountKind) : parseAccountKind(text);
+  return kind ? accountOfKind(ownerId, kind) : null;
+}
+
+// Bank account an SMS alert refers to, matched on the last digits of the account number
+export async function resolveBankAccount(ownerId: string, digits?: string): Promise<Account> {
+  if (digits) {
+    const banks = await db.account.findMany({ where: { ownerId, kind: "bank" } });
+    const match = banks.find((a) => a.number && (a.number.endsWith(digits) || digits.endsWith(a.number)));
+    if (match) return match;
+
+    // The first alert for an unnumbered bank account claims it
+    const unnumbered = banks.find((a) => !a.number);
+    if (unnumbered) return db.account.update({ where: { id: unnumbered.id }, data: { number: digits } });
+
+    if (banks.length > 0) {
+      return db.account.create({ data: { ownerId, name: `Bank ${digits}`, kind: "bank", number: digits } });
+    }
+  }
+
+  const bank = await accountOfKind(ownerId, "bank");
+  return digits && !bank.number ? db.account.update({ where: { id: bank.id }, data: { number: digits } }) : bank;
+}
+
+// Balance of every money account, derived from cash postings
+export async function getAccountBalances(ownerId: string): Promise<AccountBalance[]> {
+  const [sums, drawer] = await Promise.all([
+    db.posting.groupBy({
+      by: ["accountId"],
+      where: { ownerId, account: "cash" },
+      _sum: { amount: true },
+    }),
+    getDefaultAccount(ownerId),
+  ]);
+  const accounts = await db.account.findMany({ where: { ownerId }, orderBy: { createdAt: "asc" } });
+
+  const totals = new Map<string, number>();
+  for (const row of sums) {
+    const id = row.accountId || drawer.id;
+    totals.set(id, (totals.get(id) || 0) + (row._sum.amount || 0));
+  }
+
+  return accounts.map((a) => ({
+    id: a.id,
+    name: a.name,
+    kind: isAccountKind(a.kind) ? a.kind : "cash",
+    balance: totals.get(a.id) || 0,
+  }));
+}
+
+// Money physically in the drawer - what salaries are usually paid from
+export function cashInHand(balances: AccountBalance[]): Money {
+  return balances.filter((b) => b.kind === "cash").reduce((sum, b) => sum + b.balance, 0);
+}
+
+// Set one account to a counted figure against equity
+export async function setAccountBalance(ownerId: string, account: Account, amount: Money, description: string): Promise<Money> {
+  const balances = await getAccountBalances(ownerId);
+  const current = balances.find((b) => b.id === account.id)?.balance || 0;
+  const delta = amount - current;
+
+  const entry = await postEntry(ownerId, description, [
+    { account: "cash", amount: delta, accountId: account.id },
+    { account: "equity", amount: -delta },
+  ]);
+  return entry.cash;
+}
+
+// "💵 Cash drawer: ₹12,000" lines for briefs and replies
+export function formatAccountBreakdown(balances: AccountBalance[]): string {
+  return balances
+    .map((b) => `${ACCOUNT_EMOJI[b.kind]} ${b.name}: ${formatCurrency(b.balance)}`)
+    .join("\n");
+}
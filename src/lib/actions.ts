@@ -0,0 +1,372 @@
+// Per-owner action history for undo and corrections
+// Each money-moving action is booked through here so the last few can be reversed
+// ("undo", "galat tha") or re-booked at a different amount ("last wala 2000 karo").
+// The ledger is never edited: undo posts a reversing entry, amend reverses and re-posts.
+
+import { db, inTransaction, type DbClient } from "./db";
+import {
+  accountTotal,
+  advanceEntry,
+  creditPurchaseEntry,
+  creditSaleEntry,
+  expenseEntry,
+  incomeEntry,
+  postEntry,
+  reverseEntry,
+  salaryEntry,
+  supplierPaymentEntry,
+  transferEntry,
+  withAccount,
+  type PostingInput,
+} from "./ledger";
+import type { Money } from "./money";
+import { restorePayables, settlePayables, type PayableState } from "./payables";
+import { applyCustomerPayment, lockCustomer, paymentState, receivableStatus, restoreReceivables, type ReceivableState } from "./receivables";
+import type { Prisma } from "@/generated/prisma";
+
+// How far back "undo" can reach
+const HISTORY_LIMIT = 10;
+
+export type ActionKind =
+  | "expense"
+  | "income"
+  | "salary"
+  | "advance"
+  | "credit_sale"
+  | "transfer"
+  | "credit_purchase"
+  | "supplier_payment";
+
+// Fields an action changed, captured before it ran
+export interface ActionState {
+  receivable?: { amountPaid: Money; status: string; paidAt: string | null }; // single receivable, logged before payments were split
+  receivables?: ReceivableState[];
+  creditBalance?: Money; // customer's credit, when the action kept or used some
+  creditApplied?: Money; // credit a credit sale used up
+  payables?: PayableState[];
+  advanceBalance?: Money;
+  advanceDeducted?: Money;
+}
+
+export interface BookActionInput {
+  kind: ActionKind;
+  description: string;
+  amount: Money;
+  postings: PostingInput[];
+  transactionId?: string;
+  receivableId?: string;
+  payableId?: string;
+  customerId?: string;
+  staffId?: string;
+  previousState?: ActionState;
+  occurredAt?: Date; // backdated entries are dated when the money moved
+}
+
+export interface ActionSummary {
+  kind: ActionKind;
+  description: string;
+  amount: Money;
+}
+
+export type CorrectionResult =
+  | { success: true; action: ActionSummary; previousAmount?: Money; cash: Money }
+  | { success: false; error: string };
+
+// Post the ledger entry for an action and remember it for undo
+// Pass the transaction that wrote the action's rows so the entry commits with them
+// Returns the owner's cash after the entry
+export async function bookAction(ownerId: string, input: BookActionInput, tx?: DbClient): Promise<Money> {
+  return inTransaction(tx, async (client) => {
+    const entry = await postEntry(ownerId, input.description, input.postings, {
+      transactionId: input.transactionId,
+      createdAt: input.occurredAt,
+    }, client);
+
+    await client.actionLog.create({
+      data: {
+        ownerId,
+        kind: input.kind,
+        description: input.description,
+        amount: input.amount,
+        transactionId: input.transactionId,
+        receivableId: input.receivableId,
+        payableId: input.payableId,
+        customerId: input.customerId,
+        staffId: input.staffId,
+        journalEntryId: entry.id,
+        previousState: input.previousState as Prisma.InputJsonValue | undefined,
+      },
+    });
+
+    return entry.cash;
+  });
+}
+
+// Most recent action that hasn't been undone, within the history window
+async function findLastAction(ownerId: string, tx: DbClient = db) {
+  const recent = await tx.actionLog.findMany({
+    where: { ownerId },
+    orderBy: { createdAt: "desc" },
+    take: HISTORY_LIMIT,
+  });
+  return recent.find((a) => a.status === "active") || null;
+}
+
+type LoggedAction = {
+  kind: string;
+  receivableId: string | null;
+  payableId: string | null;
+  customerId: string | null;
+  staffId: string | null;
+};
+
+// Receivables a payment touched - older log entries only kept the one
+export function previousReceivables(action: LoggedAction, previous: ActionState): ReceivableState[] | undefined {
+  if (previous.receivables) return previous.receivables;
+  if (action.receivableId && previous.receivable) return [{ id: action.receivableId, ...previous.receivable }];
+  return undefined;
+}
+
+type BookedPosting = { account: string; amount: Money };
+
+// Put back the receivable/payable/customer/staff fields an action changed
+// Credit and advances move back by what the action's entry booked against them,
+// so anything that changed them since is kept
+async function restorePreviousState(action: LoggedAction, previous: ActionState, booked: BookedPosting[], tx: DbClient): Promise<void> {
+  if (action.kind === "credit_purchase" && action.payableId) {
+    await tx.payable.deleteMany({ where: { id: action.payableId } });
+  } else if (previous.payables) {
+    await restorePayables(previous.payables, tx);
+  }
+
+  if (action.kind === "credit_sale" && action.receivableId) {
+    await tx.receivable.deleteMany({ where: { id: action.receivableId } });
+  } else {
+    await restoreReceivables(previousReceivables(action, previous) || [], tx);
+  }
+
+  // Credit the customer holds is a customer_credit liability, so it moves opposite to the posting
+  const creditChange = accountTotal(booked, "customer_credit");
+  if (action.customerId && creditChange !== 0) {
+    await tx.customer.update({
+      where: { id: action.customerId },
+      data: { creditBalance: { increment: creditChange } },
+    });
+  }
+
+  const advanceChange = accountTotal(booked, "staff_advances");
+  if (action.staffId && advanceChange !== 0) {
+    await tx.staff.update({
+      where: { id: action.staffId },
+      data: { advanceBalance: { decrement: advanceChange } },
+    });
+  }
+}
+
+// Reverse the most recent action: ledger, transaction, receivable and advance balance
+// All of it commits together, and two "undo"s racing can't both reverse the same action
+export async function undoLastAction(ownerId: string): Promise<CorrectionResult> {
+  return db.$transaction(async (tx): Promise<CorrectionResult> => {
+    const action = await findLastAction(ownerId, tx);
+    if (!action) return { success: false, error: "Nothing recent to undo" };
+
+    if (action.kind === "credit_sale" && action.receivableId) {
+      const receivable = await tx.receivable.findUnique({ where: { id: action.receivableId } });
+      const creditApplied = ((action.previousState || {}) as ActionState).creditApplied || 0;
+      if (receivable && receivable.amountPaid > creditApplied) {
+        return { success: false, error: "Is udhaar par payment aa chuki hai - pehle woh payment undo karo" };
+      }
+    }
+
+    if (action.kind === "credit_purchase" && action.payableId) {
+      const payable = await tx.payable.findUnique({ where: { id: action.payableId } });
+      if (payable && payable.amountPaid > 0) {
+        return { success: false, error: "Is supplier udhaar par payment ho chuki hai - pehle woh payment undo karo" };
+      }
+    }
+
+    const claimed = await tx.actionLog.updateMany({ where: { id: action.id, status: "active" }, data: { status: "undone" } });
+    if (claimed.count === 0) return { success: false, error: "Nothing recent to undo" };
+
+    // Reversed on the original entry's day, so a backdated entry leaves that day's P&L, not today's
+    const originalEntry = await tx.journalEntry.findFirstOrThrow({
+      where: { id: action.journalEntryId, ownerId },
+      include: { postings: true },
+    });
+    const booked = originalEntry.postings;
+    const reversal = await reverseEntry(ownerId, action.journalEntryId, `Undo: ${action.description}`, {
+      createdAt: originalEntry.createdAt,
+    }, tx);
+    await restorePreviousState(action, (action.previousState || {}) as ActionState, booked, tx);
+
+    if (action.transactionId) {
+      await tx.transaction.deleteMany({ where: { id: action.transactionId } });
+    }
+
+    return {
+      success: true,
+      action: { kind: action.kind as ActionKind, description: action.description, amount: action.amount },
+      cash: reversal.cash,
+    };
+  });
+}
+
+// Re-book the most recent action at a corrected amount
+export async function amendLastAction(ownerId: string, amount: Money): Promise<CorrectionResult> {
+  if (amount <= 0) return { success: false, error: "Amount 0 se zyada hona chahiye" };
+
+  return db.$transaction(async (tx): Promise<CorrectionResult> => {
+    const action = await findLastAction(ownerId, tx);
+    if (!action) return { success: false, error: "Nothing recent to correct" };
+
+    const previous = (action.previousState || {}) as ActionState;
+    let postings: PostingInput[];
+    let previousState: ActionState | undefined;
+
+    // The corrected entry is dated like the original and moves money through the same accounts
+    const originalEntry = await tx.journalEntry.findFirstOrThrow({
+      where: { id: action.journalEntryId, ownerId },
+      include: { postings: true },
+    });
+    const booked = originalEntry.postings;
+    const original = booked.filter((p) => p.account === "cash");
+    const cashAccountId = original[0]?.accountId;
+
+    switch (action.kind as ActionKind) {
+      case "expense":
+        postings = expenseEntry(amount);
+        break;
+
+      case "income": {
+        // Undo the payment's effect on the customer's udhaar and credit, then apply the corrected amount
+        const receivables = previousReceivables(action, previous);
+        const transaction = action.transactionId
+          ? await tx.transaction.findUnique({ where: { id: action.transactionId } })
+          : null;
+        const customerId = action.customerId ?? transaction?.customerId;
+        let settled = 0;
+        let credited = 0;
+        if (customerId && receivables) {
+          await restoreReceivables(receivables, tx);
+          const creditChange = accountTotal(booked, "customer_credit");
+          if (creditChange !== 0) {
+            await tx.customer.update({ where: { id: customerId }, data: { creditBalance: { increment: creditChange } } });
+          }
+          const application = await applyCustomerPayment(ownerId, customerId, amount, {
+            paidAt: transaction?.occurredAt,
+            receivableIds: receivables.map((r) => r.id),
+            advance: receivables.length === 0 && previous.creditBalance !== undefined,
+          }, tx);
+          settled = application.settled;
+          credited = application.credited;
+          previousState = paymentState(application);
+        }
+        postings = incomeEntry(amount, settled, credited);
+        break;
+      }
+
+      case "salary":
+        postings = salaryEntry({
+          gross: amount + (previous.advanceDeducted || 0),
+          advanceDeducted: previous.advanceDeducted || 0,
+          paid: amount,
+        });
+        break;
+
+      case "advance":
+        if (action.staffId) {
+          await tx.staff.update({
+            where: { id: action.staffId },
+            data: { advanceBalance: { increment: amount - action.amount } },
+          });
+        }
+        postings = advanceEntry(amount);
+        break;
+
+      case "credit_sale": {
+        // The customer's credit covers as much of the corrected amount as it can
+        const originalApplied = accountTotal(booked, "customer_credit");
+        let creditApplied = originalApplied;
+        if (action.customerId && previous.creditApplied !== undefined) {
+          const customer = await lockCustomer(tx, action.customerId);
+          creditApplied = Math.min(customer.creditBalance + originalApplied, amount);
+          await tx.customer.update({
+            where: { id: action.customerId },
+            data: { creditBalance: { increment: originalApplied - creditApplied } },
+          });
+          previousState = { ...previous, creditApplied };
+        }
+        if (action.receivableId) {
+          const receivable = await tx.receivable.update({
+            where: { id: action.receivableId },
+            data: { amount, amountPaid: { increment: creditApplied - originalApplied } },
+          });
+          await tx.receivable.update({
+            where: { id: action.receivableId },
+            data: { status: receivableStatus(receivable, receivable.amountPaid) },
+          });
+        }
+        postings = creditSaleEntry(amount, creditApplied);
+        break;
+      }
+
+      case "credit_purchase":
+        if (action.payableId) {
+          await tx.payable.update({ where: { id: action.payableId }, data: { amount } });
+        }
+        postings = creditPurchaseEntry(amount);
+        break;
+
+      case "supplier_payment": {
+        // Put the payables back, then apply the corrected amount from scratch
+        const transaction = action.transactionId
+          ? await tx.transaction.findUnique({ where: { id: action.transactionId } })
+          : null;
+        await restorePayables(previous.payables || [], tx);
+        let settled = 0;
+        if (transaction?.supplierId) {
+          const settlement = await settlePayables(ownerId, transaction.supplierId, amount, transaction.occurredAt, tx);
+          settled = settlement.settled;
+          previousState = { ...previous, payables: settlement.previous };
+        }
+        postings = supplierPaymentEntry(amount, settled);
+        break;
+      }
+
+      case "transfer": {
+        const to = original.find((p) => p.amount > 0);
+        const from = original.find((p) => p.amount < 0);
+        postings = transferEntry(amount, from?.accountId || null, to?.accountId || null);
+        break;
+      }
+
+      default:
+        return { success: false, error: `Can't correct a ${action.kind} entry` };
+    }
+
+    await reverseEntry(ownerId, action.journalEntryId, `Correction: ${action.description}`, {
+      createdAt: originalEntry.createdAt,
+    }, tx);
+    if (action.kind !== "transfer") postings = withAccount(postings, cashAccountId);
+    const entry = await postEntry(ownerId, action.description, postings, {
+      transactionId: action.transactionId || undefined,
+      createdAt: originalEntry.createdAt,
+    }, tx);
+
+    if (action.transactionId) {
+      await tx.transaction.updateMany({ where: { id: action.transactionId }, data: { amount } });
+    }
+
+    await tx.actionLog.update({
+      where: { id: action.id },
+      data: { amount, journalEntryId: entry.id, previousState: previousState as Prisma.InputJsonValue | undefined },
+    });
+
+    return {
+      success: true,
+      action: { kind: action.kind as ActionKind, description: action.description, amount },
+      previousAmount: action.amount,
+      cash: entry.cash,
+    };
+  });
+}
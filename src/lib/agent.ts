@@ -2,7 +2,33 @@ import { Experimental_Agent as Agent, stepCountIs, tool } from "ai";
 import { gateway } from "@ai-sdk/gateway";
 import { z } from "zod";
 import sharp from "sharp";
-import { db } from "./db";
+import { db, inTransaction, type Account, type DbClient } from "./db";
+import {
+  advanceEntry,
+  creditPurchaseEntry,
+  creditSaleEntry,
+  expenseEntry,
+  incomeEntry,
+  salaryEntry,
+  setCashBalance,
+  supplierPaymentEntry,
+  transferEntry,
+  withAccount,
+} from "./ledger";
+import { amendLastAction, bookAction, undoLastAction } from "./actions";
+import { ACCOUNT_KINDS, getAccountBalances, resolveAccount, setAccountBalance } from "./accounts";
+import { scaleMoney, sumMoney, toPaise, toRupees, type Money } from "./money";
+import { formatCurrency, formatDate } from "./whatsapp";
+import { resolveDate, resolveDueDate } from "./dates";
+import { RECURRING_CATEGORIES, RECURRING_FREQUENCIES, describeSchedule, findRecurringExpense, getRecurringExpenses, nextDueDate } from "./recurring";
+import { createSupplier, findSuppliers, getOpenPayables, payableBalance, payablesDueBy, settlePayables } from "./payables";
+import { applyCustomerPayment, lockCustomer, paymentState, receivableStatus } from "./receivables";
+import { formatCashCountLine, getCashCountHistory, isCashCountPending, recordCashCount } from "./cash-count";
+import { findDuplicateExpense, getHeldDuplicates, holdDuplicate, perceptualHash } from "./duplicates";
+import { attachmentUrl, findBills, saveAttachment } from "./attachments";
+import { BUSINESS_TYPES, addCategory, categorize, getCategoryNames, learnCategory, parseBusinessType } from "./categories";
+import { getCollectionReminders, reminderLadder } from "./collections";
+import { closeDraft, createDraft, draftItems, editDraft, formatDraft, getOpenDraft, totalCheck } from "./drafts";
 
 // Optimize image for AI processing: resize and compress
 async function optimizeImage(base64Data: string): Promise<string> {
@@ -36,37 +62,169 @@ async function getBusinessContext(ownerId: string) {
   startOfMonth.setHours(0, 0, 0, 0);
 
   const transactions = await db.transaction.findMany({
-    where: { ownerId, createdAt: { gte: startOfMonth } },
+    where: { ownerId, occurredAt: { gte: startOfMonth } },
   });
 
   const monthlyIncome = transactions.filter(t => t.type === "income").reduce((s, t) => s + t.amount, 0);
   const monthlyExpenses = transactions.filter(t => t.type === "expense").reduce((s, t) => s + t.amount, 0);
 
-  return { owner, staff: owner?.staff || [], customers: owner?.customers || [], receivables, monthlyIncome, monthlyExpenses };
+  const accounts = await getAccountBalances(ownerId);
+  const recurring = await getRecurringExpenses(ownerId);
+  const payables = await getOpenPayables(ownerId);
+  const held = await getHeldDuplicates(ownerId);
+  const draft = await getOpenDraft(ownerId);
+  const categories = await getCategoryNames(ownerId);
+
+  return { owner, staff: owner?.staff || [], customers: owner?.customers || [], receivables, payables, accounts, recurring, held, draft, categories, monthlyIncome, monthlyExpenses };
+}
+
+const accountParam = z.string().optional().describe("Where the money moved: cash (default), upi, bank, or an account name");
+
+// Account a tool call names: null = cash drawer (nothing named), undefined = no such account
+async function toolAccount(ownerId: string, hint?: string): Promise<Account | null | undefined> {
+  if (!hint) return null;
+  return (await resolveAccount(ownerId, hint)) ?? undefined;
+}
+
+const dateParam = z.string().optional().describe("When the money moved, as the owner said it: kal, parso, pichle somvaar, 5 tareekh, or YYYY-MM-DD. Omit for today");
+
+// Date a tool call names: now when nothing is named, null when it can't be read
+function toolDate(hint?: string): Date | null {
+  if (!hint) return new Date();
+  return resolveDate(hint);
+}
+
+interface ExpenseInput {
+  description: string;
+  amount: Money;
+  category?: string | null;
+  accountId?: string | null;
+  occurredAt: Date;
+  imageHash?: string | null;
+  attachmentId?: string | null;
+  source: string;
+}
+
+// Book an expense transaction and its ledger entry; returns cash after it
+async function bookExpense(ownerId: string, input: ExpenseInput, tx?: DbClient): Promise<Money> {
+  return inTransaction(tx, async (client) => {
+    const transaction = await client.transaction.create({
+      data: {
+        ownerId,
+        type: "expense",
+        category: input.category || "other",
+        amount: input.amount,
+        description: input.description,
+        accountId: input.accountId,
+        source: input.source,
+        occurredAt: input.occurredAt,
+        imageHash: input.imageHash,
+        attachmentId: input.attachmentId,
+      },
+    });
+    return bookAction(ownerId, {
+      kind: "expense",
+      description: input.description,
+      amount: input.amount,
+      postings: withAccount(expenseEntry(input.amount), input.accountId),
+      transactionId: transaction.id,
+      occurredAt: input.occurredAt,
+    }, client);
+  });
+}
+
+interface CreditSaleInput {
+  customerName: string;
+  amount: Money;
+  notes?: string;
+  occurredAt: Date;
+  attachmentId?: string | null;
+}
+
+// Record udhaar for a customer (created if new); credit they already have pays for it first
+async function bookCreditSale(
+  ownerId: string,
+  input: CreditSaleInput,
+  tx?: DbClient
+): Promise<{ customer: string; creditApplied: Money; stillOwed: Money }> {
+  const { amount, occurredAt } = input;
+  return inTransaction(tx, async (tx) => {
+    let customer = await tx.customer.findFirst({
+      where: { ownerId, name: { contains: input.customerName, mode: "insensitive" } },
+    });
+    if (!customer) {
+      customer = await tx.customer.create({ data: { ownerId, name: input.customerName } });
+    }
+    const customerId = customer.id;
+    // Read the credit under the row lock so two sales can't spend it twice
+    const locked = await lockCustomer(tx, customerId);
+    const creditApplied = Math.min(locked.creditBalance, amount);
+    if (creditApplied > 0) {
+      await tx.customer.update({ where: { id: customerId }, data: { creditBalance: { decrement: creditApplied } } });
+    }
+    const receivable = await tx.receivable.create({
+      data: {
+        ownerId,
+        customerId,
+        amount,
+        amountPaid: creditApplied,
+        notes: input.notes,
+        attachmentId: input.attachmentId,
+        status: receivableStatus({ amount }, creditApplied),
+        paidAt: creditApplied >= amount ? occurredAt : null,
+        createdAt: occurredAt,
+      },
+    });
+    await bookAction(ownerId, {
+      kind: "credit_sale",
+      description: `Credit sale to ${locked.name}`,
+      amount,
+      postings: creditSaleEntry(amount, creditApplied),
+      receivableId: receivable.id,
+      customerId,
+      previousState: creditApplied > 0 ? { creditBalance: locked.creditBalance, creditApplied } : undefined,
+      occurredAt,
+    }, tx);
+    return { customer: locked.name, creditApplied, stillOwed: amount - creditApplied };
+  });
+}
+
+// Tool answer when a supplier name fits more than one supplier - the owner picks
+function whichSupplier(name: string, matches: Array<{ name: string }>) {
+  return {
+    success: false,
+    error: `"${name}" matches more than one supplier`,
+    suppliers: matches.map(s => s.name),
+    ask: `Kaunsa supplier - ${matches.map(s => s.name).join(" ya ")}?`,
+  };
+}
+
+// The photo sent with this message: stored attachment, and its perceptual hash for spotting a resent bill
+interface MessageImage {
+  attachmentId: string;
+  hash: string;
 }
 
 // Create agent with tools for a specific owner
-function createBusinessAgent(ownerId: string, context: Awaited<ReturnType<typeof getBusinessContext>>, hasImage: boolean = false) {
-  const imageInstructions = hasImage ? `
+function createBusinessAgent(ownerId: string, context: Awaited<ReturnType<typeof getBusinessContext>>, source: string = "whatsapp", image?: MessageImage) {
+  const imageHash = image?.hash;
+  const attachmentId = image?.attachmentId;
+  const imageInstructions = image ? `
 
 IMAGE ANALYSIS RULES:
-You have received an image. Analyze it carefully:
-1. BILL/RECEIPT: If it's a bill, receipt, or invoice:
-   - Extract each line item with description and amount
-   - Use logExpense tool for EACH item separately
+You have received an image. Read it carefully, but don't log anything yet - the owner reviews it first:
+1. BILL/RECEIPT: Extract each line item with description and amount as an expense item
    - Common items: groceries (sabzi, dal, chawal), utilities (bijli, gas), supplies, transport
-   - Look for total amount, itemized list, shop name, date
+   - Pass the total printed on the bill as printedTotal, and the bill date if there is one
 
-2. KHATA/LEDGER (Pending Collections): If it's a handwritten khata or collection record:
-   - Extract customer names and amounts they owe
-   - Use createReceivable tool for each pending amount
+2. KHATA/LEDGER (Pending Collections): Extract customer names and the amounts they owe as receivable items
    - Look for names with amounts, dates, "baaki" or pending markers
 
-3. COMBINED: If both expenses and receivables are visible, process both
+3. COMBINED: Put both expense and receivable items in the same draft
 
 4. UNCLEAR: If you can't read the image clearly, ask user to send a clearer photo
 
-Always confirm what you extracted and logged after processing.` : "";
+Call draftFromPhoto once with everything you read, then send the owner the summary it returns, exactly as given.` : "";
 
   return new Agent({
     model: gateway("openai/gpt-4o"),
@@ -76,46 +234,271 @@ You speak natural Hinglish (Hindi + English mix). Be warm, helpful, concise.
 CURRENT BUSINESS STATE:
 - Business: ${context.owner?.businessName}
 - Owner: ${context.owner?.name}
-- Cash in hand: ₹${context.owner?.currentCash.toLocaleString("en-IN")}
-- Staff: ${context.staff.map(s => `${s.name} (₹${s.salaryAmount}/month${s.advanceBalance ? `, advance: ₹${s.advanceBalance}` : ""})`).join(", ") || "None"}
+- Total money: ${formatCurrency(context.owner?.currentCash || 0)} (${context.accounts.map(a => `${a.name}: ${formatCurrency(a.balance)}`).join(", ")})
+- Staff: ${context.staff.map(s => `${s.name} (${formatCurrency(s.salaryAmount)}/month${s.advanceBalance ? `, advance: ${formatCurrency(s.advanceBalance)}` : ""})`).join(", ") || "None"}
 - Customers: ${context.customers.map(c => c.name).join(", ") || "None"}
-- Pending receivables: ${context.receivables.map(r => `${r.customer?.name}: ₹${r.amount - (r.amountPaid || 0)}`).join(", ") || "None"}
-- This month: Income ₹${context.monthlyIncome.toLocaleString("en-IN")}, Expenses ₹${context.monthlyExpenses.toLocaleString("en-IN")}
+- Pending receivables: ${context.receivables.map(r => `${r.customer?.name}: ${formatCurrency(r.amount - (r.amountPaid || 0))}`).join(", ") || "None"}
+- Customer credit (paid in advance): ${context.customers.filter(c => c.creditBalance > 0).map(c => `${c.name}: ${formatCurrency(c.creditBalance)}`).join(", ") || "None"}
+- Supplier dues: ${context.payables.map(p => `${p.supplier.name}: ${formatCurrency(payableBalance(p))}${p.dueDate ? ` (due ${formatDate(p.dueDate)})` : ""}`).join(", ") || "None"}
+- Held as possible duplicates (waiting for haan/nahi): ${context.held.map(h => `${h.description} ${formatCurrency(h.amount)} (looks like "${h.duplicateOf.description}" logged ${formatDate(h.duplicateOf.createdAt)})`).join(", ") || "None"}
+- Photo draft waiting for review: ${context.draft ? draftItems(context.draft).map((item, i) => `${i + 1}. ${item.kind === "receivable" ? `${item.customerName} udhaar` : item.description} ${formatCurrency(item.amount)}`).join(", ") : "None"}
+- Expense categories${context.owner?.businessType ? ` (${context.owner.businessType})` : ""}: ${context.categories.join(", ")}
+- Recurring expenses: ${context.recurring.map(r => `${r.name} ${formatCurrency(r.amount)} (${describeSchedule(r)})`).join(", ") || "None"}
+- This month: Income ${formatCurrency(context.monthlyIncome)}, Expenses ${formatCurrency(context.monthlyExpenses)}${context.owner && isCashCountPending(context.owner) ? `
+- Galla count: asked in tonight's wrap, not answered yet - a bare amount ("12500") is the galla count` : ""}
 
 RULES:
 1. If the user mentions staff/customers WITHOUT salary/amount info, ASK for the missing details
 2. Don't assume salaries - always ask
 3. Be conversational - you're chatting on WhatsApp
 4. Format numbers in Indian style (₹25,000)
-5. Use tools to execute actions, respond conversationally after${imageInstructions}`,
+5. Use tools to execute actions, respond conversationally after. Tool amounts are in rupees
+6. "undo", "galat tha", "cancel karo" = undoLastAction. "last wala 2000 karo" = correctLastAction. Tell the owner exactly what changed
+7. Money sits in accounts (cash drawer, UPI, bank). Pass account when the owner says how it moved ("UPI se aaya", "bank se diya"). "Bank se 5000 nikale" = transferMoney from bank to cash. Salaries are usually paid in cash - warn if the drawer can't cover one even when the total can
+8. "kal sabzi 2000", "parso Sharma se 5000 mila" happened in the past - pass the date words as date so reports land on the right day. Today is ${formatDate(new Date())}
+9. Rent, EMIs and subscriptions that repeat ("dukaan ka kiraya 15000 har mahine 5 tareekh") = addRecurringExpense, not logExpense. Paying one today is still logExpense
+10. Goods bought on credit from a supplier ("Gupta traders se 20000 ka maal udhaar, 15 din mein dena") = createPayable with the due date as the owner said it. Paying a supplier ("Gupta ko 5000 diye") = paySupplier, not logExpense
+11. A customer's payment clears their udhaar oldest first. If the owner says which entry it's for ("Sharma ka diwali wala udhaar"), look up the ids with getPendingPayments and pass receivableIds. Tell the owner how the payment was applied and any amount kept as credit
+12. The owner's end-of-day galla count ("galla mein 12500 hai", "galla 12500") = recordCashCount, not setAccountBalance. It books any gap as unrecorded kharcha or sale - tell the owner the difference and suggest logging what they remember
+13. If logExpense says an entry looks like one already logged, it is held, not logged. Ask "Yeh pehle log ho chuka hai, phir se karu?" and name the earlier entry. "haan"/"phir se karo" = confirmHeldDuplicates with logAgain true, "nahi" = false. Pass repeat only when the owner says it really was bought again ("dobara", "phir se li")
+14. "woh gas wala bill dikhao", "Sharma ka khata photo bhejo" = findBill. Send the link(s) it returns with what each bill was for
+15. While a photo draft waits for review, "ok"/"sahi hai" = commitPhotoDraft, "2 hatao" = editPhotoDraft remove [2], "3 ka amount 450" = editPhotoDraft amounts [{item 3, 450}], "date 12 tareekh hai" = editPhotoDraft date, "cancel"/"rehne do" = discardPhotoDraft. After an edit, send the new summary it returns
+16. Pick expense categories from the list above. "yeh transport nahi, supplies hai" = changeExpenseCategory - it also teaches where similar expenses go. "packaging ka alag category banao" = addExpenseCategory
+17. Customers with overdue udhaar get automatic reminders (polite, then firm, then final). "kisko reminder gaya?" = getCollectionReminders${imageInstructions}`,
 
     tools: {
       logExpense: tool({
-        description: "Log a business expense",
+        description: "Log a business expense. An entry that looks like one already logged (same bill photo, or same amount and item that day) is held and the owner is asked first",
         inputSchema: z.object({
           description: z.string().describe("What was purchased"),
           amount: z.number().describe("Amount in rupees"),
-          category: z.string().optional().describe("Category like supplies, utilities, transport, rent"),
+          category: z.string().optional().describe("One of the owner's expense categories"),
+          account: accountParam,
+          date: dateParam,
+          repeat: z.boolean().optional().describe("Owner said this was genuinely bought again - skip the duplicate check"),
         }),
-        execute: async ({ description, amount, category }) => {
-          await db.transaction.create({
-            data: { ownerId, type: "expense", category: category || "other", amount, description, source: "whatsapp" },
-          });
-          const owner = await db.owner.update({
-            where: { id: ownerId },
-            data: { currentCash: { decrement: amount } },
+        execute: async ({ description, amount: rupees, category: suggested, account: accountHint, date, repeat }) => {
+          if (image) return { success: false, error: "Photo entries go through draftFromPhoto for the owner's review" };
+          const amount = toPaise(rupees);
+          const account = await toolAccount(ownerId, accountHint);
+          if (account === undefined) return { success: false, error: `Account "${accountHint}" not found` };
+          const occurredAt = toolDate(date);
+          if (!occurredAt) return { success: false, error: `Date "${date}" not understood` };
+          const category = await categorize(ownerId, description, suggested);
+          const entry = { description, amount, category, accountId: account?.id, occurredAt, source };
+
+          if (!repeat) {
+            const duplicateOf = await findDuplicateExpense(ownerId, entry);
+            if (duplicateOf) {
+              await holdDuplicate(ownerId, duplicateOf, entry);
+              return {
+                success: false,
+                duplicate: true,
+                held: { description, amount: rupees },
+                alreadyLogged: { description: duplicateOf.description, amount: toRupees(duplicateOf.amount), loggedOn: formatDate(duplicateOf.createdAt) },
+                ask: "Yeh pehle log ho chuka hai, phir se karu?",
+              };
+            }
+          }
+
+          const newCash = await bookExpense(ownerId, entry);
+          return { success: true, description, amount: rupees, date: formatDate(occurredAt), newCash: toRupees(newCash) };
+        },
+      }),
+
+      draftFromPhoto: tool({
+        description: "Hold everything read off a bill or khata photo as a draft for the owner to review. Nothing is logged until they confirm",
+        inputSchema: z.object({
+          items: z.array(z.object({
+            kind: z.enum(["expense", "receivable"]).describe("expense = bill line item, receivable = khata entry a customer owes"),
+            description: z.string().describe("Item as written, e.g. Sabzi, Gas cylinder"),
+            amount: z.number().describe("Amount in rupees"),
+            category: z.string().optional().describe("One of the owner's expense categories"),
+            customerName: z.string().optional().describe("Customer's name for khata entries"),
+          })),
+          printedTotal: z.number().optional().describe("Total printed on the bill, in rupees"),
+          date: dateParam,
+        }),
+        execute: async ({ items, printedTotal, date }) => {
+          if (!image) return { success: false, error: "No photo in this message" };
+          if (items.length === 0) return { success: false, error: "Nothing read off the photo" };
+          // A bill date we can't read is shown in the review rather than quietly replaced by today
+          const billDate = toolDate(date);
+          const occurredAt = billDate || new Date();
+          const draft = await createDraft(
+            ownerId,
+            items.map(item => ({
+              kind: item.kind,
+              description: item.description,
+              amount: toPaise(item.amount),
+              category: item.category,
+              customerName: item.kind === "receivable" ? item.customerName || item.description : undefined,
+              occurredAt: occurredAt.toISOString(),
+              unreadDate: billDate ? undefined : date,
+            })),
+            { attachmentId, imageHash, printedTotal: printedTotal === undefined ? undefined : toPaise(printedTotal) }
+          );
+          const check = totalCheck(draft);
+          return {
+            success: true,
+            summary: formatDraft(draft),
+            matchesPrintedTotal: check ? check.matches : undefined,
+          };
+        },
+      }),
+
+      editPhotoDraft: tool({
+        description: "Fix the photo draft under review: remove items, change their amounts or set the bill date. Item numbers are as shown in the summary",
+        inputSchema: z.object({
+          remove: z.array(z.number()).optional().describe("Item numbers to drop"),
+          amounts: z.array(z.object({
+            item: z.number().describe("Item number"),
+            amount: z.number().describe("Correct amount in rupees"),
+          })).optional(),
+          date: z.string().optional().describe("The bill's date as the owner gave it: kal, 5 tareekh, or YYYY-MM-DD"),
+        }),
+        execute: async ({ remove, amounts, date }) => {
+          const occurredAt = date ? resolveDate(date) : undefined;
+          if (occurredAt === null) return { success: false, error: `Date samajh nahi aayi: "${date}"` };
+          const result = await editDraft(ownerId, {
+            remove,
+            amounts: amounts?.map(a => ({ item: a.item, amount: toPaise(a.amount) })),
+            occurredAt,
           });
-          return { success: true, description, amount, newCash: owner.currentCash };
+          if (!result.success) return result;
+          if (result.items.length === 0) return { success: true, summary: "Draft mein kuch nahi bacha - kuch log nahi kiya." };
+          return { success: true, summary: formatDraft(result.draft) };
+        },
+      }),
+
+      commitPhotoDraft: tool({
+        description: "The owner confirmed the photo draft - log every item in it",
+        inputSchema: z.object({}),
+        execute: async () => {
+          const draft = await getOpenDraft(ownerId);
+          if (!draft) return { success: false, error: "No photo draft waiting for review" };
+          const photo = draft.attachmentId ? await db.attachment.findUnique({ where: { id: draft.attachmentId } }) : null;
+
+          // Categories are looked up first so the booking itself is only writes
+          const items = await Promise.all(draftItems(draft).map(async (item) => ({
+            ...item,
+            category: item.kind === "expense" ? await categorize(ownerId, item.description, item.category) : item.category,
+          })));
+
+          // Every line goes in or none does - a failure halfway leaves the draft open to confirm again
+          const logged = await db.$transaction(async (tx) => {
+            if (!(await closeDraft(draft, "committed", tx))) return null;
+            const booked = [];
+            for (const item of items) {
+              const occurredAt = new Date(item.occurredAt);
+              if (item.kind === "expense") {
+                await bookExpense(ownerId, {
+                  description: item.description,
+                  amount: item.amount,
+                  category: item.category,
+                  occurredAt,
+                  imageHash: photo?.imageHash,
+                  attachmentId: draft.attachmentId,
+                  source: "photo",
+                }, tx);
+              } else {
+                await bookCreditSale(ownerId, {
+                  customerName: item.customerName || item.description,
+                  amount: item.amount,
+                  occurredAt,
+                  attachmentId: draft.attachmentId,
+                }, tx);
+              }
+              booked.push({ kind: item.kind, description: item.customerName || item.description, amount: toRupees(item.amount) });
+            }
+            return booked;
+          }, { timeout: 30_000 });
+          if (!logged) return { success: false, error: "This photo draft was already logged" };
+
+          const owner = await db.owner.findUnique({ where: { id: ownerId } });
+          return { success: true, logged, newCash: toRupees(owner?.currentCash || 0) };
+        },
+      }),
+
+      discardPhotoDraft: tool({
+        description: "Drop the photo draft under review without logging anything",
+        inputSchema: z.object({}),
+        execute: async () => {
+          const draft = await getOpenDraft(ownerId);
+          if (!draft) return { success: false, error: "No photo draft waiting for review" };
+          await closeDraft(draft, "discarded");
+          return { success: true, discarded: draftItems(draft).length };
+        },
+      }),
+
+      findBill: tool({
+        description: "Find the photo of a bill, receipt or khata page behind logged entries, e.g. \"woh gas wala bill dikhao\"",
+        inputSchema: z.object({
+          query: z.string().describe("What the bill was for, as the owner said it: gas, Sharma, sabzi"),
+        }),
+        execute: async ({ query }) => {
+          const bills = await findBills(ownerId, query);
+          if (bills.length === 0) return { success: false, error: `No bill photo found for "${query}"` };
+          const phone = context.owner?.phone || "";
+          return {
+            success: true,
+            bills: bills.map(b => ({
+              for: b.description,
+              amount: toRupees(b.amount),
+              date: formatDate(b.occurredAt),
+              link: attachmentUrl(b.attachment, phone),
+            })),
+          };
+        },
+      }),
+
+      confirmHeldDuplicates: tool({
+        description: "Answer for expenses held as possible duplicates: log them anyway (haan) or drop them (nahi)",
+        inputSchema: z.object({
+          logAgain: z.boolean().describe("true = log the held entries, false = discard them"),
+        }),
+        execute: async ({ logAgain }) => {
+          const held = await getHeldDuplicates(ownerId);
+          if (held.length === 0) return { success: false, error: "Nothing is waiting for confirmation" };
+
+          let newCash: number | undefined;
+          const answered = [];
+          for (const hold of held) {
+            // Claiming the hold and booking it commit together - a repeated "haan" finds it gone
+            const claimed = await db.$transaction(async (tx) => {
+              const removed = await tx.duplicateHold.deleteMany({ where: { id: hold.id } });
+              if (removed.count !== 1) return false;
+              if (logAgain) newCash = await bookExpense(ownerId, hold, tx);
+              return true;
+            });
+            if (claimed) answered.push(hold);
+          }
+          if (answered.length === 0) return { success: false, error: "Nothing is waiting for confirmation" };
+          return {
+            success: true,
+            logged: logAgain,
+            entries: answered.map(h => ({ description: h.description, amount: toRupees(h.amount) })),
+            newCash: newCash === undefined ? undefined : toRupees(newCash),
+          };
         },
       }),
 
       recordIncome: tool({
-        description: "Record payment received",
+        description: "Record payment received. A customer's payment clears their pending udhaar oldest first (or the entries named), and anything beyond it is kept as their credit",
         inputSchema: z.object({
           amount: z.number().describe("Amount received"),
           customerName: z.string().optional().describe("Customer name if known"),
+          receivableIds: z.array(z.string()).optional().describe("Ids from getPendingPayments when the owner says which udhaar this pays"),
+          advance: z.boolean().optional().describe("Customer paid in advance for future purchases - keep it all as their credit"),
+          account: accountParam,
+          date: dateParam,
         }),
-        execute: async ({ amount, customerName }) => {
+        execute: async ({ amount: rupees, customerName, receivableIds, advance, account: accountHint, date }) => {
+          const amount = toPaise(rupees);
+          const account = await toolAccount(ownerId, accountHint);
+          if (account === undefined) return { success: false, error: `Account "${accountHint}" not found` };
+          const occurredAt = toolDate(date);
+          if (!occurredAt) return { success: false, error: `Date "${date}" not understood` };
           let customer = null;
           if (customerName) {
             customer = await db.customer.findFirst({
@@ -125,14 +508,41 @@ RULES:
               customer = await db.customer.create({ data: { ownerId, name: customerName } });
             }
           }
-          await db.transaction.create({
-            data: { ownerId, type: "income", amount, description: `Payment from ${customerName || "customer"}`, customerId: customer?.id, source: "whatsapp" },
-          });
-          const owner = await db.owner.update({
-            where: { id: ownerId },
-            data: { currentCash: { increment: amount } },
+          const description = `Payment from ${customerName || "customer"}`;
+          const { payment, newCash } = await db.$transaction(async (tx) => {
+            const transaction = await tx.transaction.create({
+              data: { ownerId, type: "income", amount, description, customerId: customer?.id, accountId: account?.id, source, occurredAt },
+            });
+            const payment = customer
+              ? await applyCustomerPayment(ownerId, customer.id, amount, { paidAt: occurredAt, receivableIds, advance }, tx)
+              : null;
+            const newCash = await bookAction(ownerId, {
+              kind: "income",
+              description,
+              amount,
+              postings: withAccount(incomeEntry(amount, payment?.settled, payment?.credited), account?.id),
+              transactionId: transaction.id,
+              receivableId: payment?.allocations[0]?.receivableId,
+              customerId: customer?.id,
+              previousState: payment ? paymentState(payment) : undefined,
+              occurredAt,
+            }, tx);
+            return { payment, newCash };
           });
-          return { success: true, amount, from: customerName || "Unknown", newCash: owner.currentCash };
+          return {
+            success: true,
+            amount: rupees,
+            from: customerName || "Unknown",
+            appliedTo: payment?.allocations.map(a => ({
+              udhaarFrom: formatDate(a.createdAt),
+              notes: a.notes,
+              paid: toRupees(a.applied),
+              stillOwed: toRupees(a.remaining),
+            })) || [],
+            keptAsCredit: toRupees(payment?.credited || 0),
+            date: formatDate(occurredAt),
+            newCash: toRupees(newCash),
+          };
         },
       }),
 
@@ -145,7 +555,7 @@ RULES:
         }),
         execute: async ({ name, salaryAmount, salaryType }) => {
           const staff = await db.staff.create({
-            data: { ownerId, name, salaryAmount, salaryType: salaryType || "monthly", paymentDay: 1 },
+            data: { ownerId, name, salaryAmount: toPaise(salaryAmount), salaryType: salaryType || "monthly", paymentDay: 1 },
           });
           return { success: true, name: staff.name, salary: salaryAmount, type: salaryType || "monthly" };
         },
@@ -156,21 +566,34 @@ RULES:
         inputSchema: z.object({
           staffName: z.string().describe("Staff member's name"),
           amount: z.number().optional().describe("Amount to pay (uses default salary if not specified)"),
+          account: accountParam,
+          date: dateParam,
         }),
-        execute: async ({ staffName, amount }) => {
+        execute: async ({ staffName, amount, account: accountHint, date }) => {
+          const account = await toolAccount(ownerId, accountHint);
+          if (account === undefined) return { success: false, error: `Account "${accountHint}" not found` };
+          const occurredAt = toolDate(date);
+          if (!occurredAt) return { success: false, error: `Date "${date}" not understood` };
           const staff = await db.staff.findFirst({
             where: { ownerId, name: { contains: staffName, mode: "insensitive" }, isActive: true },
           });
           if (!staff) return { success: false, error: `Staff "${staffName}" not found` };
-          const salaryAmount = amount || staff.salaryAmount;
-          await db.transaction.create({
-            data: { ownerId, type: "salary", category: "salary", amount: salaryAmount, description: `Salary to ${staff.name}`, staffId: staff.id, source: "whatsapp" },
-          });
-          const owner = await db.owner.update({
-            where: { id: ownerId },
-            data: { currentCash: { decrement: salaryAmount } },
+          const salaryAmount = amount ? toPaise(amount) : staff.salaryAmount;
+          const newCash = await db.$transaction(async (tx) => {
+            const transaction = await tx.transaction.create({
+              data: { ownerId, type: "salary", category: "salary", amount: salaryAmount, description: `Salary to ${staff.name}`, staffId: staff.id, accountId: account?.id, source, occurredAt },
+            });
+            return bookAction(ownerId, {
+              kind: "salary",
+              description: `Salary to ${staff.name}`,
+              amount: salaryAmount,
+              postings: withAccount(salaryEntry({ gross: salaryAmount, paid: salaryAmount }), account?.id),
+              transactionId: transaction.id,
+              staffId: staff.id,
+              occurredAt,
+            }, tx);
           });
-          return { success: true, staffName: staff.name, amount: salaryAmount, newCash: owner.currentCash };
+          return { success: true, staffName: staff.name, amount: toRupees(salaryAmount), date: formatDate(occurredAt), newCash: toRupees(newCash) };
         },
       }),
 
@@ -179,21 +602,36 @@ RULES:
         inputSchema: z.object({
           staffName: z.string().describe("Staff member's name"),
           amount: z.number().describe("Advance amount"),
+          account: accountParam,
+          date: dateParam,
         }),
-        execute: async ({ staffName, amount }) => {
+        execute: async ({ staffName, amount: rupees, account: accountHint, date }) => {
+          const amount = toPaise(rupees);
+          const account = await toolAccount(ownerId, accountHint);
+          if (account === undefined) return { success: false, error: `Account "${accountHint}" not found` };
+          const occurredAt = toolDate(date);
+          if (!occurredAt) return { success: false, error: `Date "${date}" not understood` };
           const staff = await db.staff.findFirst({
             where: { ownerId, name: { contains: staffName, mode: "insensitive" }, isActive: true },
           });
           if (!staff) return { success: false, error: `Staff "${staffName}" not found` };
-          await db.staff.update({ where: { id: staff.id }, data: { advanceBalance: { increment: amount } } });
-          await db.transaction.create({
-            data: { ownerId, type: "advance", category: "salary", amount, description: `Advance to ${staff.name}`, staffId: staff.id, source: "whatsapp" },
-          });
-          const owner = await db.owner.update({
-            where: { id: ownerId },
-            data: { currentCash: { decrement: amount } },
+          const newCash = await db.$transaction(async (tx) => {
+            const updated = await tx.staff.update({ where: { id: staff.id }, data: { advanceBalance: { increment: amount } } });
+            const transaction = await tx.transaction.create({
+              data: { ownerId, type: "advance", category: "salary", amount, description: `Advance to ${staff.name}`, staffId: staff.id, accountId: account?.id, source, occurredAt },
+            });
+            return bookAction(ownerId, {
+              kind: "advance",
+              description: `Advance to ${staff.name}`,
+              amount,
+              postings: withAccount(advanceEntry(amount), account?.id),
+              transactionId: transaction.id,
+              staffId: staff.id,
+              previousState: { advanceBalance: updated.advanceBalance - amount },
+              occurredAt,
+            }, tx);
           });
-          return { success: true, staffName: staff.name, amount, newCash: owner.currentCash };
+          return { success: true, staffName: staff.name, amount: rupees, date: formatDate(occurredAt), newCash: toRupees(newCash) };
         },
       }),
 
@@ -215,18 +653,359 @@ RULES:
           customerName: z.string().describe("Customer's name"),
           amount: z.number().describe("Amount owed"),
           notes: z.string().optional().describe("Notes about the sale"),
+          date: dateParam,
         }),
-        execute: async ({ customerName, amount, notes }) => {
-          let customer = await db.customer.findFirst({
-            where: { ownerId, name: { contains: customerName, mode: "insensitive" } },
+        execute: async ({ customerName, amount: rupees, notes, date }) => {
+          if (image) return { success: false, error: "Photo entries go through draftFromPhoto for the owner's review" };
+          const occurredAt = toolDate(date);
+          if (!occurredAt) return { success: false, error: `Date "${date}" not understood` };
+          const sale = await bookCreditSale(ownerId, { customerName, amount: toPaise(rupees), notes, occurredAt });
+          return {
+            success: true,
+            customer: sale.customer,
+            amount: rupees,
+            paidFromCredit: toRupees(sale.creditApplied),
+            stillOwed: toRupees(sale.stillOwed),
+            date: formatDate(occurredAt),
+          };
+        },
+      }),
+
+      createPayable: tool({
+        description: "Record goods or services bought on credit from a supplier - money the owner has to pay later",
+        inputSchema: z.object({
+          supplierName: z.string().describe("Supplier's name, e.g. Gupta Traders"),
+          amount: z.number().describe("Amount owed in rupees"),
+          dueDate: z.string().optional().describe("When it has to be paid, as the owner said it: 15 din mein, agle hafte, 20 tareekh, or YYYY-MM-DD"),
+          notes: z.string().optional().describe("What was bought"),
+          date: dateParam,
+        }),
+        execute: async ({ supplierName, amount: rupees, dueDate: dueHint, notes, date }) => {
+          const amount = toPaise(rupees);
+          const occurredAt = toolDate(date);
+          if (!occurredAt) return { success: false, error: `Date "${date}" not understood` };
+          const dueDate = dueHint ? resolveDueDate(dueHint) : null;
+          if (dueHint && !dueDate) return { success: false, error: `Due date "${dueHint}" not understood` };
+          const matches = await findSuppliers(ownerId, supplierName);
+          if (matches.length > 1) return whichSupplier(supplierName, matches);
+          const supplier = matches[0] ?? (await createSupplier(ownerId, supplierName));
+          await db.$transaction(async (tx) => {
+            const payable = await tx.payable.create({
+              data: { ownerId, supplierId: supplier.id, amount, dueDate, notes, status: "pending", createdAt: occurredAt },
+            });
+            await bookAction(ownerId, {
+              kind: "credit_purchase",
+              description: `Credit purchase from ${supplier.name}`,
+              amount,
+              postings: creditPurchaseEntry(amount),
+              payableId: payable.id,
+              occurredAt,
+            }, tx);
           });
-          if (!customer) {
-            customer = await db.customer.create({ data: { ownerId, name: customerName } });
-          }
-          await db.receivable.create({
-            data: { ownerId, customerId: customer.id, amount, notes, status: "pending" },
+          return { success: true, supplier: supplier.name, amount: rupees, dueDate: dueDate ? formatDate(dueDate) : null, date: formatDate(occurredAt) };
+        },
+      }),
+
+      paySupplier: tool({
+        description: "Pay a supplier - settles what is owed to them, oldest bill first. Partial payments are fine",
+        inputSchema: z.object({
+          supplierName: z.string().describe("Supplier's name"),
+          amount: z.number().describe("Amount paid in rupees"),
+          account: accountParam,
+          date: dateParam,
+        }),
+        execute: async ({ supplierName, amount: rupees, account: accountHint, date }) => {
+          const amount = toPaise(rupees);
+          const account = await toolAccount(ownerId, accountHint);
+          if (account === undefined) return { success: false, error: `Account "${accountHint}" not found` };
+          const occurredAt = toolDate(date);
+          if (!occurredAt) return { success: false, error: `Date "${date}" not understood` };
+          const matches = await findSuppliers(ownerId, supplierName);
+          if (matches.length === 0) return { success: false, error: `Supplier "${supplierName}" not found` };
+          if (matches.length > 1) return whichSupplier(supplierName, matches);
+          const supplier = matches[0];
+          const description = `Payment to ${supplier.name}`;
+          const { settlement, newCash } = await db.$transaction(async (tx) => {
+            const transaction = await tx.transaction.create({
+              data: { ownerId, type: "expense", category: "supplier", amount, description, supplierId: supplier.id, accountId: account?.id, source, occurredAt },
+            });
+            const settlement = await settlePayables(ownerId, supplier.id, amount, occurredAt, tx);
+            const newCash = await bookAction(ownerId, {
+              kind: "supplier_payment",
+              description,
+              amount,
+              postings: withAccount(supplierPaymentEntry(amount, settlement.settled), account?.id),
+              transactionId: transaction.id,
+              previousState: { payables: settlement.previous },
+              occurredAt,
+            }, tx);
+            return { settlement, newCash };
+          });
+          const stillOwed = (await getOpenPayables(ownerId))
+            .filter(p => p.supplierId === supplier.id)
+            .reduce((sum, p) => sum + payableBalance(p), 0);
+          return {
+            success: true,
+            supplier: supplier.name,
+            amount: rupees,
+            settled: toRupees(settlement.settled),
+            stillOwed: toRupees(stillOwed),
+            date: formatDate(occurredAt),
+            newCash: toRupees(newCash),
+          };
+        },
+      }),
+
+      getPayables: tool({
+        description: "List what the owner owes suppliers and when each is due",
+        inputSchema: z.object({}),
+        execute: async () => {
+          const payables = await getOpenPayables(ownerId);
+          const now = new Date();
+          const weekAhead = new Date(now);
+          weekAhead.setDate(weekAhead.getDate() + 7);
+          return {
+            payables: payables.map(p => ({
+              supplier: p.supplier.name,
+              amount: toRupees(payableBalance(p)),
+              dueDate: p.dueDate ? formatDate(p.dueDate) : null,
+              overdue: !!p.dueDate && p.dueDate < now,
+              notes: p.notes,
+            })),
+            total: toRupees(payables.reduce((sum, p) => sum + payableBalance(p), 0)),
+            dueThisWeek: toRupees(payablesDueBy(payables, weekAhead)),
+          };
+        },
+      }),
+
+      transferMoney: tool({
+        description: "Move money between the owner's accounts, e.g. cash withdrawn from bank or cash deposited into bank",
+        inputSchema: z.object({
+          from: z.string().describe("Account the money left: cash, upi, bank, or an account name"),
+          to: z.string().describe("Account the money went to: cash, upi, bank, or an account name"),
+          amount: z.number().describe("Amount in rupees"),
+        }),
+        execute: async ({ from, to, amount: rupees }) => {
+          const amount = toPaise(rupees);
+          const [source, destination] = await Promise.all([resolveAccount(ownerId, from), resolveAccount(ownerId, to)]);
+          if (!source || !destination) return { success: false, error: `Account "${!source ? from : to}" not found` };
+          if (source.id === destination.id) return { success: false, error: "From and to are the same account" };
+          const description = `${source.name} → ${destination.name}`;
+          await bookAction(ownerId, {
+            kind: "transfer", description, amount, postings: transferEntry(amount, source.id, destination.id),
+          });
+          const balances = await getAccountBalances(ownerId);
+          return {
+            success: true,
+            from: source.name,
+            to: destination.name,
+            amount: rupees,
+            balances: balances.map(b => ({ account: b.name, balance: toRupees(b.balance) })),
+          };
+        },
+      }),
+
+      addAccount: tool({
+        description: "Add a money account the owner uses (a bank account, UPI wallet or second cash box)",
+        inputSchema: z.object({
+          name: z.string().describe("Account name, e.g. SBI, PhonePe, Galla 2"),
+          kind: z.enum(ACCOUNT_KINDS).describe("cash, upi or bank"),
+          number: z.string().optional().describe("Last 4 digits of the bank account number"),
+        }),
+        execute: async ({ name, kind, number }) => {
+          const existing = await db.account.findUnique({ where: { ownerId_name: { ownerId, name } } });
+          if (existing) return { success: false, error: `Account "${name}" already exists` };
+          const account = await db.account.create({ data: { ownerId, name, kind, number } });
+          return { success: true, name: account.name, kind: account.kind };
+        },
+      }),
+
+      setAccountBalance: tool({
+        description: "Set an account's balance to the amount the owner counted or sees in their bank app",
+        inputSchema: z.object({
+          account: z.string().describe("cash, upi, bank, or an account name"),
+          amount: z.number().describe("Actual balance in rupees"),
+        }),
+        execute: async ({ account: accountHint, amount }) => {
+          const account = await resolveAccount(ownerId, accountHint);
+          if (!account) return { success: false, error: `Account "${accountHint}" not found` };
+          const newCash = await setAccountBalance(ownerId, account, toPaise(amount), `${account.name} balance set`);
+          return { success: true, account: account.name, balance: amount, newCash: toRupees(newCash) };
+        },
+      }),
+
+      recordCashCount: tool({
+        description: "Record the owner's end-of-day count of the cash drawer (galla). Compares it with the drawer balance and books a shortfall as unrecorded expense, an excess as unrecorded sale",
+        inputSchema: z.object({
+          amount: z.number().describe("Cash counted in the drawer, in rupees"),
+        }),
+        execute: async ({ amount }) => {
+          if (amount < 0) return { success: false, error: "Count can't be negative" };
+          const result = await recordCashCount(ownerId, toPaise(amount));
+          return {
+            success: true,
+            counted: amount,
+            expected: toRupees(result.expected),
+            difference: toRupees(result.difference),
+            bookedAs: result.kind,
+            newCash: toRupees(result.cash),
+          };
+        },
+      }),
+
+      getCashCountHistory: tool({
+        description: "Past galla counts and how far each was off from the books",
+        inputSchema: z.object({
+          days: z.number().optional().describe("How many days back (default 30)"),
+        }),
+        execute: async ({ days }) => {
+          const since = new Date();
+          since.setDate(since.getDate() - (days || 30));
+          since.setHours(0, 0, 0, 0);
+          const history = await getCashCountHistory(ownerId, since);
+          return {
+            counts: history.counts.map(formatCashCountLine),
+            unrecordedExpenses: toRupees(history.unrecordedExpenses),
+            unrecordedSales: toRupees(history.unrecordedSales),
+          };
+        },
+      }),
+
+      changeExpenseCategory: tool({
+        description: "Move a logged expense to another category (\"yeh transport nahi, supplies hai\"). Similar expenses go there from now on",
+        inputSchema: z.object({
+          category: z.string().describe("The right category"),
+          item: z.string().optional().describe("Which expense, e.g. petrol. Omit for the last one logged"),
+        }),
+        execute: async ({ category: name, item }) => {
+          const recent = await db.transaction.findMany({
+            where: { ownerId, type: "expense" },
+            orderBy: { createdAt: "desc" },
+            take: 20,
           });
-          return { success: true, customer: customer.name, amount };
+          const transaction = item
+            ? recent.find(t => t.description?.toLowerCase().includes(item.toLowerCase()))
+            : recent[0];
+          if (!transaction) return { success: false, error: item ? `No recent expense matching "${item}"` : "No expense logged yet" };
+
+          const category = name.trim().toLowerCase();
+          const isNew = await addCategory(ownerId, category);
+          await db.transaction.update({ where: { id: transaction.id }, data: { category } });
+          await learnCategory(ownerId, transaction.description || "", category);
+          return { success: true, expense: transaction.description, from: transaction.category, to: category, newCategory: isNew };
+        },
+      }),
+
+      addExpenseCategory: tool({
+        description: "Add the owner's own expense category, optionally with words that belong in it",
+        inputSchema: z.object({
+          name: z.string().describe("Category name, e.g. packaging"),
+          keywords: z.array(z.string()).optional().describe("Items that belong in it, e.g. dabba, foil"),
+        }),
+        execute: async ({ name, keywords }) => {
+          const isNew = await addCategory(ownerId, name, keywords);
+          return { success: true, category: name.trim().toLowerCase(), alreadyExisted: !isNew, keywords: keywords || [] };
+        },
+      }),
+
+      setBusinessType: tool({
+        description: "Set what kind of business this is - picks the default expense categories",
+        inputSchema: z.object({
+          businessType: z.enum(BUSINESS_TYPES),
+        }),
+        execute: async ({ businessType }) => {
+          await db.owner.update({ where: { id: ownerId }, data: { businessType } });
+          return { success: true, businessType, categories: await getCategoryNames(ownerId) };
+        },
+      }),
+
+      addRecurringExpense: tool({
+        description: "Set up a fixed expense that repeats - rent, loan EMI, subscription. It is reminded and logged on each due date",
+        inputSchema: z.object({
+          name: z.string().describe("What it is, e.g. Dukaan ka kiraya, Bike EMI"),
+          amount: z.number().describe("Amount in rupees"),
+          frequency: z.enum(RECURRING_FREQUENCIES).optional().describe("monthly (default) or weekly"),
+          dueDay: z.number().describe("Day of month 1-31 for monthly; weekday 0-6 (0 = Sunday) for weekly"),
+          category: z.enum(RECURRING_CATEGORIES).optional().describe("rent (default), emi, subscription, utilities, other"),
+          account: accountParam,
+          autoLog: z.boolean().optional().describe("Log it automatically on the due date instead of asking first"),
+        }),
+        execute: async ({ name, amount: rupees, frequency = "monthly", dueDay, category = "rent", account: accountHint, autoLog }) => {
+          const validDay = frequency === "weekly" ? dueDay >= 0 && dueDay <= 6 : dueDay >= 1 && dueDay <= 31;
+          if (!Number.isInteger(dueDay) || !validDay) return { success: false, error: `Invalid due day ${dueDay} for ${frequency}` };
+          const account = await toolAccount(ownerId, accountHint);
+          if (account === undefined) return { success: false, error: `Account "${accountHint}" not found` };
+          const expense = await db.recurringExpense.create({
+            data: { ownerId, name, amount: toPaise(rupees), frequency, dueDay, category, accountId: account?.id, autoLog: autoLog ?? false },
+          });
+          return {
+            success: true,
+            name: expense.name,
+            amount: rupees,
+            schedule: describeSchedule(expense),
+            nextDue: formatDate(nextDueDate(expense)),
+            autoLog: expense.autoLog,
+          };
+        },
+      }),
+
+      listRecurringExpenses: tool({
+        description: "List the owner's recurring expenses (rent, EMIs, subscriptions) and when each is next due",
+        inputSchema: z.object({}),
+        execute: async () => {
+          const recurring = await getRecurringExpenses(ownerId);
+          return {
+            recurring: recurring.map(r => ({
+              name: r.name,
+              amount: toRupees(r.amount),
+              category: r.category,
+              schedule: describeSchedule(r),
+              nextDue: formatDate(nextDueDate(r)),
+              autoLog: r.autoLog,
+            })),
+            monthlyTotal: toRupees(sumMoney(recurring.map(r => r.frequency === "weekly" ? scaleMoney(r.amount, 52 / 12) : r.amount))),
+          };
+        },
+      }),
+
+      stopRecurringExpense: tool({
+        description: "Stop a recurring expense (shop vacated, loan closed, subscription cancelled)",
+        inputSchema: z.object({
+          name: z.string().describe("Name or category of the recurring expense, e.g. kiraya, EMI"),
+        }),
+        execute: async ({ name }) => {
+          const expense = await findRecurringExpense(ownerId, name);
+          if (!expense) return { success: false, error: `Recurring expense "${name}" not found` };
+          await db.recurringExpense.update({ where: { id: expense.id }, data: { isActive: false } });
+          return { success: true, stopped: expense.name };
+        },
+      }),
+
+      undoLastAction: tool({
+        description: "Undo the most recently logged expense, income, salary, advance, credit sale or supplier entry (reverses cash, receivables, payables and advances). Call again to undo further back",
+        inputSchema: z.object({}),
+        execute: async () => {
+          const result = await undoLastAction(ownerId);
+          if (!result.success) return result;
+          return { success: true, undone: result.action.description, amount: toRupees(result.action.amount), newCash: toRupees(result.cash) };
+        },
+      }),
+
+      correctLastAction: tool({
+        description: "Change the amount of the most recently logged expense, income, salary, advance, credit sale or supplier entry",
+        inputSchema: z.object({
+          amount: z.number().describe("Correct amount in rupees"),
+        }),
+        execute: async ({ amount }) => {
+          const result = await amendLastAction(ownerId, toPaise(amount));
+          if (!result.success) return result;
+          return {
+            success: true,
+            corrected: result.action.description,
+            from: toRupees(result.previousAmount || 0),
+            to: toRupees(result.action.amount),
+            newCash: toRupees(result.cash),
+          };
         },
       }),
 
@@ -242,10 +1021,13 @@ RULES:
             where: { ownerId, status: { in: ["pending", "partial"] } },
           });
           const totalPending = receivables.reduce((sum, r) => sum + (r.amount - (r.amountPaid || 0)), 0);
+          const payables = await getOpenPayables(ownerId);
           return {
             businessName: owner?.businessName,
-            cash: owner?.currentCash,
-            pendingReceivables: totalPending,
+            cash: toRupees(owner?.currentCash || 0),
+            accounts: (await getAccountBalances(ownerId)).map(b => ({ account: b.name, kind: b.kind, balance: toRupees(b.balance) })),
+            pendingReceivables: toRupees(totalPending),
+            supplierDues: toRupees(payables.reduce((sum, p) => sum + payableBalance(p), 0)),
             staffCount: owner?.staff.length || 0,
             customerCount: owner?.customers.length || 0,
           };
@@ -260,31 +1042,58 @@ RULES:
           return {
             staff: staff.map(s => ({
               name: s.name,
-              salary: s.salaryAmount,
+              salary: toRupees(s.salaryAmount),
               type: s.salaryType,
-              advance: s.advanceBalance || 0,
+              advance: toRupees(s.advanceBalance),
             })),
-            totalPayroll: staff.reduce((sum, s) => sum + s.salaryAmount, 0),
+            totalPayroll: toRupees(sumMoney(staff.map(s => s.salaryAmount))),
           };
         },
       }),
 
       getPendingPayments: tool({
-        description: "Get list of pending payments from customers",
+        description: "Get list of pending payments from customers, and credit customers have paid in advance",
         inputSchema: z.object({}),
         execute: async () => {
           const receivables = await db.receivable.findMany({
             where: { ownerId, status: { in: ["pending", "partial"] } },
             include: { customer: true },
           });
+          const credits = await db.customer.findMany({ where: { ownerId, creditBalance: { gt: 0 } } });
           const now = new Date();
           return {
             pending: receivables.map(r => ({
+              id: r.id,
               customer: r.customer?.name || "Unknown",
-              amount: r.amount - (r.amountPaid || 0),
+              amount: toRupees(r.amount - (r.amountPaid || 0)),
+              notes: r.notes,
               daysOld: Math.floor((now.getTime() - r.createdAt.getTime()) / (1000 * 60 * 60 * 24)),
             })),
-            total: receivables.reduce((sum, r) => sum + (r.amount - (r.amountPaid || 0)), 0),
+            total: toRupees(receivables.reduce((sum, r) => sum + (r.amount - (r.amountPaid || 0)), 0)),
+            customerCredit: credits.map(c => ({ customer: c.name, amount: toRupees(c.creditBalance) })),
+          };
+        },
+      }),
+
+      getCollectionReminders: tool({
+        description: "Which customers were sent automatic payment reminders, when, and how firm",
+        inputSchema: z.object({
+          days: z.number().optional().describe("How many days back (default 30)"),
+        }),
+        execute: async ({ days }) => {
+          const since = new Date();
+          since.setDate(since.getDate() - (days || 30));
+          const reminders = await getCollectionReminders(ownerId, since);
+          return {
+            ladder: reminderLadder().map(r => `${r.step} at ${r.days} days`),
+            reminders: reminders.map(r => ({
+              customer: r.customerName,
+              step: r.step,
+              amount: toRupees(r.amount),
+              daysOverdue: r.daysOverdue,
+              sentOn: formatDate(r.createdAt),
+              status: r.status,
+            })),
           };
         },
       }),
@@ -305,8 +1114,8 @@ RULES:
             // Generate basic projections if none exist
             const owner = await db.owner.findUnique({ where: { id: ownerId } });
             const staff = await db.staff.findMany({ where: { ownerId, isActive: true } });
-            const monthlyPayroll = staff.reduce((sum, s) => sum + s.salaryAmount, 0);
-            const dailyBurn = monthlyPayroll / 30;
+            const monthlyPayroll = sumMoney(staff.map(s => s.salaryAmount));
+            const dailyBurn = scaleMoney(monthlyPayroll, 1 / 30);
 
             const forecast = [];
             let cash = owner?.currentCash || 0;
@@ -323,7 +1132,7 @@ RULES:
 
               forecast.push({
                 date: date.toLocaleDateString("en-IN", { day: "numeric", month: "short" }),
-                projectedCash: Math.round(cash),
+                projectedCash: Math.round(toRupees(cash)),
                 confidence: "medium",
                 flags,
               });
@@ -332,9 +1141,9 @@ RULES:
             return {
               forecast,
               summary: {
-                startingCash: owner?.currentCash || 0,
-                endingCash: Math.round(cash),
-                dailyBurn: Math.round(dailyBurn),
+                startingCash: toRupees(owner?.currentCash || 0),
+                endingCash: Math.round(toRupees(cash)),
+                dailyBurn: Math.round(toRupees(dailyBurn)),
                 daysOfRunway: owner?.currentCash ? Math.floor((owner.currentCash) / dailyBurn) : 0,
                 problemDays: forecast.filter(f => f.flags.length > 0).map(f => f.date),
               },
@@ -344,15 +1153,17 @@ RULES:
           return {
             forecast: projections.map(p => ({
               date: p.date.toLocaleDateString("en-IN", { day: "numeric", month: "short" }),
-              projectedCash: p.projectedCash,
-              expectedIn: p.expectedIn,
-              expectedOut: p.expectedOut,
+              projectedCash: toRupees(p.projectedCash),
+              expectedIn: toRupees(p.expectedIn),
+              expectedOut: toRupees(p.expectedOut),
+              accounts: (p.accounts as Array<{ name: string; kind: string; projected: number }> | null)
+                ?.map(a => ({ ...a, projected: toRupees(a.projected) })),
               confidence: p.confidence,
               flags: p.flags,
             })),
             summary: {
-              startingCash: projections[0]?.projectedCash || 0,
-              endingCash: projections[projections.length - 1]?.projectedCash || 0,
+              startingCash: toRupees(projections[0]?.projectedCash || 0),
+              endingCash: toRupees(projections[projections.length - 1]?.projectedCash || 0),
               problemDays: projections.filter(p => p.flags.length > 0).map(p =>
                 p.date.toLocaleDateString("en-IN", { day: "numeric", month: "short" })
               ),
@@ -379,7 +1190,7 @@ RULES:
           });
 
           const liveAlerts: Array<{ type: string; severity: string; title: string; message: string }> = [];
-          const monthlyPayroll = staff.reduce((sum, s) => sum + s.salaryAmount, 0);
+          const monthlyPayroll = sumMoney(staff.map(s => s.salaryAmount));
           const currentCash = owner?.currentCash || 0;
 
           // Cash crunch alert
@@ -388,7 +1199,7 @@ RULES:
               type: "cash_crunch",
               severity: currentCash < monthlyPayroll * 0.5 ? "critical" : "warning",
               title: "Cash Running Low",
-              message: `Cash ₹${currentCash.toLocaleString("en-IN")} is less than monthly payroll ₹${monthlyPayroll.toLocaleString("en-IN")}`,
+              message: `Cash ${formatCurrency(currentCash)} is less than monthly payroll ${formatCurrency(monthlyPayroll)}`,
             });
           }
 
@@ -399,7 +1210,7 @@ RULES:
               type: "salary_due",
               severity: "warning",
               title: "Salary Due Soon",
-              message: `Month end approaching. Total payroll: ₹${monthlyPayroll.toLocaleString("en-IN")}`,
+              message: `Month end approaching. Total payroll: ${formatCurrency(monthlyPayroll)}`,
             });
           }
 
@@ -416,7 +1227,7 @@ RULES:
               type: "overdue_payment",
               severity: "warning",
               title: "Overdue Payments",
-              message: `${overduePayments.length} payments overdue, total ₹${overdueTotal.toLocaleString("en-IN")}`,
+              message: `${overduePayments.length} payments overdue, total ${formatCurrency(overdueTotal)}`,
             });
           }
 
@@ -462,6 +1273,24 @@ RULES:
           return { success: true, dismissed: updated.count, type: alertType };
         },
       }),
+
+      setPreferredChannel: tool({
+        description: "Set which channel the owner wants briefs and alerts on (WhatsApp, Telegram or SMS)",
+        inputSchema: z.object({
+          channel: z.enum(["whatsapp", "telegram", "sms"]).describe("Preferred channel"),
+          telegramChatId: z.string().optional().describe("Telegram chat id, required for telegram"),
+        }),
+        execute: async ({ channel, telegramChatId }) => {
+          if (channel === "telegram" && !telegramChatId && !context.owner?.telegramChatId) {
+            return { success: false, error: "Telegram chat id needed - ask the owner to message our Telegram bot first" };
+          }
+          await db.owner.update({
+            where: { id: ownerId },
+            data: { preferredChannel: channel, ...(telegramChatId ? { telegramChatId } : {}) },
+          });
+          return { success: true, channel };
+        },
+      }),
     },
 
     stopWhen: stepCountIs(10),
@@ -469,7 +1298,8 @@ RULES:
 }
 
 // Main agent function
-export async function runAgent(phone: string, message: string, imageBase64?: string): Promise<string> {
+// source tags the transactions the tools create (e.g. "voice" for transcribed notes)
+export async function runAgent(phone: string, message: string, imageBase64?: string, source: string = "whatsapp"): Promise<string> {
   let owner = await db.owner.findUnique({ where: { phone } });
 
   if (!owner) {
@@ -488,21 +1318,27 @@ Pehle mujhe aapke baare mein batao:
 
   try {
     const context = await getBusinessContext(owner.id);
-    const agent = createBusinessAgent(owner.id, context, !!imageBase64);
+
+    // AI SDK v5 expects base64 without the data URL prefix
+    const rawBase64 = imageBase64?.includes(",") ? imageBase64.split(",")[1] : imageBase64;
+    let image: MessageImage | undefined;
+    if (rawBase64) {
+      // Keep the photo itself - entries read off it link back to it
+      const hash = await perceptualHash(rawBase64);
+      const attachment = await saveAttachment(owner.id, rawBase64, { imageHash: hash, source });
+      image = { attachmentId: attachment.id, hash };
+    }
+
+    const agent = createBusinessAgent(owner.id, context, source, image);
 
     // Build messages - AI SDK v5 requires messages format for multimodal
     let result;
 
-    if (imageBase64) {
-      // AI SDK v5 expects base64 without the data URL prefix
-      const rawBase64 = imageBase64.includes(",")
-        ? imageBase64.split(",")[1]
-        : imageBase64;
-
+    if (rawBase64) {
       // Optimize: resize to max 1024px and compress to 80% JPEG
       const optimizedBase64 = await optimizeImage(rawBase64);
 
-      const imagePrompt = message || "Is photo mein kya hai? Bill hai toh expense log karo, khata hai toh pending payment create karo.";
+      const imagePrompt = message || "Is photo mein kya hai? Bill ya khata hai toh padh ke review ke liye draft banao.";
 
       result = await agent.generate({
         messages: [
@@ -547,18 +1383,19 @@ async function handleOnboarding(
   if (step === "GET_BUSINESS") {
     await db.owner.update({
       where: { id: owner.id },
-      data: { businessName: message.trim(), onboardingStep: "GET_CASH" },
+      data: { businessName: message.trim(), businessType: parseBusinessType(message), onboardingStep: "GET_CASH" },
     });
     return `${message.trim()} - great! 💼\n\nAaj aapke paas kitna cash hai? (Example: 25000)`;
   }
 
   if (step === "GET_CASH") {
-    const cash = parseInt(message.replace(/[^\d]/g, "")) || 0;
+    const cash = toPaise(parseInt(message.replace(/[^\d]/g, "")) || 0);
+    await setCashBalance(owner.id, cash, "Opening cash");
     await db.owner.update({
       where: { id: owner.id },
-      data: { currentCash: cash, onboardingStep: "COMPLETE" },
+      data: { onboardingStep: "COMPLETE" },
     });
-    return `✅ Setup done! Cash: ₹${cash.toLocaleString("en-IN")}
+    return `✅ Setup done! Cash: ${formatCurrency(cash)}
 
 Bolo, kya help chahiye?`;
   }
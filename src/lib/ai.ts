@@ -21,6 +21,8 @@ export const IntentSchema = z.object({
     "staff_query",
     "profit_query",
     "reminder_request",
+    "undo_last",
+    "correct_last",
     "greeting",
     "help",
     "unknown",
@@ -66,7 +68,10 @@ Common patterns:
 - "Kaun kitna dena hai" / "Pending batao" = pending_query
 - "Staff ko kitna dena hai" = staff_query
 - "Profit kitna hua" = profit_query
+- "Undo" / "Galat tha" / "Cancel karo" = undo_last
+- "Last wala 2000 karo" / "2000 tha, 20000 nahi" = correct_last (amount = the correct figure)
 - Adding staff: "3 staff hain" or "Ramu 10000 monthly 1st"
+- Put any date words exactly as written in dates: "kal sabzi 2000" → dates: ["kal"], "5 tareekh ko rent diya" → dates: ["5 tareekh"]
 
 If onboarding is not COMPLETE, classify as onboarding_response.`;
 
@@ -106,12 +111,13 @@ export async function parseTransactions(
   context: {
     staffNames?: string[];
     customerNames?: string[];
+    categories?: string[]; // the owner's expense categories
   }
 ): Promise<ParsedTransactions> {
   const systemPrompt = `Parse financial transactions from the user's message. The user is an Indian micro-business owner.
 Extract each transaction with amount, description, category, and person name if mentioned.
 
-Categories: supplies, utilities, transport, salary, rent, equipment, other
+Categories: ${context.categories?.join(", ") || "supplies, utilities, transport, salary, rent, equipment, other"}
 Known staff: ${context.staffNames?.join(", ") || "none"}
 Known customers: ${context.customerNames?.join(", ") || "none"}
 
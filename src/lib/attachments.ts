@@ -0,0 +1,151 @@
+// Bill, receipt and khata photos
+// Every photo the owner sends is kept so the entries read off it can be traced back to it -
+// accountants ask for proof of expenses at tax time, and owners ask "woh gas wala bill dikhao".
+// The bytes go to a pluggable store (local disk by default); the Attachment row holds the metadata.
+
+import { randomUUID } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import sharp from "sharp";
+import { db, type Attachment } from "./db";
+import type { Money } from "./money";
+
+// Where attachment bytes live - swap in an object store (S3, R2, GCS) with setAttachmentStore
+export interface AttachmentStore {
+  put(key: string, data: Buffer, mimeType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+}
+
+export interface SaveAttachmentOptions {
+  imageHash?: string;
+  source?: string;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+};
+
+function attachmentDir(): string {
+  return process.env.ATTACHMENT_DIR || path.join(process.cwd(), ".attachments");
+}
+
+// Files under ATTACHMENT_DIR, keyed by relative path
+export const localAttachmentStore: AttachmentStore = {
+  async put(key, data) {
+    const file = path.join(attachmentDir(), key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, data);
+  },
+
+  async get(key) {
+    try {
+      return await readFile(path.join(attachmentDir(), key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  },
+};
+
+let store: AttachmentStore = localAttachmentStore;
+
+export function setAttachmentStore(next: AttachmentStore): void {
+  store = next;
+}
+
+// Store a photo the owner sent (base64, without the data URL prefix)
+export async function saveAttachment(
+  ownerId: string,
+  base64Data: string,
+  options: SaveAttachmentOptions = {}
+): Promise<Attachment> {
+  const data = Buffer.from(base64Data, "base64");
+  const { format } = await sharp(data).metadata();
+  const mimeType = format === "jpeg" || format === "png" || format === "webp" ? `image/${format}` : "application/octet-stream";
+  const storageKey = `${ownerId}/${randomUUID()}.${EXTENSIONS[mimeType] || "bin"}`;
+
+  await store.put(storageKey, data, mimeType);
+
+  return db.attachment.create({
+    data: {
+      ownerId,
+      mimeType,
+      size: data.length,
+      storageKey,
+      imageHash: options.imageHash,
+      source: options.source,
+    },
+  });
+}
+
+export async function readAttachment(attachment: Pick<Attachment, "storageKey">): Promise<Buffer | null> {
+  return store.get(attachment.storageKey);
+}
+
+// Link the owner can open to see the photo
+// The phone scopes it to the owner, like the other owner-facing endpoints
+export function attachmentUrl(attachment: Pick<Attachment, "id">, phone: string): string {
+  const base = process.env.APP_URL || "";
+  return `${base}/api/attachments/${attachment.id}?phone=${encodeURIComponent(phone)}`;
+}
+
+export interface BillMatch {
+  attachment: Attachment;
+  description: string;
+  amount: Money;
+  occurredAt: Date;
+}
+
+// Photos behind the owner's entries that match what they asked for ("gas wala bill"), newest first
+export async function findBills(ownerId: string, query: string, limit: number = 3): Promise<BillMatch[]> {
+  const terms = query
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((w) => w.length > 2 && !["wala", "wali", "bill", "dikhao", "photo", "receipt"].includes(w));
+
+  const [transactions, receivables] = await Promise.all([
+    db.transaction.findMany({
+      where: { ownerId, attachmentId: { not: null } },
+      include: { attachment: true },
+      orderBy: { occurredAt: "desc" },
+      take: 200,
+    }),
+    db.receivable.findMany({
+      where: { ownerId, attachmentId: { not: null } },
+      include: { attachment: true, customer: true },
+      orderBy: { createdAt: "desc" },
+      take: 100,
+    }),
+  ]);
+
+  const candidates: Array<BillMatch & { text: string }> = [
+    ...transactions.map((t) => ({
+      attachment: t.attachment!,
+      description: t.description || t.category || "Expense",
+      amount: t.amount,
+      occurredAt: t.occurredAt,
+      text: `${t.description || ""} ${t.category || ""}`.toLowerCase(),
+    })),
+    ...receivables.map((r) => ({
+      attachment: r.attachment!,
+      description: `${r.customer.name} udhaar${r.notes ? ` - ${r.notes}` : ""}`,
+      amount: r.amount,
+      occurredAt: r.createdAt,
+      text: `${r.customer.name} ${r.notes || ""} khata udhaar`.toLowerCase(),
+    })),
+  ].sort((a, b) => b.occurredAt.getTime() - a.occurredAt.getTime());
+
+  // One match per photo - a bill with five line items is still one bill
+  const seen = new Set<string>();
+  const matches: BillMatch[] = [];
+  for (const { text, ...match } of candidates) {
+    if (terms.length > 0 && !terms.some((term) => text.includes(term))) continue;
+    if (seen.has(match.attachment.id)) continue;
+    seen.add(match.attachment.id);
+    matches.push(match);
+    if (matches.length >= limit) break;
+  }
+  return matches;
+}
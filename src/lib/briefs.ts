@@ -1,6 +1,10 @@
 import { generateText } from "ai";
 import { gateway } from "@ai-sdk/gateway";
 import { db } from "./db";
+import { roundToRupee, scaleMoney } from "./money";
+import { formatCurrency } from "./whatsapp";
+import { formatCashCountLine, getCashCountHistory } from "./cash-count";
+import { getProfitAndLoss } from "./ledger";
 
 // Health Score Components (from PRD)
 // - Cash Runway (25%) - days of expenses covered
@@ -32,11 +36,11 @@ export async function calculateHealthScore(ownerId: string): Promise<HealthScore
   const endOfLastMonth = new Date(now.getFullYear(), now.getMonth(), 0);
 
   const thisMonthTxns = await db.transaction.findMany({
-    where: { ownerId, createdAt: { gte: startOfMonth } },
+    where: { ownerId, occurredAt: { gte: startOfMonth } },
   });
 
   const lastMonthTxns = await db.transaction.findMany({
-    where: { ownerId, createdAt: { gte: startOfLastMonth, lte: endOfLastMonth } },
+    where: { ownerId, occurredAt: { gte: startOfLastMonth, lte: endOfLastMonth } },
   });
 
   // Calculate metrics
@@ -115,11 +119,11 @@ async function getBusinessData(ownerId: string) {
   const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
 
   const todayTxns = await db.transaction.findMany({
-    where: { ownerId, createdAt: { gte: startOfToday } },
+    where: { ownerId, occurredAt: { gte: startOfToday } },
   });
 
   const monthTxns = await db.transaction.findMany({
-    where: { ownerId, createdAt: { gte: startOfMonth } },
+    where: { ownerId, occurredAt: { gte: startOfMonth } },
   });
 
   const receivables = await db.receivable.findMany({
@@ -132,7 +136,7 @@ async function getBusinessData(ownerId: string) {
   // Calculate 3-day projection
   const staff = owner?.staff || [];
   const monthlyPayroll = staff.reduce((sum, s) => sum + s.salaryAmount, 0);
-  const dailyBurn = monthlyPayroll / 30;
+  const dailyBurn = scaleMoney(monthlyPayroll, 1 / 30);
   let projectedCash = owner?.currentCash || 0;
   const next3Days = [];
 
@@ -145,7 +149,7 @@ async function getBusinessData(ownerId: string) {
 
     next3Days.push({
       day: date.toLocaleDateString("en-IN", { weekday: "short", day: "numeric" }),
-      amount: Math.round(projectedCash),
+      amount: roundToRupee(projectedCash),
       flag: projectedCash < 0 ? "negative" : isSalaryDay ? "salary" : projectedCash < monthlyPayroll * 0.5 ? "low" : "ok",
     });
   }
@@ -181,7 +185,7 @@ export async function generateMorningBrief(ownerId: string): Promise<string> {
   }
 
   // Calculate daily expense average
-  const dailyExpense = data.monthExpenses / Math.max(now.getDate(), 1);
+  const dailyExpense = scaleMoney(data.monthExpenses, 1 / Math.max(now.getDate(), 1));
 
   // Build 7-day projection data
   let runningCash = data.currentCash;
@@ -205,7 +209,7 @@ export async function generateMorningBrief(ownerId: string): Promise<string> {
 
     projections.push({
       day: dayName,
-      cash: Math.round(runningCash),
+      cash: roundToRupee(runningCash),
       hasSalary: salaryDue > 0,
       salaryAmount: salaryDue,
       isProblem,
@@ -223,17 +227,17 @@ export async function generateMorningBrief(ownerId: string): Promise<string> {
 
 BUSINESS DATA:
 - Owner: ${data.owner?.name}
-- Current cash: ₹${data.currentCash.toLocaleString("en-IN")}
-- Daily avg expense: ₹${Math.round(dailyExpense).toLocaleString("en-IN")}
-- Total monthly salary: ₹${data.monthlyPayroll.toLocaleString("en-IN")}
+- Current cash: ${formatCurrency(data.currentCash)}
+- Daily avg expense: ${formatCurrency(roundToRupee(dailyExpense))}
+- Total monthly salary: ${formatCurrency(data.monthlyPayroll)}
 
 7-DAY PROJECTION:
-${projections.map(p => `${p.day}: ₹${p.cash.toLocaleString("en-IN")} ${p.hasSalary ? `(salary ₹${p.salaryAmount})` : ""} ${p.isProblem ? "⚠️ PROBLEM" : "OK"}`).join("\n")}
+${projections.map(p => `${p.day}: ${formatCurrency(p.cash)} ${p.hasSalary ? `(salary ${formatCurrency(p.salaryAmount)})` : ""} ${p.isProblem ? "⚠️ PROBLEM" : "OK"}`).join("\n")}
 
-${problemDay ? `PROBLEM DAY: ${problemDay.day} - Need ₹${problemDay.salaryDue} for salary, only ₹${Math.max(0, problemDay.cashBefore)} available, ₹${problemDay.shortfall} short` : "No problem days this week"}
+${problemDay ? `PROBLEM DAY: ${problemDay.day} - Need ${formatCurrency(problemDay.salaryDue)} for salary, only ${formatCurrency(Math.max(0, problemDay.cashBefore))} available, ${formatCurrency(problemDay.shortfall)} short` : "No problem days this week"}
 
 PENDING COLLECTIONS (oldest first):
-${oldestReceivables.map(r => `${r.name}: ₹${r.amount.toLocaleString("en-IN")} pending for ${r.daysOld} days`).join("\n") || "None"}
+${oldestReceivables.map(r => `${r.name}: ${formatCurrency(r.amount)} pending for ${r.daysOld} days`).join("\n") || "None"}
 
 INSTRUCTIONS FOR PRESENTATION:
 1. Show a 7-day forecast as a simple list - each day on one line with: day name, status emoji, projected cash, brief note about what's happening (expenses, salary, etc.)
@@ -267,10 +271,10 @@ export async function generateEveningWrap(ownerId: string): Promise<string> {
 
 TODAY'S DATA:
 - Owner: ${data.owner?.name}
-- Today's income: ₹${data.todayIncome.toLocaleString("en-IN")}
-- Today's expenses: ₹${data.todayExpenses.toLocaleString("en-IN")}
-- End of day cash: ₹${data.currentCash.toLocaleString("en-IN")}
-- Tomorrow projection: ₹${data.next3Days[0]?.amount.toLocaleString("en-IN")}
+- Today's income: ${formatCurrency(data.todayIncome)}
+- Today's expenses: ${formatCurrency(data.todayExpenses)}
+- End of day cash: ${formatCurrency(data.currentCash)}
+- Tomorrow projection: ${formatCurrency(data.next3Days[0]?.amount || 0)}
 
 FORMAT:
 🌙 TODAY'S WRAP
@@ -299,29 +303,33 @@ export async function generateWeeklySummary(ownerId: string): Promise<string> {
   const weekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
 
   const weekTxns = await db.transaction.findMany({
-    where: { ownerId, createdAt: { gte: weekAgo } },
+    where: { ownerId, occurredAt: { gte: weekAgo } },
   });
 
   const weekIncome = weekTxns.filter(t => t.type === "income").reduce((s, t) => s + t.amount, 0);
   const weekExpenses = weekTxns.filter(t => t.type !== "income").reduce((s, t) => s + t.amount, 0);
+  const counts = await getCashCountHistory(ownerId, weekAgo);
 
   const prompt = `Generate a weekly business summary in Hinglish for WhatsApp.
 
 WEEKLY DATA:
 - Owner: ${data.owner?.name}
 - Business: ${data.owner?.businessName}
-- Week's income: ₹${weekIncome.toLocaleString("en-IN")}
-- Week's expenses: ₹${weekExpenses.toLocaleString("en-IN")}
-- Week's profit: ₹${(weekIncome - weekExpenses).toLocaleString("en-IN")}
-- Current cash: ₹${data.currentCash.toLocaleString("en-IN")}
+- Week's income: ${formatCurrency(weekIncome)}
+- Week's expenses: ${formatCurrency(weekExpenses)}
+- Week's profit: ${formatCurrency(weekIncome - weekExpenses)}
+- Current cash: ${formatCurrency(data.currentCash)}
 - Health Score: ${data.healthScore.score}/100
-- Pending collections: ₹${data.pendingTotal.toLocaleString("en-IN")}
+- Pending collections: ${formatCurrency(data.pendingTotal)}
+- Galla counts vs books: ${counts.counts.map(formatCashCountLine).join(", ") || "none this week"}
+- Unrecorded (found by galla count): ${formatCurrency(counts.unrecordedExpenses)} short, ${formatCurrency(counts.unrecordedSales)} extra
 
 FORMAT:
 📊 WEEKLY SUMMARY
 
 Cash change this week
 Collections & spending
+Galla count gaps (only if any were off)
 Health score
 What went well (1-2 points)
 Watch next week (1-2 points)
@@ -339,30 +347,21 @@ Keep it under 150 words.`;
 export async function generateProfitReport(ownerId: string): Promise<string> {
   const data = await getBusinessData(ownerId);
 
-  // Get expense breakdown
+  // Same ledger figures as the "profit kitna hua" reply
   const now = new Date();
   const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-
-  const monthTxns = await db.transaction.findMany({
-    where: { ownerId, createdAt: { gte: startOfMonth }, type: { not: "income" } },
-  });
-
-  // Group by category
-  const byCategory: Record<string, number> = {};
-  for (const txn of monthTxns) {
-    byCategory[txn.category || "other"] = (byCategory[txn.category || "other"] || 0) + txn.amount;
-  }
+  const pnl = await getProfitAndLoss(ownerId, startOfMonth);
 
   const prompt = `Generate a profit/loss report in Hinglish for WhatsApp.
 
 P&L DATA:
 - Business: ${data.owner?.businessName}
 - Month: ${now.toLocaleDateString("en-IN", { month: "long" })}
-- Revenue: ₹${data.monthIncome.toLocaleString("en-IN")}
-- Total Expenses: ₹${data.monthExpenses.toLocaleString("en-IN")}
-- Expense breakdown: ${Object.entries(byCategory).map(([cat, amt]) => `${cat}: ₹${amt.toLocaleString("en-IN")}`).join(", ")}
-- Profit: ₹${(data.monthIncome - data.monthExpenses).toLocaleString("en-IN")}
-- Profit Margin: ${data.monthIncome > 0 ? Math.round(((data.monthIncome - data.monthExpenses) / data.monthIncome) * 100) : 0}%
+- Revenue: ${formatCurrency(pnl.income)}
+- Total Expenses: ${formatCurrency(pnl.expenses)}
+- Expense breakdown: ${Object.entries(pnl.expensesByCategory).map(([cat, amt]) => `${cat}: ${formatCurrency(amt)}`).join(", ")}
+- Profit: ${formatCurrency(pnl.income - pnl.expenses)}
+- Profit Margin: ${pnl.income > 0 ? Math.round(((pnl.income - pnl.expenses) / pnl.income) * 100) : 0}%
 
 FORMAT:
 📈 P&L REPORT - {month}
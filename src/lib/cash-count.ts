@@ -0,0 +1,102 @@
+// End-of-day cash count ("galla mein kitna hai?")
+// The evening wrap asks the owner to count the drawer. The count is compared with what the
+// ledger says the drawer holds, and any gap is booked as a tagged adjustment: short means
+// spending nobody logged, extra means sales nobody logged. The counts are kept for reports.
+
+import { db, type CashCount, type Owner } from "./db";
+import { getAccountBalances, getDefaultAccount } from "./accounts";
+import { bookAction } from "./actions";
+import { expenseEntry, incomeEntry, withAccount } from "./ledger";
+import { sumMoney, type Money } from "./money";
+import { formatCurrency, formatDate } from "./whatsapp";
+
+export type CashCountKind = "match" | "unrecorded_expense" | "unrecorded_sale";
+
+// How long after the evening wrap a bare amount still counts as the galla count
+const COUNT_WINDOW_MS = 16 * 60 * 60 * 1000;
+
+export interface CashCountResult {
+  count: CashCount;
+  kind: CashCountKind;
+  expected: Money;
+  counted: Money;
+  difference: Money; // counted - expected
+  cash: Money; // owner's total cash after the adjustment
+}
+
+export interface CashCountHistory {
+  counts: CashCount[];
+  unrecordedExpenses: Money; // total the drawer came up short
+  unrecordedSales: Money; // total it came up over
+}
+
+export function isCashCountPending(owner: Pick<Owner, "cashCountAskedAt">, now: Date = new Date()): boolean {
+  return !!owner.cashCountAskedAt && now.getTime() - owner.cashCountAskedAt.getTime() < COUNT_WINDOW_MS;
+}
+
+// What the ledger says is in the cash drawer
+export async function getDrawerBalance(ownerId: string): Promise<Money> {
+  const [drawer, balances] = await Promise.all([getDefaultAccount(ownerId), getAccountBalances(ownerId)]);
+  return balances.find((b) => b.id === drawer.id)?.balance || 0;
+}
+
+// Compare the owner's count with the drawer and book the difference
+export async function recordCashCount(ownerId: string, counted: Money): Promise<CashCountResult> {
+  const drawer = await getDefaultAccount(ownerId);
+  const expected = await getDrawerBalance(ownerId);
+  const difference = counted - expected;
+  const kind: CashCountKind = difference === 0 ? "match" : difference < 0 ? "unrecorded_expense" : "unrecorded_sale";
+
+  return db.$transaction(async (tx) => {
+    let transactionId: string | undefined;
+    let cash = (await tx.owner.findUniqueOrThrow({ where: { id: ownerId } })).currentCash;
+
+    if (kind !== "match") {
+      const amount = Math.abs(difference);
+      const type = kind === "unrecorded_expense" ? "expense" : "income";
+      const description = kind === "unrecorded_expense"
+        ? `Galla count: ${formatCurrency(amount)} kam - unrecorded kharcha`
+        : `Galla count: ${formatCurrency(amount)} zyada - unrecorded sale`;
+
+      const transaction = await tx.transaction.create({
+        data: { ownerId, type, category: "unrecorded", amount, description, accountId: drawer.id, source: "cash_count" },
+      });
+      transactionId = transaction.id;
+      cash = await bookAction(ownerId, {
+        kind: type,
+        description,
+        amount,
+        postings: withAccount(type === "expense" ? expenseEntry(amount) : incomeEntry(amount), drawer.id),
+        transactionId,
+      }, tx);
+    }
+
+    const count = await tx.cashCount.create({
+      data: { ownerId, expected, counted, difference, kind, transactionId },
+    });
+    await tx.owner.update({ where: { id: ownerId }, data: { cashCountAskedAt: null } });
+
+    return { count, kind, expected, counted, difference, cash };
+  });
+}
+
+// Counts since a date, newest first, with the running gaps
+export async function getCashCountHistory(ownerId: string, since: Date): Promise<CashCountHistory> {
+  const counts = await db.cashCount.findMany({
+    where: { ownerId, createdAt: { gte: since } },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return {
+    counts,
+    unrecordedExpenses: -sumMoney(counts.filter((c) => c.difference < 0).map((c) => c.difference)),
+    unrecordedSales: sumMoney(counts.filter((c) => c.difference > 0).map((c) => c.difference)),
+  };
+}
+
+// "18 Oct: ₹500 kam", "17 Oct: ✓ match" lines for reports
+export function formatCashCountLine(count: Pick<CashCount, "createdAt" | "difference">): string {
+  if (count.difference === 0) return `${formatDate(count.createdAt)}: ✓ match`;
+  const gap = formatCurrency(Math.abs(count.difference));
+  return `${formatDate(count.createdAt)}: ${gap} ${count.difference < 0 ? "kam" : "zyada"}`;
+}
@@ -0,0 +1,152 @@
+// Expense categories per business
+// A tiffin service's "dabba" is packaging, a tailor's "kapda" is fabric. Each business type
+// starts from its own default set; owners add their own categories, and every correction
+// ("yeh transport nahi, supplies hai") teaches a word -> category rule that wins next time.
+
+import { db } from "./db";
+
+export const BUSINESS_TYPES = ["tiffin", "kirana", "salon", "tailor"] as const;
+export type BusinessType = (typeof BUSINESS_TYPES)[number];
+
+interface CategoryDefault {
+  name: string;
+  pattern: RegExp;
+}
+
+// How owners describe their business ("Sharma Tiffin Service", "Gupta General Store")
+const TYPE_PATTERNS: Array<{ type: BusinessType; pattern: RegExp }> = [
+  { type: "tiffin", pattern: /\b(tiffin|dabba|mess|food|khana|bhojan|catering|canteen)\b/i },
+  { type: "kirana", pattern: /\b(kirana|general\s+store|provision|grocery|departmental)\b/i },
+  { type: "salon", pattern: /\b(salon|parlou?r|beauty|barber|hair|spa)\b/i },
+  { type: "tailor", pattern: /\b(tailor|darzi|boutique|stitching|silai)\b/i },
+];
+
+const COMMON: CategoryDefault[] = [
+  { name: "rent", pattern: /rent|kiraya/ },
+  { name: "salary", pattern: /salary|wages|tankhwah/ },
+  { name: "utilities", pattern: /electricity|bijli|pani|water|phone|mobile|recharge|internet|wifi/ },
+];
+
+// Owners without a business type keep the original catch-all set
+const GENERIC: CategoryDefault[] = [
+  { name: "supplies", pattern: /sabzi|vegetable|grocery|kirana|ration/ },
+  { name: "utilities", pattern: /gas|cylinder|lpg|electricity|bijli|pani|water/ },
+  { name: "transport", pattern: /petrol|diesel|auto|taxi|transport|delivery/ },
+  { name: "rent", pattern: /rent|kiraya/ },
+  { name: "salary", pattern: /salary|wages|payment/ },
+  { name: "utilities", pattern: /phone|mobile|recharge|internet/ },
+  { name: "equipment", pattern: /repair|maintenance/ },
+];
+
+const DEFAULT_CATEGORIES: Record<BusinessType, CategoryDefault[]> = {
+  tiffin: [
+    { name: "ingredients", pattern: /sabzi|vegetable|dal|chawal|rice|atta|aata|tel|oil|masala|paneer|doodh|milk|ration/ },
+    { name: "packaging", pattern: /dabba|container|foil|packing|packet|carry\s?bag/ },
+    { name: "gas", pattern: /gas|cylinder|lpg/ },
+    { name: "delivery", pattern: /delivery|petrol|rider|auto/ },
+    ...COMMON,
+  ],
+  kirana: [
+    { name: "stock", pattern: /stock|maal|wholesale|biscuit|soap|atta|dal|chawal|cheeni|sugar|tel|oil|grocery/ },
+    { name: "packaging", pattern: /polythene|thaili|carry\s?bag|packing/ },
+    { name: "transport", pattern: /tempo|auto|transport|delivery|petrol|diesel/ },
+    ...COMMON,
+  ],
+  salon: [
+    { name: "products", pattern: /shampoo|cream|colou?r|dye|wax|facial|gel|razor|blade|product/ },
+    { name: "equipment", pattern: /chair|dryer|trimmer|machine|scissor|kainchi|repair/ },
+    { name: "laundry", pattern: /towel|laundry|dhobi/ },
+    ...COMMON,
+  ],
+  tailor: [
+    { name: "fabric", pattern: /kapda|cloth|fabric|lining|astar/ },
+    { name: "materials", pattern: /dhaga|thread|button|zip|lace|needle|sui/ },
+    { name: "equipment", pattern: /machine|motor|repair/ },
+    ...COMMON,
+  ],
+};
+
+// Words that say nothing about what was bought
+const STOPWORDS = new Set([
+  "ka", "ki", "ke", "ko", "se", "mein", "aur", "liya", "liye", "diya", "diye", "wala", "wali",
+  "kharcha", "kharche", "paid", "bill", "for", "the", "and", "rupees", "rs",
+]);
+
+export function isBusinessType(value: unknown): value is BusinessType {
+  return typeof value === "string" && (BUSINESS_TYPES as readonly string[]).includes(value);
+}
+
+// Business type from what the owner called their business, if it says
+export function parseBusinessType(text: string): BusinessType | null {
+  return TYPE_PATTERNS.find(({ pattern }) => pattern.test(text))?.type || null;
+}
+
+function defaultsFor(businessType: string | null | undefined): CategoryDefault[] {
+  return isBusinessType(businessType) ? DEFAULT_CATEGORIES[businessType] : GENERIC;
+}
+
+// Category from the business type's defaults alone - "other" when nothing matches
+export function defaultCategory(description: string, businessType?: string | null): string {
+  const lower = description.toLowerCase();
+  return defaultsFor(businessType).find(({ pattern }) => pattern.test(lower))?.name || "other";
+}
+
+function keywords(description: string): string[] {
+  return Array.from(new Set(
+    description.toLowerCase().split(/[^a-z]+/).filter((w) => w.length > 2 && !STOPWORDS.has(w))
+  ));
+}
+
+// Every category the owner can use: their type's defaults, their own, and "other"
+export async function getCategoryNames(ownerId: string): Promise<string[]> {
+  const [owner, custom] = await Promise.all([
+    db.owner.findUnique({ where: { id: ownerId }, select: { businessType: true } }),
+    db.expenseCategory.findMany({ where: { ownerId }, orderBy: { createdAt: "asc" } }),
+  ]);
+  const names = [...defaultsFor(owner?.businessType).map((c) => c.name), ...custom.map((c) => c.name), "other"];
+  return Array.from(new Set(names));
+}
+
+// Category for an expense: a learned rule for one of its words, then the category the
+// agent suggested, then the business type's defaults
+export async function categorize(ownerId: string, description: string, suggested?: string | null): Promise<string> {
+  const words = keywords(description);
+  if (words.length > 0) {
+    const rule = await db.categoryRule.findFirst({
+      where: { ownerId, keyword: { in: words } },
+      orderBy: { updatedAt: "desc" },
+    });
+    if (rule) return rule.category;
+  }
+
+  if (suggested && suggested.trim()) return suggested.trim().toLowerCase();
+
+  const owner = await db.owner.findUnique({ where: { id: ownerId }, select: { businessType: true } });
+  return defaultCategory(description, owner?.businessType);
+}
+
+// Remember that expenses described like this belong to a category
+export async function learnCategory(ownerId: string, description: string, category: string): Promise<void> {
+  for (const keyword of keywords(description)) {
+    await db.categoryRule.upsert({
+      where: { ownerId_keyword: { ownerId, keyword } },
+      create: { ownerId, keyword, category },
+      update: { category },
+    });
+  }
+}
+
+// Add an owner-defined category, optionally with words that should land in it
+// Returns false when it already exists
+export async function addCategory(ownerId: string, name: string, words: string[] = []): Promise<boolean> {
+  const category = name.trim().toLowerCase();
+  const existing = await getCategoryNames(ownerId);
+
+  if (!existing.includes(category)) {
+    await db.expenseCategory.create({ data: { ownerId, name: category } });
+  }
+  for (const word of words) {
+    await learnCategory(ownerId, word, category);
+  }
+  return !existing.includes(category);
+}
@@ -0,0 +1,162 @@
+// Collection reminders to customers
+// Overdue udhaar gets reminders on a ladder - polite at 7 days, firm at 14, final at 30 -
+// sent to the customer's phone outside quiet hours. Each customer gets one message covering
+// everything they owe, paced by their oldest overdue entry. Paid entries drop out, so the
+// ladder stops by itself. Every send is logged for the owner.
+
+import { db, type CollectionReminder, type Receivable, type Customer } from "./db";
+import { sendMessage } from "./outbound";
+import { buildTemplateMessage, TEMPLATES, type MessageTemplate } from "./templates";
+import { sumMoney, type Money } from "./money";
+import { formatCurrency } from "./whatsapp";
+
+export type ReminderStep = "polite" | "firm" | "final";
+
+export interface LadderRung {
+  step: ReminderStep;
+  days: number; // days overdue before this reminder goes out
+}
+
+export interface CollectionRunResult {
+  sent: number;
+  queued: number;
+  noPhone: number;
+}
+
+const STEP_TEMPLATES: Record<ReminderStep, MessageTemplate> = {
+  polite: TEMPLATES.collectionPolite,
+  firm: TEMPLATES.collectionFirm,
+  final: TEMPLATES.collectionFinal,
+};
+
+const STEPS: ReminderStep[] = ["polite", "firm", "final"];
+const DEFAULT_LADDER_DAYS = [7, 14, 30];
+
+// Never two reminders to the same customer closer than this, even when catching up on old udhaar
+const MIN_GAP_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Ladder days from COLLECTION_LADDER_DAYS ("7,14,30"), one per step
+export function reminderLadder(): LadderRung[] {
+  const configured = (process.env.COLLECTION_LADDER_DAYS || "")
+    .split(",")
+    .map((d) => parseInt(d.trim()))
+    .filter((d) => d > 0);
+  const days = configured.length === STEPS.length ? configured : DEFAULT_LADDER_DAYS;
+  return STEPS.map((step, i) => ({ step, days: days[i] }));
+}
+
+// Hour of the day in India, 0-23
+function istHour(now: Date): number {
+  return parseInt(new Intl.DateTimeFormat("en-GB", { hour: "numeric", hourCycle: "h23", timeZone: "Asia/Kolkata" }).format(now));
+}
+
+// No reminders from COLLECTION_QUIET_START to COLLECTION_QUIET_END (IST hours, default 21-9)
+export function isQuietHours(now: Date = new Date()): boolean {
+  const start = parseInt(process.env.COLLECTION_QUIET_START || "21");
+  const end = parseInt(process.env.COLLECTION_QUIET_END || "9");
+  const hour = istHour(now);
+  return start > end ? hour >= start || hour < end : hour >= start && hour < end;
+}
+
+// Days an udhaar is overdue: past its due date, or since it was given when there's no due date
+export function daysOverdue(receivable: Pick<Receivable, "dueDate" | "createdAt">, now: Date = new Date()): number {
+  const from = receivable.dueDate || receivable.createdAt;
+  return Math.max(0, Math.floor((now.getTime() - from.getTime()) / DAY_MS));
+}
+
+// First rung this receivable has reached but not had yet
+// Only reminders that went out (or are queued) count - one logged as no_phone never reached the customer
+function nextStep(ladder: LadderRung[], overdue: number, reminders: Pick<CollectionReminder, "step" | "status">[]): LadderRung | null {
+  const sent = reminders.filter((r) => r.status !== "no_phone").map((r) => r.step);
+  const due = ladder.filter((rung) => overdue >= rung.days && !sent.includes(rung.step));
+  return due.length > 0 ? due[0] : null;
+}
+
+function reminderValues(customer: Customer, businessName: string, amount: Money, overdue: number): Record<string, string> {
+  return { customer: customer.name, business: businessName, amount: formatCurrency(amount), days: String(overdue) };
+}
+
+// Send whatever reminders are due for one owner's customers
+export async function sendCollectionReminders(ownerId: string, now: Date = new Date()): Promise<CollectionRunResult> {
+  const result: CollectionRunResult = { sent: 0, queued: 0, noPhone: 0 };
+
+  const owner = await db.owner.findUnique({ where: { id: ownerId } });
+  if (!owner) return result;
+  const businessName = owner.businessName || owner.name || "Saarathi";
+
+  const receivables = await db.receivable.findMany({
+    where: { ownerId, status: { in: ["pending", "partial"] } },
+    include: { customer: true, reminders: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const ladder = reminderLadder();
+  const byCustomer = new Map<string, typeof receivables>();
+  for (const receivable of receivables) {
+    byCustomer.set(receivable.customerId, [...(byCustomer.get(receivable.customerId) || []), receivable]);
+  }
+
+  for (const [customerId, open] of Array.from(byCustomer.entries())) {
+    const overdue = open.filter((r) => daysOverdue(r, now) >= ladder[0].days);
+    if (overdue.length === 0) continue;
+
+    // The oldest overdue entry sets the tone
+    const oldest = overdue.reduce((a, b) => (daysOverdue(b, now) > daysOverdue(a, now) ? b : a));
+    const days = daysOverdue(oldest, now);
+    const rung = nextStep(ladder, days, oldest.reminders);
+    if (!rung) continue;
+
+    const customer = oldest.customer;
+    // The owner was already told this step needs a phone number - don't log it again every run
+    const noPhoneLogged = oldest.reminders.some((r) => r.step === rung.step && r.status === "no_phone");
+    if (!customer.phone && noPhoneLogged) continue;
+
+    const last = await db.collectionReminder.findFirst({
+      where: { ownerId, customerId, status: { not: "no_phone" } },
+      orderBy: { createdAt: "desc" },
+    });
+    if (last && now.getTime() - last.createdAt.getTime() < MIN_GAP_DAYS * DAY_MS) continue;
+
+    const amount = sumMoney(overdue.map((r) => r.amount - r.amountPaid));
+    const message = buildTemplateMessage(STEP_TEMPLATES[rung.step], reminderValues(customer, businessName, amount, days));
+
+    let status = "no_phone";
+    if (customer.phone) {
+      const delivered = await sendMessage(
+        { to: customer.phone, text: message.text, template: message.template },
+        undefined,
+        { quietHours: true }
+      );
+      status = delivered ? "sent" : "queued";
+    }
+
+    // A step first logged as no_phone becomes the real send once the customer has a number
+    const reminder = { daysOverdue: days, amount, text: message.text, status };
+    await db.collectionReminder.upsert({
+      where: { receivableId_step: { receivableId: oldest.id, step: rung.step } },
+      create: { ownerId, receivableId: oldest.id, customerId, step: rung.step, ...reminder },
+      update: { ...reminder, createdAt: now },
+    });
+
+    if (status === "sent") result.sent++;
+    else if (status === "queued") result.queued++;
+    else result.noPhone++;
+  }
+
+  return result;
+}
+
+// Reminders sent since a date, newest first, with the customer's name
+export async function getCollectionReminders(
+  ownerId: string,
+  since: Date
+): Promise<Array<CollectionReminder & { customerName: string }>> {
+  const reminders = await db.collectionReminder.findMany({
+    where: { ownerId, createdAt: { gte: since } },
+    include: { receivable: { include: { customer: true } } },
+    orderBy: { createdAt: "desc" },
+  });
+  return reminders.map(({ receivable, ...reminder }) => ({ ...reminder, customerName: receivable.customer.name }));
+}
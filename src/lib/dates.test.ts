@@ -0,0 +1,47 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { istDate, istStartOfDay, isBackdated, resolveDate, resolveDueDate } from "./dates";
+
+// 19 Oct 2026, 10:00 IST
+const now = istDate(2026, 9, 19, 10);
+
+test("doesn't read quantities as dates", () => {
+  assert.equal(resolveDate("1/2 kg chini 50", now), null);
+  assert.equal(resolveDate("3/4 litre doodh 40", now), null);
+});
+
+test("reads a bare day/month next to a date word", () => {
+  assert.equal(resolveDate("5/10 ko sabzi 2000", now)?.toISOString(), istDate(2026, 9, 5, 10).toISOString());
+  assert.equal(resolveDate("on 5/10 paid rent 8000", now)?.toISOString(), istDate(2026, 9, 5, 10).toISOString());
+  assert.equal(resolveDate("5/10", now)?.toISOString(), istDate(2026, 9, 5, 10).toISOString());
+});
+
+test("reads dates with a year anywhere", () => {
+  assert.equal(resolveDate("bijli bill 5/10/2026 1200", now)?.toISOString(), istDate(2026, 9, 5, 10).toISOString());
+  assert.equal(resolveDate("2026-10-05 rent", now)?.toISOString(), istDate(2026, 9, 5, 10).toISOString());
+});
+
+test("resolves day-of-month and weekdays on India's calendar", () => {
+  // 00:30 IST on the 19th is still the 18th in UTC
+  const earlyMorning = istDate(2026, 9, 19, 0, 30);
+  assert.equal(resolveDate("19 tareekh", earlyMorning)?.toISOString(), earlyMorning.toISOString());
+  // 19 Oct 2026 is a Monday
+  assert.equal(resolveDate("monday ko", earlyMorning)?.toISOString(), earlyMorning.toISOString());
+});
+
+test("calls out backdating by India's calendar day", () => {
+  const justAfterMidnight = istDate(2026, 9, 19, 0, 30);
+  assert.equal(isBackdated(istDate(2026, 9, 18, 23, 0), justAfterMidnight), true);
+  assert.equal(isBackdated(istDate(2026, 9, 19, 0, 5), justAfterMidnight), false);
+});
+
+test("due dates look forward", () => {
+  assert.equal(resolveDueDate("20 tareekh", now)?.toISOString(), istDate(2026, 9, 20, 10).toISOString());
+  assert.equal(resolveDueDate("5 tareekh", now)?.toISOString(), istDate(2026, 10, 5, 10).toISOString());
+});
+
+test("starts the day at midnight in India", () => {
+  // 02:00 IST on the 19th is 20:30 UTC on the 18th
+  assert.equal(istStartOfDay(istDate(2026, 9, 19, 2)).toISOString(), "2026-10-18T18:30:00.000Z");
+  assert.equal(istStartOfDay(istDate(2026, 9, 19, 23, 59)).toISOString(), "2026-10-18T18:30:00.000Z");
+});
@@ -0,0 +1,220 @@
+// Relative dates in owner messages
+// "kal sabzi 2000", "parso Sharma se 5000 mila", "pichle somvaar", "5 tareekh ko".
+// Money that was already spent or received is always in the past, so "kal" is
+// yesterday and a bare weekday or day-of-month is the most recent one up to today.
+// Resolved dates keep the current time of day, so ordering within a day stays sane.
+// Calendar days are India's, whatever time zone the server runs in.
+// Due dates for supplier payables look forward instead (resolveDueDate).
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// India has no daylight saving, so IST is a fixed offset from UTC
+export const IST_OFFSET_MS = (5 * 60 + 30) * 60 * 1000;
+
+// Oldest backdate we accept from chat - anything older is almost certainly a misread
+const MAX_DAYS_BACK = 90;
+
+// Days back for fixed words, checked in order ("parso" before "kal", "day before yesterday" before "yesterday")
+const RELATIVE_DAYS: Array<{ pattern: RegExp; days: number }> = [
+  { pattern: /\b(aaj|aj|today)\b/i, days: 0 },
+  { pattern: /\b(narso|narson|narsoo)\b/i, days: 3 },
+  { pattern: /\b(parso|parson|parsoo)\b|day before yesterday/i, days: 2 },
+  { pattern: /\b(kal|kall|yesterday)\b/i, days: 1 },
+  { pattern: /\b(pichh?le|last)\s+(hafte|week)\b/i, days: 7 },
+];
+
+// Hindi and English weekday names, Sunday = 0
+const WEEKDAY_PATTERNS: RegExp[] = [
+  /\b(ravi|it|ait)\s?(vaa?r|waa?r)\b|\bsunday\b/i,
+  /\bsom\s?(vaa?r|waa?r)\b|\bmonday\b/i,
+  /\bmangal\s?(vaa?r|waa?r)\b|\btuesday\b/i,
+  /\bbudh\s?(vaa?r|waa?r)\b|\bwednesday\b/i,
+  /\b(guru|veer|brihaspati)\s?(vaa?r|waa?r)\b|\bthursday\b/i,
+  /\bshukra?\s?(vaa?r|waa?r)\b|\bfriday\b/i,
+  /\bshani\s?(vaa?r|waa?r)\b|\bsaturday\b/i,
+];
+
+const PREVIOUS_WORDS = /\b(pichh?le|pichh?la|last|previous)\s+$/i;
+
+// A bare "5/10" is as often a quantity ("1/2 kg chini") - it's a date only next to one of these
+const DATE_WORDS_BEFORE = /\b(on|date|dated|dt|tareekh|tarikh|tarik|tareek)\.?\s*:?\s*$/i;
+const DATE_WORDS_AFTER = /^\s*(ko|tareekh|tarikh|tarik|tareek|wala|wali)\b/i;
+
+interface CalendarDay {
+  year: number;
+  month: number; // 0-based
+  day: number;
+  weekday: number; // Sunday = 0
+}
+
+// The instant of a wall-clock time in India, whatever the server's time zone (month is 0-based)
+export function istDate(year: number, month: number, day: number, hours = 0, minutes = 0, seconds = 0): Date {
+  return new Date(Date.UTC(year, month, day, hours, minutes, seconds) - IST_OFFSET_MS);
+}
+
+function daysAgo(now: Date, days: number): Date {
+  return new Date(now.getTime() - days * DAY_MS);
+}
+
+// The calendar day it is in India at an instant
+function istDay(instant: Date): CalendarDay {
+  const wall = new Date(instant.getTime() + IST_OFFSET_MS);
+  return { year: wall.getUTCFullYear(), month: wall.getUTCMonth(), day: wall.getUTCDate(), weekday: wall.getUTCDay() };
+}
+
+// Midnight in India at the start of the calendar day an instant falls on
+export function istStartOfDay(instant: Date): Date {
+  const today = istDay(instant);
+  return istDate(today.year, today.month, today.day);
+}
+
+// Same Indian time of day on a given calendar date (month is 0-based and may overflow)
+function onDate(now: Date, year: number, month: number, day: number): Date {
+  const wall = new Date(now.getTime() + IST_OFFSET_MS);
+  wall.setUTCFullYear(year, month, day);
+  return new Date(wall.getTime() - IST_OFFSET_MS);
+}
+
+function matchRelativeDay(text: string, now: Date): Date | null {
+  for (const { pattern, days } of RELATIVE_DAYS) {
+    if (pattern.test(text)) return daysAgo(now, days);
+  }
+  return null;
+}
+
+// "3 din pehle", "2 days ago"
+function matchDaysAgo(text: string, now: Date): Date | null {
+  const match = text.match(/\b(\d{1,2})\s*(din|dino|days?)\s*(pehle|pahle|phle|ago|back)\b/i);
+  return match ? daysAgo(now, parseInt(match[1])) : null;
+}
+
+// Whether a bare "5/10" reads as a date: the whole text, or a date word right before or after it
+function isDateContext(text: string, index: number, length: number): boolean {
+  if (text.trim().length === length) return true;
+  return DATE_WORDS_BEFORE.test(text.slice(0, index)) || DATE_WORDS_AFTER.test(text.slice(index + length));
+}
+
+// "2026-10-05", "5-10-2026", and "05/10" when it's clearly a date ("05/10 ko", "on 05/10")
+function matchExplicitDate(text: string, now: Date): Date | null {
+  const iso = text.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (iso) return onDate(now, parseInt(iso[1]), parseInt(iso[2]) - 1, parseInt(iso[3]));
+
+  const dmy = text.match(/\b(\d{1,2})[/-](\d{1,2})(?:[/-](\d{2,4}))?\b/);
+  if (!dmy || dmy.index === undefined) return null;
+  if (!dmy[3] && !isDateContext(text, dmy.index, dmy[0].length)) return null;
+
+  const day = parseInt(dmy[1]);
+  const month = parseInt(dmy[2]) - 1;
+  if (day < 1 || day > 31 || month < 0 || month > 11) return null;
+
+  let year = dmy[3] ? parseInt(dmy[3]) : istDay(now).year;
+  if (year < 100) year += 2000;
+  const date = onDate(now, year, month, day);
+  // "28/12" typed in January means last December
+  if (!dmy[3] && date > now) return onDate(now, year - 1, month, day);
+  return date;
+}
+
+// "5 tareekh", "5th" - this month, or last month if the day hasn't come yet
+function matchDayOfMonth(text: string, now: Date): Date | null {
+  const match = text.match(/\b(\d{1,2})\s*(tareekh|tarikh|tarik|tareek|st|nd|rd|th)\b/i);
+  if (!match) return null;
+
+  const day = parseInt(match[1]);
+  if (day < 1 || day > 31) return null;
+
+  const today = istDay(now);
+  const month = day > today.day ? today.month - 1 : today.month;
+  return onDate(now, today.year, month, day);
+}
+
+// "somvaar ko", "pichle monday" - the most recent one; "pichle" on that same weekday means a week ago
+function matchWeekday(text: string, now: Date): Date | null {
+  for (let weekday = 0; weekday < WEEKDAY_PATTERNS.length; weekday++) {
+    const match = text.match(WEEKDAY_PATTERNS[weekday]);
+    if (!match || match.index === undefined) continue;
+
+    let days = (istDay(now).weekday - weekday + 7) % 7;
+    if (days === 0 && PREVIOUS_WORDS.test(text.slice(0, match.index))) days = 7;
+    return daysAgo(now, days);
+  }
+  return null;
+}
+
+// When the money actually moved, from the owner's own words
+// Returns null when the text names no date (i.e. it happened now) or the date is in the future
+export function resolveDate(text: string, now: Date = new Date()): Date | null {
+  const date =
+    matchExplicitDate(text, now) ||
+    matchDaysAgo(text, now) ||
+    matchRelativeDay(text, now) ||
+    matchWeekday(text, now) ||
+    matchDayOfMonth(text, now);
+
+  if (!date || isNaN(date.getTime()) || date > now) return null;
+  if (now.getTime() - date.getTime() > MAX_DAYS_BACK * DAY_MS) return null;
+  return date;
+}
+
+// First date among the message itself and the date phrases the intent classifier pulled out
+export function resolveTransactionDate(message: string, dates: string[] = [], now: Date = new Date()): Date | null {
+  for (const text of [message, ...dates]) {
+    const date = resolveDate(text, now);
+    if (date) return date;
+  }
+  return null;
+}
+
+// Whether a date falls on an earlier Indian calendar day than now - used to call out backdated entries
+export function isBackdated(date: Date, now: Date = new Date()): boolean {
+  return date < istStartOfDay(now);
+}
+
+// Days ahead for due dates ("15 din mein dena", "agle hafte tak")
+const DUE_RELATIVE_DAYS: Array<{ pattern: RegExp; days: number }> = [
+  { pattern: /\b(aaj|aj|today)\b/i, days: 0 },
+  { pattern: /\b(parso|parson|parsoo)\b|day after tomorrow/i, days: 2 },
+  { pattern: /\b(kal|kall|tomorrow)\b/i, days: 1 },
+  { pattern: /\b(agle|next)\s+(hafte|week)\b/i, days: 7 },
+  { pattern: /\b(agle|next)\s+(mahine|month)\b/i, days: 30 },
+];
+
+// Explicit dates first, then "N din mein", the next "20 tareekh", then fixed words
+function matchDueDate(text: string, now: Date): Date | null {
+  const iso = text.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (iso) return onDate(now, parseInt(iso[1]), parseInt(iso[2]) - 1, parseInt(iso[3]));
+
+  const dmy = text.match(/\b(\d{1,2})[/-](\d{1,2})(?:[/-](\d{2,4}))?\b/);
+  if (dmy) {
+    let year = dmy[3] ? parseInt(dmy[3]) : istDay(now).year;
+    if (year < 100) year += 2000;
+    const date = onDate(now, year, parseInt(dmy[2]) - 1, parseInt(dmy[1]));
+    // "05/01" typed in December means next January
+    if (!dmy[3] && date < now) return onDate(now, year + 1, parseInt(dmy[2]) - 1, parseInt(dmy[1]));
+    return date;
+  }
+
+  const inDays = text.match(/\b(\d{1,3})\s*(din|dino|days?)\s*(mein|me|main|baad|later)?\b/i);
+  if (inDays) return new Date(now.getTime() + parseInt(inDays[1]) * DAY_MS);
+
+  const dayOfMonth = text.match(/\b(\d{1,2})\s*(tareekh|tarikh|tarik|tareek|st|nd|rd|th)\b/i);
+  if (dayOfMonth) {
+    const day = parseInt(dayOfMonth[1]);
+    if (day < 1 || day > 31) return null;
+    const today = istDay(now);
+    const month = day < today.day ? today.month + 1 : today.month;
+    return onDate(now, today.year, month, day);
+  }
+
+  for (const { pattern, days } of DUE_RELATIVE_DAYS) {
+    if (pattern.test(text)) return new Date(now.getTime() + days * DAY_MS);
+  }
+  return null;
+}
+
+// When something has to be paid - the future counterpart of resolveDate
+// "15 din mein", "kal tak", "agle hafte", "20 tareekh" (the next 20th), or an explicit date
+export function resolveDueDate(text: string, now: Date = new Date()): Date | null {
+  const date = matchDueDate(text, now);
+  return date && !isNaN(date.getTime()) ? date : null;
+}
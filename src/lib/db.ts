@@ -1,4 +1,4 @@
-import { PrismaClient } from "@/generated/prisma";
+import { Prisma, PrismaClient } from "@/generated/prisma";
 import { PrismaPg } from "@prisma/adapter-pg";
 import { Pool } from "pg";
 
@@ -31,4 +31,18 @@ if (process.env.NODE_ENV !== "production") {
   globalForPrisma.prisma = db;
 }
 
-export type { Owner, Staff, Customer, Transaction, Receivable, Projection, Alert } from "@/generated/prisma";
+// Client inside an interactive transaction. Helpers that write take one, so a whole business
+// event - transaction row, balances, journal entry and action log - commits or fails together
+export type DbClient = Prisma.TransactionClient;
+
+// Run fn in the caller's transaction, or in a new one when there isn't one
+export function inTransaction<T>(tx: DbClient | undefined, fn: (tx: DbClient) => Promise<T>): Promise<T> {
+  return tx ? fn(tx) : db.$transaction(fn);
+}
+
+// A unique constraint rejected the write - the row already exists (e.g. a concurrent duplicate)
+export function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+}
+
+export type { Owner, Staff, Customer, Transaction, Receivable, Projection, Alert, Account, RecurringExpense, Supplier, Payable, CashCount, DuplicateHold, Attachment, PhotoDraft, ExpenseCategory, CategoryRule, CollectionReminder } from "@/generated/prisma";
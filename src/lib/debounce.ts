@@ -0,0 +1,63 @@
+// Per-phone debounce for rapid-fire owner messages
+// "sabzi 2000", "gas 900", "auto 150" sent seconds apart become one agent turn
+// with one combined reply. The buffer lives in the database so bursts merge even
+// when each message lands on a different serverless instance.
+
+import { db } from "./db";
+
+// Quiet period after the latest message before the burst is processed (0 disables)
+function debounceWindowMs(): number {
+  return parseInt(process.env.INBOUND_DEBOUNCE_MS || "4000");
+}
+
+// Upper bound on how long the first message of a burst can wait
+function debounceMaxWaitMs(): number {
+  return parseInt(process.env.INBOUND_DEBOUNCE_MAX_MS || "15000");
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Buffer a text message and, if it ends the burst, run the handler on the merged text
+// Returns the handler's reply, or null when the message was merged into another request's turn
+export async function debounceMessage(
+  phone: string,
+  text: string,
+  handler: (mergedText: string) => Promise<string>
+): Promise<string | null> {
+  const windowMs = debounceWindowMs();
+  if (windowMs <= 0) return handler(text);
+
+  const entry = await db.inboundBuffer.create({ data: { phone, text } });
+  await sleep(windowMs);
+
+  const pending = await db.inboundBuffer.findMany({
+    where: { phone, batchId: null },
+    orderBy: { createdAt: "asc" },
+  });
+
+  // A newer message arrived during the window - its request takes the burst,
+  // unless the burst has already waited as long as it's allowed to
+  const newer = pending.some((p) => p.createdAt > entry.createdAt);
+  const burstAge = pending.length > 0 ? Date.now() - pending[0].createdAt.getTime() : 0;
+  if (newer && burstAge < debounceMaxWaitMs()) return null;
+
+  // Claim everything still unbatched - rows another request already took are skipped
+  await db.inboundBuffer.updateMany({
+    where: { phone, batchId: null, id: { in: pending.map((p) => p.id) } },
+    data: { batchId: entry.id },
+  });
+
+  const batch = await db.inboundBuffer.findMany({
+    where: { phone, batchId: entry.id },
+    orderBy: { createdAt: "asc" },
+  });
+  if (batch.length === 0) return null;
+
+  try {
+    return await handler(batch.map((b) => b.text).join("\n"));
+  } finally {
+    await db.inboundBuffer.deleteMany({ where: { batchId: entry.id } });
+  }
+}
@@ -0,0 +1,150 @@
+// Review-before-commit for bill and khata photos
+// Handwriting gets misread, so what the agent reads off a photo becomes a numbered draft
+// instead of ledger entries. The owner checks it against the bill ("ok", "2 hatao",
+// "3 ka amount 450") and only then is it booked. Items are numbered from 1 as shown.
+
+import { db, type DbClient, type PhotoDraft } from "./db";
+import { findDuplicateExpense } from "./duplicates";
+import { sumMoney, type Money } from "./money";
+import { formatCurrency, formatDate } from "./whatsapp";
+import type { Prisma } from "@/generated/prisma";
+
+export type DraftItemKind = "expense" | "receivable";
+
+export interface DraftItem {
+  kind: DraftItemKind;
+  description: string;
+  amount: Money;
+  category?: string;
+  customerName?: string; // receivables
+  occurredAt: string; // ISO
+  unreadDate?: string; // the bill's date as written, when it couldn't be read - occurredAt is then today
+  duplicateOfId?: string; // an expense already logged that this looks like
+}
+
+export interface DraftEdits {
+  remove?: number[]; // item numbers
+  amounts?: Array<{ item: number; amount: Money }>;
+  occurredAt?: Date; // the bill date, as the owner corrected it
+}
+
+export type DraftResult =
+  | { success: true; draft: PhotoDraft; items: DraftItem[] }
+  | { success: false; error: string };
+
+// An unconfirmed draft is dropped after a day
+const DRAFT_HOURS = 24;
+
+export function draftItems(draft: Pick<PhotoDraft, "items">): DraftItem[] {
+  return (draft.items || []) as unknown as DraftItem[];
+}
+
+// Start a draft from a photo - any earlier open draft is discarded
+// Expenses that look like ones already logged are flagged, so resending a bill shows up in the review
+export async function createDraft(
+  ownerId: string,
+  items: DraftItem[],
+  options: { attachmentId?: string; imageHash?: string; printedTotal?: Money } = {}
+): Promise<PhotoDraft> {
+  for (const item of items) {
+    if (item.kind !== "expense") continue;
+    const duplicate = await findDuplicateExpense(ownerId, {
+      description: item.description,
+      amount: item.amount,
+      occurredAt: new Date(item.occurredAt),
+      imageHash: options.imageHash,
+    });
+    if (duplicate) item.duplicateOfId = duplicate.id;
+  }
+
+  await db.photoDraft.updateMany({ where: { ownerId, status: "open" }, data: { status: "discarded" } });
+
+  return db.photoDraft.create({
+    data: {
+      ownerId,
+      attachmentId: options.attachmentId,
+      items: items as unknown as Prisma.InputJsonValue,
+      printedTotal: options.printedTotal,
+    },
+  });
+}
+
+export async function getOpenDraft(ownerId: string): Promise<PhotoDraft | null> {
+  const cutoff = new Date(Date.now() - DRAFT_HOURS * 60 * 60 * 1000);
+  await db.photoDraft.updateMany({
+    where: { ownerId, status: "open", updatedAt: { lt: cutoff } },
+    data: { status: "discarded" },
+  });
+  return db.photoDraft.findFirst({ where: { ownerId, status: "open" }, orderBy: { createdAt: "desc" } });
+}
+
+// Apply "2 hatao" / "3 ka amount 450" to the open draft
+// Item numbers refer to the summary the owner is looking at, so amounts change before removals
+export async function editDraft(ownerId: string, edits: DraftEdits): Promise<DraftResult> {
+  const draft = await getOpenDraft(ownerId);
+  if (!draft) return { success: false, error: "Koi photo draft review mein nahi hai" };
+
+  const items = draftItems(draft);
+  const numbers = [...(edits.remove || []), ...(edits.amounts || []).map((a) => a.item)];
+  const invalid = numbers.find((n) => !Number.isInteger(n) || n < 1 || n > items.length);
+  if (invalid !== undefined) return { success: false, error: `Item ${invalid} draft mein nahi hai (1-${items.length})` };
+
+  for (const { item, amount } of edits.amounts || []) {
+    if (amount <= 0) return { success: false, error: "Amount 0 se zyada hona chahiye" };
+    items[item - 1] = { ...items[item - 1], amount };
+  }
+  const removed = new Set(edits.remove || []);
+  const kept = items
+    .filter((_, i) => !removed.has(i + 1))
+    .map((item) => (edits.occurredAt ? { ...item, occurredAt: edits.occurredAt.toISOString(), unreadDate: undefined } : item));
+
+  const updated = await db.photoDraft.update({
+    where: { id: draft.id },
+    data: {
+      items: kept as unknown as Prisma.InputJsonValue,
+      status: kept.length > 0 ? "open" : "discarded",
+    },
+  });
+  return { success: true, draft: updated, items: kept };
+}
+
+// Close an open draft; false when it was already closed (e.g. a double-tapped "ok")
+export async function closeDraft(draft: Pick<PhotoDraft, "id">, status: "committed" | "discarded", tx: DbClient = db): Promise<boolean> {
+  const closed = await tx.photoDraft.updateMany({ where: { id: draft.id, status: "open" }, data: { status } });
+  return closed.count === 1;
+}
+
+// Printed total vs the items read, or null when the bill had no total
+export function totalCheck(draft: Pick<PhotoDraft, "items" | "printedTotal">): { itemsTotal: Money; printedTotal: Money; matches: boolean } | null {
+  if (draft.printedTotal === null) return null;
+  const itemsTotal = sumMoney(draftItems(draft).map((i) => i.amount));
+  return { itemsTotal, printedTotal: draft.printedTotal, matches: itemsTotal === draft.printedTotal };
+}
+
+// Numbered summary the owner reviews
+export function formatDraft(draft: Pick<PhotoDraft, "items" | "printedTotal">): string {
+  const items = draftItems(draft);
+  const lines = items.map((item, i) => {
+    const label = item.kind === "receivable" ? `${item.customerName || item.description} - udhaar` : item.description;
+    const flag = item.duplicateOfId ? " ⚠️ pehle log ho chuka hai?" : "";
+    return `${i + 1}. ${label}: ${formatCurrency(item.amount)}${flag}`;
+  });
+
+  const dates = Array.from(new Set(items.map((i) => formatDate(new Date(i.occurredAt)))));
+  let text = `🧾 *Photo se padha${dates.length === 1 ? ` (${dates[0]})` : ""}:*\n\n${lines.join("\n")}`;
+  const unreadDate = items.find((i) => i.unreadDate)?.unreadDate;
+  if (unreadDate) {
+    text += `\n\n⚠️ Bill ki date "${unreadDate}" samajh nahi aayi - aaj ki date lagayi hai. Alag ho toh date batao.`;
+  }
+  text += `\n\nTotal: ${formatCurrency(sumMoney(items.map((i) => i.amount)))}`;
+
+  const check = totalCheck(draft);
+  if (check) {
+    text += check.matches
+      ? `\n✓ Bill ke total se match`
+      : `\n⚠️ Bill pe total ${formatCurrency(check.printedTotal)} likha hai - ${formatCurrency(Math.abs(check.printedTotal - check.itemsTotal))} ka farak`;
+  }
+
+  text += `\n\nSahi hai toh "ok" bolo. Galti ho toh "2 hatao" ya "3 ka amount 450".`;
+  return text;
+}
@@ -0,0 +1,133 @@
+// Duplicate expense detection
+// Owners resend the same bill photo or retype an expense they already logged. Before an
+// expense is booked it is checked against recent ones: same amount on the same day with a
+// similar description, or the same amount read off a photo that looks like an earlier bill.
+// Likely duplicates are held until the owner says "haan, phir se karo".
+
+import sharp from "sharp";
+import { db, type DuplicateHold, type Transaction } from "./db";
+import { istStartOfDay } from "./dates";
+import type { Money } from "./money";
+
+// Bills older than this aren't checked against a new photo
+const IMAGE_WINDOW_DAYS = 30;
+// Bits that may differ between two scans of the same bill (out of 64)
+const IMAGE_HASH_TOLERANCE = 6;
+// Word overlap that makes two descriptions "the same thing"
+const DESCRIPTION_SIMILARITY = 0.5;
+// How long a held duplicate waits for the owner's answer
+const HOLD_HOURS = 24;
+
+export interface ExpenseCandidate {
+  description: string;
+  amount: Money;
+  occurredAt: Date;
+  imageHash?: string | null;
+}
+
+// 64-bit difference hash of an image as 16 hex chars
+// Survives recompression, resizing and small lighting changes, so a resent photo hashes the same
+export async function perceptualHash(base64Data: string): Promise<string> {
+  const pixels = await sharp(Buffer.from(base64Data, "base64"))
+    .greyscale()
+    .resize(9, 8, { fit: "fill" })
+    .raw()
+    .toBuffer();
+
+  let hash = "";
+  for (let row = 0; row < 8; row++) {
+    let nibble = 0;
+    for (let col = 0; col < 8; col++) {
+      const bit = pixels[row * 9 + col] > pixels[row * 9 + col + 1] ? 1 : 0;
+      nibble = (nibble << 1) | bit;
+      if (col % 4 === 3) {
+        hash += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+  return hash;
+}
+
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Infinity;
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+function words(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^a-z0-9ऀ-ॿ]+/).filter((w) => w.length > 1));
+}
+
+// Dice overlap of the words in two descriptions, 0-1
+export function descriptionSimilarity(a: string, b: string): number {
+  const left = words(a);
+  const right = words(b);
+  if (left.size === 0 || right.size === 0) return 0;
+  const shared = Array.from(left).filter((w) => right.has(w)).length;
+  return (2 * shared) / (left.size + right.size);
+}
+
+// An already-logged expense the candidate looks like, if any
+export async function findDuplicateExpense(ownerId: string, candidate: ExpenseCandidate): Promise<Transaction | null> {
+  // Same Indian calendar day, whatever time zone the server runs in
+  const startOfDay = istStartOfDay(candidate.occurredAt);
+  const endOfDay = new Date(startOfDay.getTime() + 24 * 60 * 60 * 1000);
+
+  const sameDay = await db.transaction.findMany({
+    where: { ownerId, type: "expense", amount: candidate.amount, occurredAt: { gte: startOfDay, lt: endOfDay } },
+    orderBy: { createdAt: "desc" },
+  });
+  const retyped = sameDay.find((t) => descriptionSimilarity(t.description || "", candidate.description) >= DESCRIPTION_SIMILARITY);
+  if (retyped) return retyped;
+
+  if (!candidate.imageHash) return null;
+
+  // Same bill photo again: any line item of the earlier bill with the same amount
+  const since = new Date(Date.now() - IMAGE_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  const fromPhotos = await db.transaction.findMany({
+    where: { ownerId, type: "expense", amount: candidate.amount, imageHash: { not: null }, createdAt: { gte: since } },
+    orderBy: { createdAt: "desc" },
+  });
+  return fromPhotos.find((t) => hammingDistance(t.imageHash!, candidate.imageHash!) <= IMAGE_HASH_TOLERANCE) || null;
+}
+
+export async function holdDuplicate(
+  ownerId: string,
+  duplicateOf: Transaction,
+  entry: ExpenseCandidate & { category?: string | null; accountId?: string | null; attachmentId?: string | null; source: string }
+): Promise<DuplicateHold> {
+  return db.duplicateHold.create({
+    data: {
+      ownerId,
+      duplicateOfId: duplicateOf.id,
+      description: entry.description,
+      amount: entry.amount,
+      category: entry.category,
+      accountId: entry.accountId,
+      occurredAt: entry.occurredAt,
+      imageHash: entry.imageHash,
+      attachmentId: entry.attachmentId,
+      source: entry.source,
+    },
+  });
+}
+
+// Entries waiting for "phir se karu?", oldest first - expired ones are dropped
+export async function getHeldDuplicates(ownerId: string): Promise<Array<DuplicateHold & { duplicateOf: Transaction }>> {
+  const cutoff = new Date(Date.now() - HOLD_HOURS * 60 * 60 * 1000);
+  await db.duplicateHold.deleteMany({ where: { ownerId, createdAt: { lt: cutoff } } });
+
+  return db.duplicateHold.findMany({
+    where: { ownerId },
+    include: { duplicateOf: true },
+    orderBy: { createdAt: "asc" },
+  });
+}
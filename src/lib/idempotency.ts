@@ -0,0 +1,57 @@
+// Inbound message idempotency
+// WhatsApp redelivers webhooks and clients retry requests; each message key is
+// claimed once so the agent (and its cash-moving tools) runs exactly once.
+
+import { db } from "./db";
+
+// A claim left in "processing" this long is assumed to have crashed mid-run
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+const RETENTION_DAYS = 7;
+
+export type ClaimResult =
+  | { claimed: true }
+  | { claimed: false; status: "processing" | "done"; reply: string | null };
+
+// Claim a message key before processing it
+export async function claimMessage(key: string, phone: string): Promise<ClaimResult> {
+  // ON CONFLICT DO NOTHING - only one concurrent caller gets count 1
+  const created = await db.processedMessage.createMany({
+    data: [{ key, phone }],
+    skipDuplicates: true,
+  });
+  if (created.count === 1) return { claimed: true };
+
+  // Take over a claim whose processor died without completing or releasing it
+  const reclaimed = await db.processedMessage.updateMany({
+    where: { key, status: "processing", updatedAt: { lt: new Date(Date.now() - STALE_CLAIM_MS) } },
+    data: { status: "processing" },
+  });
+  if (reclaimed.count === 1) return { claimed: true };
+
+  const existing = await db.processedMessage.findUnique({ where: { key } });
+  return {
+    claimed: false,
+    status: existing?.status === "done" ? "done" : "processing",
+    reply: existing?.reply ?? null,
+  };
+}
+
+// Store the reply so duplicates can return it (null when merged into another message's reply)
+export async function completeMessage(key: string, reply: string | null): Promise<void> {
+  await db.processedMessage.update({
+    where: { key },
+    data: { status: "done", reply },
+  });
+}
+
+// Drop a claim after a failure so a redelivery can try again
+export async function releaseMessage(key: string): Promise<void> {
+  await db.processedMessage.deleteMany({ where: { key, status: "processing" } });
+}
+
+// Forget keys older than the retention window (providers stop redelivering long before)
+export async function pruneProcessedMessages(): Promise<number> {
+  const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const result = await db.processedMessage.deleteMany({ where: { createdAt: { lt: cutoff } } });
+  return result.count;
+}
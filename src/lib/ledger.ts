@@ -0,0 +1,380 @@
+// Double-entry ledger
+// Every money movement is an append-only journal entry whose postings sum to zero.
+// Owner.currentCash is a cache of the cash account, moved by atomic increments in
+// the same database transaction as the entry, so concurrent messages can't lose updates.
+// Callers pass their transaction client so the entry commits with the rows it accounts for.
+
+import { db, inTransaction, type DbClient } from "./db";
+import type { Money } from "./money";
+
+export const LEDGER_ACCOUNTS = [
+  "cash",
+  "receivables",
+  "staff_advances",
+  "payables",
+  "customer_credit",
+  "salary_payable",
+  "income",
+  "expense",
+  "equity",
+] as const;
+
+export type LedgerAccount = (typeof LEDGER_ACCOUNTS)[number];
+
+// Debits positive, credits negative, in paise
+export interface PostingInput {
+  account: LedgerAccount;
+  amount: Money;
+  accountId?: string | null; // money account for cash legs (null = cash drawer)
+}
+
+// Payment received: anything that settles open receivables reduces them, anything kept as
+// the customer's credit is owed back to them in goods, the rest is income
+export function incomeEntry(amount: Money, settledReceivables: Money = 0, credited: Money = 0): PostingInput[] {
+  const settled = Math.min(settledReceivables, amount);
+  const kept = Math.min(credited, amount - settled);
+  return [
+    { account: "cash", amount },
+    { account: "receivables", amount: -settled },
+    { account: "customer_credit", amount: -kept },
+    { account: "income", amount: -(amount - settled - kept) },
+  ];
+}
+
+export function expenseEntry(amount: Money): PostingInput[] {
+  return [
+    { account: "expense", amount },
+    { account: "cash", amount: -amount },
+  ];
+}
+
+// Credit sale (udhaar): income now, cash later - less whatever the customer's credit covers
+export function creditSaleEntry(amount: Money, creditApplied: Money = 0): PostingInput[] {
+  const applied = Math.min(creditApplied, amount);
+  return [
+    { account: "receivables", amount: amount - applied },
+    { account: "customer_credit", amount: applied },
+    { account: "income", amount: -amount },
+  ];
+}
+
+// Goods bought on credit from a supplier: expensed now, owed until paid
+export function creditPurchaseEntry(amount: Money): PostingInput[] {
+  return [
+    { account: "expense", amount },
+    { account: "payables", amount: -amount },
+  ];
+}
+
+// Paying a supplier: whatever settles open payables reduces them, the rest is a fresh expense
+export function supplierPaymentEntry(amount: Money, settledPayables: Money = 0): PostingInput[] {
+  const settled = Math.min(settledPayables, amount);
+  return [
+    { account: "payables", amount: settled },
+    { account: "expense", amount: amount - settled },
+    { account: "cash", amount: -amount },
+  ];
+}
+
+export function advanceEntry(amount: Money): PostingInput[] {
+  return [
+    { account: "staff_advances", amount },
+    { account: "cash", amount: -amount },
+  ];
+}
+
+// Salary: the gross is expensed, advances are recovered, cash is paid out,
+// and whatever is left unpaid stays in salary payable
+export function salaryEntry({ gross, advanceDeducted = 0, paid }: { gross: Money; advanceDeducted?: Money; paid: Money }): PostingInput[] {
+  return [
+    { account: "expense", amount: gross },
+    { account: "staff_advances", amount: -advanceDeducted },
+    { account: "cash", amount: -paid },
+    { account: "salary_payable", amount: -(gross - advanceDeducted - paid) },
+  ];
+}
+
+// Moving money between accounts ("bank se 5000 nikale") - total cash is unchanged
+export function transferEntry(amount: Money, fromAccountId: string | null, toAccountId: string | null): PostingInput[] {
+  return [
+    { account: "cash", amount, accountId: toAccountId },
+    { account: "cash", amount: -amount, accountId: fromAccountId },
+  ];
+}
+
+// Route an entry's cash legs through a specific money account
+export function withAccount(postings: PostingInput[], accountId: string | null | undefined): PostingInput[] {
+  return postings.map((p) => (p.account === "cash" ? { ...p, accountId: accountId ?? null } : p));
+}
+
+export interface PostedEntry {
+  id: string;
+  cash: Money; // owner's cash after the entry
+}
+
+// Append a balanced entry and move the cached cash balance
+export async function postEntry(
+  ownerId: string,
+  description: string,
+  postings: PostingInput[],
+  options: { transactionId?: string; createdAt?: Date } = {},
+  tx?: DbClient
+): Promise<PostedEntry> {
+  const legs = postings.filter((p) => p.amount !== 0);
+  if (legs.some((p) => !Number.isInteger(p.amount))) {
+    throw new Error(`Journal entry "${description}" has fractional paise`);
+  }
+  const total = legs.reduce((sum, p) => sum + p.amount, 0);
+  if (total !== 0) {
+    throw new Error(`Unbalanced journal entry "${description}": postings sum to ${total}`);
+  }
+
+  const cashDelta = legs
+    .filter((p) => p.account === "cash")
+    .reduce((sum, p) => sum + p.amount, 0);
+
+  return inTransaction(tx, async (client) => {
+    const entry = await client.journalEntry.create({
+      data: {
+        ownerId,
+        description,
+        transactionId: options.transactionId,
+        createdAt: options.createdAt,
+        postings: {
+          create: legs.map((p) => ({ ownerId, account: p.account, amount: p.amount, accountId: p.accountId })),
+        },
+      },
+    });
+    const owner = await client.owner.update({
+      where: { id: ownerId },
+      data: { currentCash: { increment: cashDelta } },
+    });
+
+    return { id: entry.id, cash: owner.currentCash };
+  });
+}
+
+// Cancel an entry by posting its mirror image - entries are never edited or deleted
+// The reversal books against the same transaction, so the transaction's net postings drop it.
+// A correction dates the reversal with the entry it cancels, so that day's totals change rather than today's
+export async function reverseEntry(
+  ownerId: string,
+  entryId: string,
+  description: string,
+  options: { createdAt?: Date } = {},
+  tx?: DbClient
+): Promise<PostedEntry> {
+  const entry = await (tx ?? db).journalEntry.findFirstOrThrow({ where: { id: entryId, ownerId }, include: { postings: true } });
+
+  return postEntry(
+    ownerId,
+    description,
+    entry.postings.map((p) => ({ account: p.account as LedgerAccount, amount: -p.amount, accountId: p.accountId })),
+    { ...options, transactionId: entry.transactionId ?? undefined },
+    tx
+  );
+}
+
+// Net amount a set of postings moved through one ledger account
+export function accountTotal(postings: Array<{ account: string; amount: Money }>, account: LedgerAccount): Money {
+  return postings.filter((p) => p.account === account).reduce((sum, p) => sum + p.amount, 0);
+}
+
+// Net effect of every entry booked against a transaction (original plus corrections)
+// Returns null when the transaction predates the ledger
+export async function getTransactionPostings(ownerId: string, transactionId: string, tx?: DbClient): Promise<PostingInput[] | null> {
+  const postings = await (tx ?? db).posting.findMany({
+    where: { ownerId, entry: { transactionId } },
+  });
+  if (postings.length === 0) return null;
+
+  // Net per ledger account and money account
+  const net = new Map<string, PostingInput>();
+  for (const p of postings) {
+    const key = `${p.account}:${p.accountId || ""}`;
+    const current = net.get(key) || { account: p.account as LedgerAccount, amount: 0, accountId: p.accountId };
+    net.set(key, { ...current, amount: current.amount + p.amount });
+  }
+  return Array.from(net.values());
+}
+
+// Balance of every account, derived from postings
+export async function getLedgerBalances(ownerId: string): Promise<Record<LedgerAccount, Money>> {
+  const sums = await db.posting.groupBy({
+    by: ["account"],
+    where: { ownerId },
+    _sum: { amount: true },
+  });
+
+  const balances = Object.fromEntries(LEDGER_ACCOUNTS.map((a) => [a, 0])) as Record<LedgerAccount, Money>;
+  for (const row of sums) {
+    if ((LEDGER_ACCOUNTS as readonly string[]).includes(row.account)) {
+      balances[row.account as LedgerAccount] = row._sum.amount || 0;
+    }
+  }
+  return balances;
+}
+
+export interface ProfitAndLoss {
+  income: Money;
+  expenses: Money;
+  expensesByCategory: Record<string, Money>;
+}
+
+// Profit and loss since a date, read off the income and expense accounts
+// Accrual basis, like the entries: udhaar sales count when made and credit purchases when
+// bought, not when they're settled, and staff advances are owed back rather than spent
+export async function getProfitAndLoss(ownerId: string, since: Date): Promise<ProfitAndLoss> {
+  const postings = await db.posting.findMany({
+    where: { ownerId, account: { in: ["income", "expense"] }, entry: { createdAt: { gte: since } } },
+    include: { entry: { select: { transactionId: true } } },
+  });
+
+  const transactionIds = Array.from(new Set(postings.flatMap((p) => (p.entry.transactionId ? [p.entry.transactionId] : []))));
+  const transactions = await db.transaction.findMany({
+    where: { ownerId, id: { in: transactionIds } },
+    select: { id: true, category: true },
+  });
+  const categories = new Map(transactions.map((t) => [t.id, t.category || "other"]));
+
+  const expensesByCategory: Record<string, Money> = {};
+  for (const p of postings) {
+    if (p.account !== "expense") continue;
+    // Credit purchases are booked against the payable rather than a transaction
+    const category = p.entry.transactionId ? categories.get(p.entry.transactionId) || "other" : "supplier";
+    expensesByCategory[category] = (expensesByCategory[category] || 0) + p.amount;
+  }
+  for (const [category, amount] of Object.entries(expensesByCategory)) {
+    if (amount === 0) delete expensesByCategory[category];
+  }
+
+  return {
+    income: -accountTotal(postings, "income"),
+    expenses: accountTotal(postings, "expense"),
+    expensesByCategory,
+  };
+}
+
+// Set the cash balance to a counted figure (onboarding, manual correction) against equity
+export async function setCashBalance(ownerId: string, amount: Money, description: string): Promise<Money> {
+  const { cash } = await getLedgerBalances(ownerId);
+  const delta = amount - cash;
+
+  if (delta === 0) {
+    // Nothing to book - just make sure the cache agrees
+    await db.owner.update({ where: { id: ownerId }, data: { currentCash: cash } });
+    return cash;
+  }
+
+  const entry = await postEntry(ownerId, description, [
+    { account: "cash", amount: delta },
+    { account: "equity", amount: -delta },
+  ]);
+  return entry.cash;
+}
+
+// Book what an owner already had before the ledger existed (cash, open udhaar, staff advances, supplier dues, customer credit)
+// No-op for owners that already have journal entries
+export async function postOpeningBalances(ownerId: string): Promise<boolean> {
+  const existing = await db.journalEntry.count({ where: { ownerId } });
+  if (existing > 0) return false;
+
+  const owner = await db.owner.findUnique({
+    where: { id: ownerId },
+    include: {
+      receivables: { where: { status: { in: ["pending", "partial"] } } },
+      payables: { where: { status: { in: ["pending", "partial"] } } },
+      customers: { where: { creditBalance: { gt: 0 } } },
+      staff: true,
+    },
+  });
+  if (!owner) return false;
+
+  const receivables = owner.receivables.reduce((sum, r) => sum + (r.amount - r.amountPaid), 0);
+  const payables = owner.payables.reduce((sum, p) => sum + (p.amount - p.amountPaid), 0);
+  const credit = owner.customers.reduce((sum, c) => sum + c.creditBalance, 0);
+  const advances = owner.staff.reduce((sum, s) => sum + s.advanceBalance, 0);
+  const total = owner.currentCash + receivables + advances - payables - credit;
+
+  // The cache already holds the opening cash - book it without moving the cache again
+  await db.journalEntry.create({
+    data: {
+      ownerId,
+      description: "Opening balances",
+      postings: {
+        create: [
+          { ownerId, account: "cash", amount: owner.currentCash },
+          { ownerId, account: "receivables", amount: receivables },
+          { ownerId, account: "staff_advances", amount: advances },
+          { ownerId, account: "payables", amount: -payables },
+          { ownerId, account: "customer_credit", amount: -credit },
+          { ownerId, account: "equity", amount: -total },
+        ].filter((p) => p.amount !== 0),
+      },
+    },
+  });
+
+  return true;
+}
+
+export interface ReconciliationReport {
+  ownerId: string;
+  cash: { ledger: Money; cached: Money; drift: Money };
+  receivables: { ledger: Money; open: Money; drift: Money };
+  staffAdvances: { ledger: Money; recorded: Money; drift: Money };
+  payables: { ledger: Money; open: Money; drift: Money }; // ledger shown as the amount owed
+  customerCredit: { ledger: Money; recorded: Money; drift: Money }; // ledger shown as the amount held
+  unbalancedEntries: string[];
+  hasDrift: boolean;
+}
+
+// Compare ledger-derived balances with the cached and operational figures
+export async function reconcileLedger(ownerId: string): Promise<ReconciliationReport> {
+  const [balances, owner, receivables, payables, customers, staff, entrySums] = await Promise.all([
+    getLedgerBalances(ownerId),
+    db.owner.findUniqueOrThrow({ where: { id: ownerId } }),
+    db.receivable.findMany({ where: { ownerId, status: { in: ["pending", "partial"] } } }),
+    db.payable.findMany({ where: { ownerId, status: { in: ["pending", "partial"] } } }),
+    db.customer.findMany({ where: { ownerId, creditBalance: { not: 0 } } }),
+    db.staff.findMany({ where: { ownerId } }),
+    db.posting.groupBy({ by: ["entryId"], where: { ownerId }, _sum: { amount: true } }),
+  ]);
+
+  const open = receivables.reduce((sum, r) => sum + (r.amount - r.amountPaid), 0);
+  const owed = payables.reduce((sum, p) => sum + (p.amount - p.amountPaid), 0);
+  const held = customers.reduce((sum, c) => sum + c.creditBalance, 0);
+  const advances = staff.reduce((sum, s) => sum + s.advanceBalance, 0);
+  const unbalancedEntries = entrySums
+    .filter((e) => (e._sum.amount || 0) !== 0)
+    .map((e) => e.entryId);
+
+  const cash = { ledger: balances.cash, cached: owner.currentCash, drift: owner.currentCash - balances.cash };
+  const receivablesReport = { ledger: balances.receivables, open, drift: open - balances.receivables };
+  const staffAdvances = { ledger: balances.staff_advances, recorded: advances, drift: advances - balances.staff_advances };
+  const payablesReport = { ledger: -balances.payables, open: owed, drift: owed + balances.payables };
+  const customerCredit = { ledger: -balances.customer_credit, recorded: held, drift: held + balances.customer_credit };
+
+  return {
+    ownerId,
+    cash,
+    receivables: receivablesReport,
+    staffAdvances,
+    payables: payablesReport,
+    customerCredit,
+    unbalancedEntries,
+    hasDrift:
+      cash.drift !== 0 ||
+      receivablesReport.drift !== 0 ||
+      staffAdvances.drift !== 0 ||
+      payablesReport.drift !== 0 ||
+      customerCredit.drift !== 0 ||
+      unbalancedEntries.length > 0,
+  };
+}
+
+// Reset the cached cash balance to the ledger's figure
+export async function syncCashCache(ownerId: string): Promise<Money> {
+  const { cash } = await getLedgerBalances(ownerId);
+  await db.owner.update({ where: { id: ownerId }, data: { currentCash: cash } });
+  return cash;
+}
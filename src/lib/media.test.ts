@@ -0,0 +1,100 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { downloadMedia, MediaUrlExpiredError, type MediaClient, type MediaInfo } from "./media";
+import mediaInfo from "./__fixtures__/media/media-info.json";
+
+const bill = readFileSync(join(__dirname, "__fixtures__/media/bill.png"));
+
+type Fixture = keyof typeof mediaInfo;
+
+// Serves media-info.json lookups and fixed bytes; the first `expired` downloads fail like stale Graph URLs
+function fakeClient(bytes: Buffer, options: { expired?: number } = {}) {
+  let expired = options.expired || 0;
+  const calls = { lookups: 0, downloads: 0 };
+
+  const client: MediaClient = {
+    async getMediaInfo(mediaId): Promise<MediaInfo> {
+      calls.lookups++;
+      const entry = Object.values(mediaInfo).find((m) => m.id === mediaId);
+      if (!entry) throw new Error(`Media lookup failed (404): unknown id ${mediaId}`);
+      return { url: entry.url, mimeType: entry.mime_type, fileSize: entry.file_size };
+    },
+    async download() {
+      calls.downloads++;
+      if (expired > 0) {
+        expired--;
+        throw new MediaUrlExpiredError(404);
+      }
+      return bytes;
+    },
+  };
+  return { client, calls };
+}
+
+const id = (fixture: Fixture) => mediaInfo[fixture].id;
+
+test("downloads an allowed image", async () => {
+  const { client } = fakeClient(bill);
+  const result = await downloadMedia(id("image"), "image", client);
+  assert.ok(result.success);
+  assert.equal(result.mimeType, "image/png");
+  assert.deepEqual(result.data, bill);
+});
+
+test("strips codec parameters from audio MIME types", async () => {
+  const { client } = fakeClient(Buffer.alloc(8192));
+  const result = await downloadMedia(id("voice"), "audio", client);
+  assert.ok(result.success);
+  assert.equal(result.mimeType, "audio/ogg");
+});
+
+test("rejects MIME types outside the allow-list without downloading", async () => {
+  const { client, calls } = fakeClient(Buffer.alloc(20480));
+  const result = await downloadMedia(id("pdf"), "image", client);
+  assert.equal(result.success, false);
+  assert.match(!result.success ? result.error : "", /Unsupported image type: application\/pdf/);
+  assert.equal(calls.downloads, 0);
+});
+
+test("rejects an image as audio and audio as an image", async () => {
+  assert.equal((await downloadMedia(id("image"), "audio", fakeClient(bill).client)).success, false);
+  assert.equal((await downloadMedia(id("voice"), "image", fakeClient(bill).client)).success, false);
+});
+
+test("rejects media advertised over the size limit without downloading", async () => {
+  const { client, calls } = fakeClient(Buffer.alloc(10));
+  const result = await downloadMedia(id("huge-image"), "image", client);
+  assert.equal(result.success, false);
+  assert.match(!result.success ? result.error : "", /too large: 7340032 bytes/);
+  assert.equal(calls.downloads, 0);
+});
+
+test("rejects downloads larger than the limit even when the lookup understated them", async () => {
+  const { client } = fakeClient(Buffer.alloc(5 * 1024 * 1024 + 1));
+  const result = await downloadMedia(id("image"), "image", client);
+  assert.equal(result.success, false);
+  assert.match(!result.success ? result.error : "", /too large/);
+});
+
+test("looks the media up again when its URL has expired", async () => {
+  const { client, calls } = fakeClient(bill, { expired: 1 });
+  const result = await downloadMedia(id("image"), "image", client);
+  assert.ok(result.success);
+  assert.equal(calls.lookups, 2);
+  assert.equal(calls.downloads, 2);
+});
+
+test("gives up when the fresh URL has expired too", async () => {
+  const { client, calls } = fakeClient(bill, { expired: 2 });
+  const result = await downloadMedia(id("image"), "image", client);
+  assert.equal(result.success, false);
+  assert.match(!result.success ? result.error : "", /expired/);
+  assert.equal(calls.downloads, 2);
+});
+
+test("fails cleanly for an unknown media id", async () => {
+  const result = await downloadMedia("000000000000000", "image", fakeClient(bill).client);
+  assert.equal(result.success, false);
+});
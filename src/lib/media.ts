@@ -0,0 +1,120 @@
+// WhatsApp media download pipeline
+// Resolves a Graph media id to bytes, with MIME type and size checks
+
+import { graphApiUrl } from "./whatsapp";
+
+export type MediaKind = "image" | "audio";
+
+export interface MediaInfo {
+  url: string;
+  mimeType: string;
+  fileSize?: number;
+}
+
+// Graph media endpoints - swap in a fake implementation to serve local fixtures
+export interface MediaClient {
+  getMediaInfo(mediaId: string): Promise<MediaInfo>;
+  download(url: string): Promise<Buffer>;
+}
+
+// Media URLs expire a few minutes after lookup - a fresh lookup gives a new one
+export class MediaUrlExpiredError extends Error {
+  constructor(status: number) {
+    super(`Media URL expired (${status})`);
+    this.name = "MediaUrlExpiredError";
+  }
+}
+
+export type MediaResult =
+  | { success: true; data: Buffer; mimeType: string }
+  | { success: false; error: string };
+
+// Accepted MIME types and size limits per media kind (WhatsApp's own caps)
+const MEDIA_LIMITS: Record<MediaKind, { mimeTypes: string[]; maxBytes: number }> = {
+  image: {
+    mimeTypes: ["image/jpeg", "image/png", "image/webp"],
+    maxBytes: 5 * 1024 * 1024,
+  },
+  audio: {
+    mimeTypes: ["audio/ogg", "audio/mpeg", "audio/mp4", "audio/aac", "audio/amr"],
+    maxBytes: 16 * 1024 * 1024,
+  },
+};
+
+// Real WhatsApp Cloud API media client
+export const graphMediaClient: MediaClient = {
+  async getMediaInfo(mediaId) {
+    const response = await fetch(`${graphApiUrl()}/${mediaId}`, {
+      headers: { Authorization: `Bearer ${process.env.WHATSAPP_TOKEN}` },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Media lookup failed (${response.status}): ${await response.text()}`);
+    }
+
+    const data = (await response.json()) as { url: string; mime_type: string; file_size?: number };
+    return { url: data.url, mimeType: data.mime_type, fileSize: data.file_size };
+  },
+
+  async download(url) {
+    // Media URLs also require the access token
+    const response = await fetch(url, {
+      headers: { Authorization: `Bearer ${process.env.WHATSAPP_TOKEN}` },
+    });
+
+    if (response.status === 401 || response.status === 403 || response.status === 404) {
+      throw new MediaUrlExpiredError(response.status);
+    }
+    if (!response.ok) {
+      throw new Error(`Media download failed (${response.status})`);
+    }
+
+    return Buffer.from(await response.arrayBuffer());
+  },
+};
+
+// Strip codec parameters, e.g. "audio/ogg; codecs=opus" -> "audio/ogg"
+function baseMimeType(mimeType: string): string {
+  return mimeType.split(";")[0].trim().toLowerCase();
+}
+
+// Download a media item by id and validate it against the limits for its kind
+export async function downloadMedia(
+  mediaId: string,
+  kind: MediaKind,
+  client: MediaClient = graphMediaClient
+): Promise<MediaResult> {
+  const limits = MEDIA_LIMITS[kind];
+
+  try {
+    const info = await client.getMediaInfo(mediaId);
+    const mimeType = baseMimeType(info.mimeType);
+
+    if (!limits.mimeTypes.includes(mimeType)) {
+      return { success: false, error: `Unsupported ${kind} type: ${info.mimeType}` };
+    }
+
+    // Check the advertised size before downloading anything
+    if (info.fileSize && info.fileSize > limits.maxBytes) {
+      return { success: false, error: `${kind} too large: ${info.fileSize} bytes` };
+    }
+
+    let data: Buffer;
+    try {
+      data = await client.download(info.url);
+    } catch (error) {
+      if (!(error instanceof MediaUrlExpiredError)) throw error;
+      // Retry once with a freshly looked-up URL
+      data = await client.download((await client.getMediaInfo(mediaId)).url);
+    }
+
+    if (data.length > limits.maxBytes) {
+      return { success: false, error: `${kind} too large: ${data.length} bytes` };
+    }
+
+    return { success: true, data, mimeType };
+  } catch (error) {
+    console.error(`Media download error for ${mediaId}:`, error);
+    return { success: false, error: String(error) };
+  }
+}
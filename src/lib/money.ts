@@ -0,0 +1,36 @@
+// Money as integer paise
+// Every stored amount is whole paise, so adding and subtracting balances is exact.
+// Rupees only exist at the edges: what owners type, what the AI tools take and
+// return, and what the REST API speaks. Convert there and nowhere else.
+
+export type Money = number; // integer paise
+
+const PAISE_PER_RUPEE = 100;
+
+// Rupees (possibly fractional, e.g. "1,234.50" parsed from an SMS) to paise
+export function toPaise(rupees: number): Money {
+  return Math.round(rupees * PAISE_PER_RUPEE);
+}
+
+export function toRupees(amount: Money): number {
+  return amount / PAISE_PER_RUPEE;
+}
+
+// Whole rupees, for headline figures and projections
+export function roundToRupee(amount: Money): Money {
+  return Math.round(amount / PAISE_PER_RUPEE) * PAISE_PER_RUPEE;
+}
+
+// Scale an amount (daily averages, weekend multipliers) and land back on whole paise
+export function scaleMoney(amount: Money, factor: number): Money {
+  return Math.round(amount * factor);
+}
+
+export function sumMoney(amounts: Money[]): Money {
+  return amounts.reduce((sum, amount) => sum + amount, 0);
+}
+
+// A row with its amount in rupees, for JSON responses
+export function withRupeeAmount<T extends { amount: Money }>(row: T): T {
+  return { ...row, amount: toRupees(row.amount) };
+}
@@ -0,0 +1,238 @@
+// Persistent outbound message queue
+// Every send is stored first, attempted right away, and retried with backoff on failure
+
+import { db } from "./db";
+import { defaultChannel, getTransport, resolveChannel, type Channel } from "./transports";
+import {
+  formatInteractiveText,
+  type ListMessage,
+  type ReplyButton,
+  type SendMessageOptions,
+  type StatusUpdate,
+  type TemplatePayload,
+} from "./whatsapp";
+
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 60 * 1000; // 1 min, 2 min, 4 min, 8 min
+const HELD_MESSAGE_TTL_MS = 24 * 60 * 60 * 1000; // held briefs older than a day are stale
+const SENDING_TIMEOUT_MS = 10 * 60 * 1000; // a claimed row still sending after this was left by a crashed run
+
+// Status progression - webhooks can arrive out of order, never move backwards
+const STATUS_RANK: Record<string, number> = {
+  queued: 0,
+  sent: 1,
+  delivered: 2,
+  read: 3,
+};
+
+type OutboundMessage = NonNullable<Awaited<ReturnType<typeof db.outboundMessage.findUnique>>>;
+
+// Stored shape of the interactive column
+interface StoredInteractive {
+  buttons?: ReplyButton[];
+  list?: ListMessage;
+}
+
+// Rebuild send options from a persisted row
+function toSendOptions(message: OutboundMessage): SendMessageOptions {
+  const interactive = (message.interactive || {}) as StoredInteractive;
+  return {
+    to: message.to,
+    text: message.text,
+    buttons: interactive.buttons,
+    list: interactive.list,
+    template: (message.template as TemplatePayload | null) || undefined,
+  };
+}
+
+// Persist a message row in the given initial status
+async function createOutboundMessage(
+  options: SendMessageOptions,
+  channel: Channel,
+  status: string,
+  quietHours = false
+): Promise<OutboundMessage> {
+  const interactive: StoredInteractive | undefined =
+    options.buttons || options.list ? { buttons: options.buttons, list: options.list } : undefined;
+
+  return db.outboundMessage.create({
+    data: {
+      channel,
+      to: options.to,
+      text: options.text,
+      interactive: interactive as object | undefined,
+      template: options.template as object | undefined,
+      status,
+      quietHours,
+    },
+  });
+}
+
+// Queue a message and try to deliver it immediately on the given channel
+// Returns true if it went out now; false means it's queued for retry (or failed permanently)
+// quietHours marks a message whose retries must not go out during quiet hours (see processOutboundQueue)
+export async function sendMessage(
+  options: SendMessageOptions,
+  channel: Channel = defaultChannel(),
+  { quietHours = false }: { quietHours?: boolean } = {}
+): Promise<boolean> {
+  const message = await createOutboundMessage(options, channel, "queued", quietHours);
+  const result = await attemptDelivery(message);
+  return result.status === "sent";
+}
+
+// Store a WhatsApp message until the recipient's session window opens (see releaseHeldMessages)
+export async function holdMessage(options: SendMessageOptions): Promise<void> {
+  await createOutboundMessage(options, "whatsapp", "held");
+}
+
+// Send everything held for a phone, oldest first; stale held messages expire instead
+export async function releaseHeldMessages(phone: string): Promise<number> {
+  const cutoff = new Date(Date.now() - HELD_MESSAGE_TTL_MS);
+
+  await db.outboundMessage.updateMany({
+    where: { to: phone, status: "held", createdAt: { lt: cutoff } },
+    data: { status: "failed", lastError: "Expired while waiting for session window" },
+  });
+
+  const held = await db.outboundMessage.findMany({
+    where: { to: phone, status: "held" },
+    orderBy: { createdAt: "asc" },
+  });
+
+  // Two inbound messages close together both see the same held rows - only the one that
+  // flips a row from held to sending delivers it
+  let released = 0;
+  for (const message of held) {
+    const claimed = await db.outboundMessage.updateMany({
+      where: { id: message.id, status: "held" },
+      data: { status: "sending" },
+    });
+    if (claimed.count !== 1) continue;
+
+    await attemptDelivery(message);
+    released++;
+  }
+
+  return released;
+}
+
+// Make one delivery attempt and record the outcome
+async function attemptDelivery(message: OutboundMessage): Promise<OutboundMessage> {
+  const attempts = message.attempts + 1;
+  const transport = getTransport(resolveChannel(message.channel));
+  const result = await transport.deliver(toSendOptions(message));
+
+  if (result.success) {
+    return db.outboundMessage.update({
+      where: { id: message.id },
+      data: {
+        status: "sent",
+        attempts,
+        providerMessageId: result.providerMessageId,
+        sentAt: new Date(),
+        lastError: null,
+      },
+    });
+  }
+
+  const giveUp = result.retryable === false || attempts >= MAX_ATTEMPTS;
+  if (giveUp) {
+    console.error(`Outbound message ${message.id} to ${message.to} failed after ${attempts} attempts: ${result.error}`);
+  }
+
+  return db.outboundMessage.update({
+    where: { id: message.id },
+    data: {
+      status: giveUp ? "failed" : "queued",
+      attempts,
+      lastError: result.error,
+      nextAttemptAt: new Date(Date.now() + BASE_RETRY_DELAY_MS * 2 ** (attempts - 1)),
+    },
+  });
+}
+
+// Retry queued messages whose backoff has elapsed (run from a scheduled job)
+// During quiet hours, messages sent with quietHours stay queued until they end
+export async function processOutboundQueue(
+  { limit = 50, quietHours = false }: { limit?: number; quietHours?: boolean } = {}
+): Promise<{ attempted: number; sent: number; failed: number }> {
+  // A run that died mid-send left its claimed rows in sending - put them back in the queue
+  await db.outboundMessage.updateMany({
+    where: { status: "sending", updatedAt: { lt: new Date(Date.now() - SENDING_TIMEOUT_MS) } },
+    data: { status: "queued" },
+  });
+
+  const due = await db.outboundMessage.findMany({
+    where: { status: "queued", nextAttemptAt: { lte: new Date() }, ...(quietHours ? { quietHours: false } : {}) },
+    orderBy: { nextAttemptAt: "asc" },
+    take: limit,
+  });
+
+  let attempted = 0;
+  let sent = 0;
+  let failed = 0;
+
+  // Overlapping runs see the same queued rows - only the one that flips a row to sending delivers it
+  for (const message of due) {
+    const claimed = await db.outboundMessage.updateMany({
+      where: { id: message.id, status: "queued" },
+      data: { status: "sending" },
+    });
+    if (claimed.count !== 1) continue;
+
+    attempted++;
+    const updated = await attemptDelivery(message);
+    if (updated.status === "sent") sent++;
+    if (updated.status === "failed") failed++;
+  }
+
+  return { attempted, sent, failed };
+}
+
+// Apply a delivery status webhook to the matching outbound message
+export async function applyStatusUpdate(update: StatusUpdate): Promise<void> {
+  const message = await db.outboundMessage.findUnique({
+    where: { providerMessageId: update.providerMessageId },
+  });
+
+  if (!message) return;
+
+  if (update.status === "failed") {
+    await db.outboundMessage.update({
+      where: { id: message.id },
+      data: { status: "failed", lastError: update.error || "Delivery failed" },
+    });
+    return;
+  }
+
+  const newRank = STATUS_RANK[update.status];
+  const currentRank = STATUS_RANK[message.status] ?? -1;
+  if (newRank === undefined || newRank <= currentRank) return;
+
+  await db.outboundMessage.update({
+    where: { id: message.id },
+    data: {
+      status: update.status,
+      ...(update.status === "delivered" ? { deliveredAt: update.timestamp } : {}),
+      ...(update.status === "read" ? { readAt: update.timestamp } : {}),
+    },
+  });
+}
+
+// Get undelivered simulator messages (fetching them counts as delivery)
+export async function getSimulatorResponses(phone: string): Promise<string[]> {
+  const messages = await db.outboundMessage.findMany({
+    where: { channel: "simulator", to: phone, status: "sent" },
+    orderBy: { createdAt: "asc" },
+  });
+
+  if (messages.length > 0) {
+    await db.outboundMessage.updateMany({
+      where: { id: { in: messages.map((m) => m.id) } },
+      data: { status: "delivered", deliveredAt: new Date() },
+    });
+  }
+
+  return messages.map((m) => formatInteractiveText(toSendOptions(m)));
+}
@@ -0,0 +1,201 @@
+// Supplier payables: stock bought on credit ("Gupta traders se 20000 ka maal udhaar, 15 din mein dena")
+// The mirror image of receivables. Each open payable is an outflow on its due date in
+// projections, and payments are applied oldest first, so a supplier can be paid in parts.
+
+import { db, inTransaction, type DbClient, type Payable, type Supplier } from "./db";
+import type { Money } from "./money";
+
+export type OpenPayable = Payable & { supplier: Supplier };
+
+// A payable's fields before a payment touched it, for undo and corrections
+export interface PayableState {
+  id: string;
+  amountPaid: Money;
+  status: string;
+  paidAt: string | null;
+  applied?: Money; // what the payment added - older log entries only kept the fields
+}
+
+export interface PayableSettlement {
+  settled: Money; // how much of the payment went against open payables
+  previous: PayableState[];
+}
+
+// Suppliers a name could mean: the one called exactly that, otherwise every one whose name contains it
+// "Ram" mustn't quietly settle Ramesh Traders' bills - more than one match means asking the owner
+export async function findSuppliers(ownerId: string, name: string): Promise<Supplier[]> {
+  const exact = await db.supplier.findFirst({
+    where: { ownerId, name: { equals: name.trim(), mode: "insensitive" } },
+  });
+  if (exact) return [exact];
+  return db.supplier.findMany({
+    where: { ownerId, name: { contains: name.trim(), mode: "insensitive" } },
+    orderBy: { name: "asc" },
+  });
+}
+
+export async function createSupplier(ownerId: string, name: string): Promise<Supplier> {
+  return db.supplier.create({ data: { ownerId, name: name.trim() } });
+}
+
+// Lock a supplier's open payables for the rest of the transaction, oldest first
+// Two payments to the same supplier then settle one after another instead of both
+// reading the same balance
+async function lockOpenPayables(tx: DbClient, ownerId: string, supplierId: string): Promise<void> {
+  await tx.$queryRaw`
+    SELECT id FROM "Payable"
+    WHERE "ownerId" = ${ownerId} AND "supplierId" = ${supplierId} AND status IN ('pending', 'partial')
+    ORDER BY "createdAt"
+    FOR UPDATE
+  `;
+}
+
+// Open payables, soonest due first - undated ones last
+export async function getOpenPayables(ownerId: string): Promise<OpenPayable[]> {
+  return db.payable.findMany({
+    where: { ownerId, status: { in: ["pending", "partial"] } },
+    include: { supplier: true },
+    orderBy: [{ dueDate: { sort: "asc", nulls: "last" } }, { createdAt: "asc" }],
+  });
+}
+
+export function payableBalance(payable: Pick<Payable, "amount" | "amountPaid">): Money {
+  return payable.amount - payable.amountPaid;
+}
+
+// Day a payable is planned for: its due date, or today once it's overdue
+// Payables without an agreed date aren't scheduled
+export function payableDueDay(payable: Pick<Payable, "dueDate">, today: Date = new Date()): Date | null {
+  if (!payable.dueDate) return null;
+  const startOfToday = new Date(today);
+  startOfToday.setHours(0, 0, 0, 0);
+  const due = new Date(payable.dueDate);
+  due.setHours(0, 0, 0, 0);
+  return due < startOfToday ? startOfToday : due;
+}
+
+export function isPayableDueOn(payable: Pick<Payable, "dueDate">, date: Date, today: Date = new Date()): boolean {
+  const day = payableDueDay(payable, today);
+  return !!day && day.toDateString() === date.toDateString();
+}
+
+// What has to go to suppliers on or before a day, overdue included
+export function payablesDueBy(payables: Array<Pick<Payable, "amount" | "amountPaid" | "dueDate">>, date: Date): Money {
+  const endOfDay = new Date(date);
+  endOfDay.setHours(23, 59, 59, 999);
+  return payables
+    .filter((p) => p.dueDate && p.dueDate <= endOfDay)
+    .reduce((sum, p) => sum + payableBalance(p), 0);
+}
+
+// Apply a payment to a supplier's open payables, oldest first
+export async function settlePayables(
+  ownerId: string,
+  supplierId: string,
+  amount: Money,
+  paidAt: Date = new Date(),
+  tx?: DbClient
+): Promise<PayableSettlement> {
+  return inTransaction(tx, async (client) => {
+    await lockOpenPayables(client, ownerId, supplierId);
+    const payables = await client.payable.findMany({
+      where: { ownerId, supplierId, status: { in: ["pending", "partial"] } },
+      orderBy: { createdAt: "asc" },
+    });
+
+    let remaining = amount;
+    const previous: PayableState[] = [];
+
+    for (const payable of payables) {
+      if (remaining <= 0) break;
+
+      const taken = Math.min(remaining, payableBalance(payable));
+      const amountPaid = payable.amountPaid + taken;
+      const fullyPaid = amountPaid >= payable.amount;
+      remaining -= taken;
+
+      previous.push({
+        id: payable.id,
+        amountPaid: payable.amountPaid,
+        status: payable.status,
+        paidAt: payable.paidAt?.toISOString() ?? null,
+        applied: taken,
+      });
+      await client.payable.update({
+        where: { id: payable.id },
+        data: { amountPaid, status: fullyPaid ? "paid" : "partial", paidAt: fullyPaid ? paidAt : null },
+      });
+    }
+
+    return { settled: amount - remaining, previous };
+  });
+}
+
+// Take a payment back off the payables it paid
+// Only what the payment added comes off, so payments made since stay applied
+export async function restorePayables(previous: PayableState[], tx?: DbClient): Promise<void> {
+  await inTransaction(tx, async (client) => {
+    for (const state of previous) {
+      if (state.applied === undefined) {
+        await client.payable.updateMany({
+          where: { id: state.id },
+          data: {
+            amountPaid: state.amountPaid,
+            status: state.status,
+            paidAt: state.paidAt ? new Date(state.paidAt) : null,
+          },
+        });
+        continue;
+      }
+
+      await client.payable.updateMany({ where: { id: state.id }, data: { amountPaid: { decrement: state.applied } } });
+      const payable = await client.payable.findUnique({ where: { id: state.id } });
+      if (!payable) continue;
+      const fullyPaid = payable.amountPaid >= payable.amount;
+      await client.payable.update({
+        where: { id: state.id },
+        data: {
+          status: fullyPaid ? "paid" : payable.amountPaid > 0 ? "partial" : "pending",
+          paidAt: fullyPaid ? payable.paidAt : null,
+        },
+      });
+    }
+  });
+}
+
+// Take back a payment applied by settlePayables (transaction edited or deleted)
+// The payment's logged allocations say which payables it paid; payments logged without
+// them are unwound newest payable first, the reverse of the order they're applied in
+export async function reversePayablePayment(
+  ownerId: string,
+  supplierId: string,
+  amount: Money,
+  allocations?: PayableState[],
+  tx?: DbClient
+): Promise<void> {
+  await inTransaction(tx, async (client) => {
+    if (allocations) {
+      await restorePayables(allocations, client);
+      return;
+    }
+
+    const payables = await client.payable.findMany({
+      where: { ownerId, supplierId, amountPaid: { gt: 0 } },
+      orderBy: { createdAt: "desc" },
+    });
+
+    let remaining = amount;
+    for (const payable of payables) {
+      if (remaining <= 0) break;
+
+      const taken = Math.min(remaining, payable.amountPaid);
+      const amountPaid = payable.amountPaid - taken;
+      remaining -= taken;
+
+      await client.payable.update({
+        where: { id: payable.id },
+        data: { amountPaid, status: amountPaid > 0 ? "partial" : "pending", paidAt: null },
+      });
+    }
+  });
+}
@@ -0,0 +1,230 @@
+// Customer payments against udhaar
+// One payment can clear several receivables - the ones the owner names first, then oldest
+// first - and whatever is left once a customer's udhaar is cleared is kept as their credit,
+// used up by their next credit sale. Chat, the agent, bank SMS and the transactions API
+// all apply payments through here.
+
+import { inTransaction, type Customer, type DbClient, type Receivable } from "./db";
+import { formatCurrency, formatDate } from "./whatsapp";
+import type { Money } from "./money";
+
+// A receivable's fields before a payment touched it, for undo and corrections
+export interface ReceivableState {
+  id: string;
+  amountPaid: Money;
+  status: string;
+  paidAt: string | null;
+  applied?: Money; // what the payment added - older log entries only kept the fields
+}
+
+export interface PaymentAllocation {
+  receivableId: string;
+  applied: Money;
+  remaining: Money; // still owed on that receivable
+  createdAt: Date;
+  notes: string | null;
+}
+
+export interface PaymentApplication {
+  settled: Money; // went against receivables
+  credited: Money; // kept as customer credit
+  allocations: PaymentAllocation[];
+  previous: ReceivableState[];
+  previousCredit: Money; // customer's credit balance before the payment
+}
+
+export interface PaymentOptions {
+  paidAt?: Date;
+  receivableIds?: string[]; // receivables the owner said this pays, applied before the rest
+  advance?: boolean; // paid ahead of any udhaar - keep it all as credit
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function receivableStatus(receivable: Pick<Receivable, "amount">, amountPaid: Money): string {
+  return amountPaid >= receivable.amount ? "paid" : amountPaid > 0 ? "partial" : "pending";
+}
+
+// Lock a customer's row for the rest of the transaction and read it fresh
+// Payments, credit sales and corrections for the same customer then run one after another,
+// so two of them can't both spend the same credit or settle the same udhaar
+export async function lockCustomer(tx: DbClient, customerId: string): Promise<Customer> {
+  return tx.customer.update({ where: { id: customerId }, data: { creditBalance: { increment: 0 } } });
+}
+
+// Apply a customer's payment across their open receivables
+// The surplus becomes credit when the payment cleared udhaar or was an advance;
+// otherwise it's an ordinary sale and stays income
+export async function applyCustomerPayment(
+  ownerId: string,
+  customerId: string,
+  amount: Money,
+  options: PaymentOptions = {},
+  tx?: DbClient
+): Promise<PaymentApplication> {
+  const paidAt = options.paidAt ?? new Date();
+  const chosen = options.receivableIds || [];
+
+  return inTransaction(tx, async (client) => {
+    const customer = await lockCustomer(client, customerId);
+    const open = await client.receivable.findMany({
+      where: { ownerId, customerId, status: { in: ["pending", "partial"] } },
+      orderBy: { createdAt: "asc" },
+    });
+    const ordered = [
+      ...chosen.map((id) => open.find((r) => r.id === id)).filter((r): r is Receivable => !!r),
+      ...open.filter((r) => !chosen.includes(r.id)),
+    ];
+
+    let remaining = options.advance ? 0 : amount;
+    const allocations: PaymentAllocation[] = [];
+    const previous: ReceivableState[] = [];
+
+    for (const receivable of ordered) {
+      if (remaining <= 0) break;
+
+      const applied = Math.min(remaining, receivable.amount - receivable.amountPaid);
+      const amountPaid = receivable.amountPaid + applied;
+      remaining -= applied;
+
+      previous.push({
+        id: receivable.id,
+        amountPaid: receivable.amountPaid,
+        status: receivable.status,
+        paidAt: receivable.paidAt?.toISOString() ?? null,
+        applied,
+      });
+      await client.receivable.update({
+        where: { id: receivable.id },
+        data: {
+          amountPaid,
+          status: receivableStatus(receivable, amountPaid),
+          paidAt: amountPaid >= receivable.amount ? paidAt : null,
+        },
+      });
+      allocations.push({
+        receivableId: receivable.id,
+        applied,
+        remaining: receivable.amount - amountPaid,
+        createdAt: receivable.createdAt,
+        notes: receivable.notes,
+      });
+    }
+
+    const settled = allocations.reduce((sum, a) => sum + a.applied, 0);
+    const surplus = amount - settled;
+    const credited = options.advance || allocations.length > 0 ? surplus : 0;
+
+    const data: { creditBalance?: { increment: Money }; avgDaysToPay?: number; reliabilityScore?: number } = {};
+    if (credited > 0) data.creditBalance = { increment: credited };
+
+    // How long the oldest udhaar this payment touched was outstanding
+    if (allocations.length > 0) {
+      const daysToPay = Math.floor((paidAt.getTime() - allocations[0].createdAt.getTime()) / DAY_MS);
+      data.avgDaysToPay = daysToPay;
+      data.reliabilityScore = daysToPay <= 7 ? 80 : daysToPay <= 14 ? 60 : 40;
+    }
+    if (Object.keys(data).length > 0) {
+      await client.customer.update({ where: { id: customerId }, data });
+    }
+
+    return { settled, credited, allocations, previous, previousCredit: customer.creditBalance };
+  });
+}
+
+// Undo snapshot for a payment: the receivables it touched, and the credit balance if it kept some
+export function paymentState(application: PaymentApplication): { receivables: ReceivableState[]; creditBalance?: Money } {
+  return {
+    receivables: application.previous,
+    creditBalance: application.credited > 0 ? application.previousCredit : undefined,
+  };
+}
+
+// Take a payment back off the receivables it paid
+// Only what the payment added comes off, so payments made since stay applied
+export async function restoreReceivables(previous: ReceivableState[], tx?: DbClient): Promise<void> {
+  await inTransaction(tx, async (client) => {
+    for (const state of previous) {
+      if (state.applied === undefined) {
+        await client.receivable.updateMany({
+          where: { id: state.id },
+          data: {
+            amountPaid: state.amountPaid,
+            status: state.status,
+            paidAt: state.paidAt ? new Date(state.paidAt) : null,
+          },
+        });
+        continue;
+      }
+
+      await client.receivable.updateMany({ where: { id: state.id }, data: { amountPaid: { decrement: state.applied } } });
+      const receivable = await client.receivable.findUnique({ where: { id: state.id } });
+      if (!receivable) continue;
+      const fullyPaid = receivable.amountPaid >= receivable.amount;
+      await client.receivable.update({
+        where: { id: state.id },
+        data: { status: receivableStatus(receivable, receivable.amountPaid), paidAt: fullyPaid ? receivable.paidAt : null },
+      });
+    }
+  });
+}
+
+// Take back a payment applied by applyCustomerPayment (transaction edited or deleted)
+// The payment's logged allocations say which receivables it paid; payments logged without
+// them are unwound newest receivable first, the reverse of the order they're applied in
+export async function reverseReceivablePayment(
+  ownerId: string,
+  customerId: string,
+  settled: Money,
+  credited: Money = 0,
+  allocations?: ReceivableState[],
+  tx?: DbClient
+): Promise<void> {
+  await inTransaction(tx, async (client) => {
+    await lockCustomer(client, customerId);
+
+    if (allocations) {
+      await restoreReceivables(allocations, client);
+      if (credited > 0) {
+        await client.customer.update({ where: { id: customerId }, data: { creditBalance: { decrement: credited } } });
+      }
+      return;
+    }
+
+    const receivables = await client.receivable.findMany({
+      where: { ownerId, customerId, amountPaid: { gt: 0 } },
+      orderBy: { createdAt: "desc" },
+    });
+
+    let remaining = settled;
+    for (const receivable of receivables) {
+      if (remaining <= 0) break;
+
+      const taken = Math.min(remaining, receivable.amountPaid);
+      const amountPaid = receivable.amountPaid - taken;
+      remaining -= taken;
+
+      await client.receivable.update({
+        where: { id: receivable.id },
+        data: { amountPaid, status: amountPaid > 0 ? "partial" : "pending", paidAt: null },
+      });
+    }
+
+    if (credited > 0) {
+      await client.customer.update({ where: { id: customerId }, data: { creditBalance: { decrement: credited } } });
+    }
+  });
+}
+
+// "• ₹3,000 → 12 Oct ka udhaar (clear)", "• ₹500 credit mein rakha"
+export function formatPaymentBreakdown(application: PaymentApplication): string[] {
+  const lines = application.allocations.map((a) => {
+    const label = a.notes ? `${a.notes} (${formatDate(a.createdAt)})` : `${formatDate(a.createdAt)} ka udhaar`;
+    const status = a.remaining > 0 ? `${formatCurrency(a.remaining)} baaki` : "clear";
+    return `• ${formatCurrency(a.applied)} → ${label} - ${status}`;
+  });
+  if (application.credited > 0) {
+    lines.push(`• ${formatCurrency(application.credited)} credit mein rakha (agli udhaar mein katega)`);
+  }
+  return lines;
+}
@@ -0,0 +1,153 @@
+// Recurring expenses: rent, loan EMIs, subscriptions
+// Fixed outflows owners forget until the day they're due. Each schedule shows up as a
+// commitment in projections and the morning brief, and on its due date is either logged
+// automatically or offered to the owner for one-tap confirmation.
+
+import { db, isUniqueViolation, type RecurringExpense, type Transaction } from "./db";
+import { bookAction } from "./actions";
+import { expenseEntry, withAccount } from "./ledger";
+import type { Money } from "./money";
+
+export const RECURRING_FREQUENCIES = ["monthly", "weekly"] as const;
+export type RecurringFrequency = (typeof RECURRING_FREQUENCIES)[number];
+
+export const RECURRING_CATEGORIES = ["rent", "emi", "subscription", "utilities", "other"] as const;
+
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// An expense logged by hand within this many days before the due date, or this many after it, counts as paid
+const PAID_EARLY_DAYS = 3;
+const PAID_LATE_DAYS = 3;
+
+type Schedule = Pick<RecurringExpense, "frequency" | "dueDay">;
+
+export function isRecurringFrequency(value: unknown): value is RecurringFrequency {
+  return typeof value === "string" && (RECURRING_FREQUENCIES as readonly string[]).includes(value);
+}
+
+// Monthly days past the month's end (rent on the 31st) fall on its last day
+export function isDueOn(schedule: Schedule, date: Date): boolean {
+  if (schedule.frequency === "weekly") return date.getDay() === schedule.dueDay;
+
+  const lastDay = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+  return date.getDate() === Math.min(schedule.dueDay, lastDay);
+}
+
+// Next due date on or after a day (midnight)
+export function nextDueDate(schedule: Schedule, from: Date = new Date()): Date {
+  const date = new Date(from);
+  date.setHours(0, 0, 0, 0);
+  while (!isDueOn(schedule, date)) date.setDate(date.getDate() + 1);
+  return date;
+}
+
+// Most recent due date on or before a day (midnight) - what a late "Paid" tap refers to
+export function lastDueDate(schedule: Schedule, until: Date = new Date()): Date {
+  const date = new Date(until);
+  date.setHours(0, 0, 0, 0);
+  while (!isDueOn(schedule, date)) date.setDate(date.getDate() - 1);
+  return date;
+}
+
+// "har mahine 5 tareekh", "har Monday"
+export function describeSchedule(schedule: Schedule): string {
+  return schedule.frequency === "weekly"
+    ? `har ${WEEKDAY_NAMES[schedule.dueDay]}`
+    : `har mahine ${schedule.dueDay} tareekh`;
+}
+
+export async function getRecurringExpenses(ownerId: string): Promise<RecurringExpense[]> {
+  return db.recurringExpense.findMany({ where: { ownerId, isActive: true }, orderBy: { dueDay: "asc" } });
+}
+
+// Find an active schedule by a name the owner used ("kiraya", "EMI")
+export async function findRecurringExpense(ownerId: string, name: string): Promise<RecurringExpense | null> {
+  return db.recurringExpense.findFirst({
+    where: {
+      ownerId,
+      isActive: true,
+      OR: [
+        { name: { contains: name, mode: "insensitive" } },
+        { category: { equals: name, mode: "insensitive" } },
+      ],
+    },
+  });
+}
+
+// Reference that makes each due date loggable once
+function dueReference(expense: RecurringExpense, dueDate: Date): string {
+  const day = `${dueDate.getFullYear()}-${String(dueDate.getMonth() + 1).padStart(2, "0")}-${String(dueDate.getDate()).padStart(2, "0")}`;
+  return `recurring:${expense.id}:${day}`;
+}
+
+// The transaction that paid a due date: logged from the schedule, or by hand for the same amount around it
+// The window is bounded on both sides so next month's payment doesn't count for this one
+export async function findDuePayment(expense: RecurringExpense, dueDate: Date): Promise<Transaction | null> {
+  const logged = await db.transaction.findFirst({
+    where: { ownerId: expense.ownerId, reference: dueReference(expense, dueDate) },
+  });
+  if (logged) return logged;
+
+  const windowStart = new Date(dueDate);
+  windowStart.setDate(windowStart.getDate() - PAID_EARLY_DAYS);
+  windowStart.setHours(0, 0, 0, 0);
+  const windowEnd = new Date(dueDate);
+  windowEnd.setDate(windowEnd.getDate() + PAID_LATE_DAYS);
+  windowEnd.setHours(23, 59, 59, 999);
+  return db.transaction.findFirst({
+    where: {
+      ownerId: expense.ownerId,
+      type: "expense",
+      amount: expense.amount,
+      occurredAt: { gte: windowStart, lte: windowEnd },
+    },
+  });
+}
+
+// Log a due date's payment as an expense through the ledger; already-logged dates return the existing one
+export async function logRecurringExpense(
+  expense: RecurringExpense,
+  dueDate: Date
+): Promise<{ transaction: Transaction; cash: Money | null; alreadyLogged: boolean }> {
+  const reference = dueReference(expense, dueDate);
+  const existing = await db.transaction.findFirst({ where: { ownerId: expense.ownerId, reference } });
+  if (existing) return { transaction: existing, cash: null, alreadyLogged: true };
+
+  // Paid on the due date, at the time it's being logged if that's today
+  const occurredAt = new Date(Math.min(Date.now(), new Date(dueDate).setHours(23, 59, 0, 0)));
+
+  try {
+    return await db.$transaction(async (tx) => {
+      const transaction = await tx.transaction.create({
+        data: {
+          ownerId: expense.ownerId,
+          type: "expense",
+          category: expense.category,
+          amount: expense.amount,
+          description: expense.name,
+          accountId: expense.accountId,
+          source: "recurring",
+          reference,
+          occurredAt,
+        },
+      });
+
+      const cash = await bookAction(expense.ownerId, {
+        kind: "expense",
+        description: expense.name,
+        amount: expense.amount,
+        postings: withAccount(expenseEntry(expense.amount), expense.accountId),
+        transactionId: transaction.id,
+        occurredAt,
+      }, tx);
+
+      return { transaction, cash, alreadyLogged: false };
+    });
+  } catch (error) {
+    // "Paid" tapped twice at once - the other tap logged it first
+    if (!isUniqueViolation(error)) throw error;
+    const logged = await db.transaction.findFirst({ where: { ownerId: expense.ownerId, reference } });
+    if (!logged) throw error;
+    return { transaction: logged, cash: null, alreadyLogged: true };
+  }
+}
@@ -0,0 +1,56 @@
+// WhatsApp 24-hour session window tracking
+// Free-form messages are only delivered within 24h of the owner's last message;
+// outside it we send an approved template and hold the full message until they reply.
+
+import { db } from "./db";
+import { holdMessage, releaseHeldMessages, sendMessage } from "./outbound";
+import { defaultChannel, resolveChannel } from "./transports";
+import type { SendMessageOptions, TemplatePayload } from "./whatsapp";
+
+const SESSION_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Is the owner's customer-service window still open?
+export function isSessionOpen(lastInboundAt: Date | null, now: Date = new Date()): boolean {
+  return !!lastInboundAt && now.getTime() - lastInboundAt.getTime() < SESSION_WINDOW_MS;
+}
+
+// Record an inbound message: reopens the window and flushes anything held for this phone
+export async function recordInboundMessage(phone: string): Promise<void> {
+  await db.owner.updateMany({
+    where: { phone },
+    data: { lastInboundAt: new Date() },
+  });
+
+  const released = await releaseHeldMessages(phone);
+  if (released > 0) {
+    console.log(`Released ${released} held messages to ${phone}`);
+  }
+}
+
+// Send a proactive message to an owner on their preferred channel
+// On WhatsApp, falls back to a template when the session window is closed
+// Returns true only when the full message went out now - not when it was held behind the template
+export async function sendOwnerMessage(
+  owner: { phone: string; lastInboundAt: Date | null; preferredChannel: string | null; telegramChatId: string | null },
+  options: Omit<SendMessageOptions, "to" | "template">,
+  fallback: { text: string; template: TemplatePayload }
+): Promise<boolean> {
+  let channel = resolveChannel(owner.preferredChannel);
+
+  if (channel === "telegram") {
+    if (owner.telegramChatId) {
+      return sendMessage({ to: owner.telegramChatId, ...options }, channel);
+    }
+    // Not linked to a Telegram chat yet
+    channel = defaultChannel();
+  }
+
+  // The session window is a WhatsApp rule - other channels always get the full message
+  if (channel !== "whatsapp" || isSessionOpen(owner.lastInboundAt)) {
+    return sendMessage({ to: owner.phone, ...options }, channel);
+  }
+
+  await holdMessage({ to: owner.phone, ...options });
+  await sendMessage({ to: owner.phone, text: fallback.text, template: fallback.template }, channel);
+  return false;
+}
@@ -0,0 +1,39 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { counterpartyName, parseBankSms } from "./sms-parser";
+import bankAlerts from "./__fixtures__/sms/bank-alerts.json";
+import notTransactions from "./__fixtures__/sms/not-transactions.json";
+
+for (const alert of bankAlerts) {
+  test(`parses ${alert.name}`, () => {
+    const parsed = parseBankSms(alert.sms, alert.sender);
+    assert.ok(parsed, "expected a transaction");
+
+    const { timestamp, ...expected } = alert.expected;
+    assert.equal(parsed.amount, expected.amount);
+    assert.equal(parsed.direction, expected.direction);
+    assert.equal(parsed.upiRef, expected.upiRef);
+    assert.equal(parsed.counterparty, "counterparty" in expected ? expected.counterparty : undefined);
+    assert.equal(parsed.account, expected.account);
+    assert.equal(parsed.bank, expected.bank);
+    assert.equal(parsed.timestamp?.toISOString(), timestamp);
+  });
+}
+
+for (const sms of notTransactions) {
+  test(`ignores ${sms.name}`, () => {
+    assert.equal(parseBankSms(sms.sms, sms.sender), null);
+  });
+}
+
+test("reads dates as IST whatever the server's time zone", () => {
+  // 00:15 IST on the 20th is still the 19th in UTC
+  const parsed = parseBankSms("INR 100.00 credited A/c no. XX1234 20-10-25, 00:15:00 UPI/P2A/429312345699/SHARMA");
+  assert.equal(parsed?.timestamp?.toISOString(), "2025-10-19T18:45:00.000Z");
+});
+
+test("turns VPAs into names to match customers", () => {
+  assert.equal(counterpartyName("sharma.rajesh@okicici"), "sharma rajesh");
+  assert.equal(counterpartyName("ramesh_kumar91@ybl"), "ramesh kumar");
+  assert.equal(counterpartyName("RAMESH KUMAR"), "RAMESH KUMAR");
+});
@@ -0,0 +1,144 @@
+// Bank and UPI alert SMS parser
+// Pulls amount, direction, counterparty, UPI reference and timestamp out of the
+// transaction alerts Indian banks send. Formats differ per bank, so each field is
+// extracted by a list of patterns tried in order.
+
+import { istDate } from "./dates";
+
+export interface ParsedBankSms {
+  amount: number;
+  direction: "credit" | "debit";
+  counterparty?: string; // name or VPA as printed by the bank
+  upiRef?: string; // 12-digit UPI RRN
+  account?: string; // last digits of the owner's account
+  bank?: string;
+  timestamp?: Date;
+}
+
+// Bank detection by name in the body (or sender id like "VM-SBIUPI")
+const BANK_PATTERNS: Array<{ bank: string; pattern: RegExp }> = [
+  { bank: "SBI", pattern: /\bSBI\b|State Bank/i },
+  { bank: "HDFC", pattern: /\bHDFC\b/i },
+  { bank: "ICICI", pattern: /\bICICI\b/i },
+  { bank: "Axis", pattern: /\bAxis\b/i },
+  { bank: "Kotak", pattern: /\bKotak\b/i },
+  { bank: "PNB", pattern: /\bPNB\b|Punjab National/i },
+  { bank: "BOB", pattern: /\bBOB\b|Bank of Baroda/i },
+  { bank: "Canara", pattern: /\bCanara\b/i },
+  { bank: "Union", pattern: /Union Bank/i },
+  { bank: "Paytm", pattern: /\bPaytm\b/i },
+];
+
+// Amounts: "Rs.2,500", "INR 2,500.00", "₹2500", and SBI's bare "debited by 150.0"
+const AMOUNT_PATTERNS: RegExp[] = [
+  /(?:rs\.?|inr|₹)\s*([\d,]+(?:\.\d{1,2})?)/i,
+  /(?:credited|debited)\s+(?:by|for|with)\s+([\d,]+(?:\.\d{1,2})?)/i,
+];
+
+const CREDIT_WORDS = /\b(credited|received|deposited|credit)\b/i;
+const DEBIT_WORDS = /\b(debited|sent|withdrawn|paid|debit|spent)\b/i;
+
+// UPI reference numbers (12 digits)
+const UPI_REF_PATTERNS: RegExp[] = [
+  /UPI\/P2[AM]\/(\d{12})/i, // Axis: "Info- UPI/P2A/123456789012/SHARMA"
+  /(?:upi\s*ref(?:\s*no)?|ref\s*no|refno|ref|rrn|upi)[\s.:#-]*(\d{12})\b/i, // "UPI Ref:..", "Refno ..", "UPI:.."
+  /\b(\d{12})\b/,
+];
+
+// Counterparty, most specific first
+const COUNTERPARTY_PATTERNS: RegExp[] = [
+  /UPI\/P2[AM]\/\d+\/([^/.\n]+)/i, // Axis: "UPI/P2A/123456789012/SHARMA"
+  /by\s+UPI\/[^/\s]+\/([^/.\n]+?)(?:\/|\.|\s+on\b|\s+ref|$)/im, // "by UPI/PhonePe/Sharma"
+  /(?:from|to)\s+VPA\s+([\w.-]+@[\w.-]+)/i, // HDFC: "from VPA sharma@okicici"
+  /;\s*([A-Za-z][A-Za-z .]+?)\s+credited/i, // ICICI debit: "; SHARMA credited."
+  /trf\s+to\s+([A-Za-z][A-Za-z .]+?)\s+(?:Ref\w*|on)\b/i, // SBI debit: "trf to SHARMA Refno"
+  /\bto\s+([A-Za-z][A-Za-z .]+?)\s+on\s+\d/i, // HDFC debit: "To RAMESH KUMAR On 19/10/25"
+  /\b(?:from|to|by)\s+([\w.-]+@[\w.-]+)/i, // Kotak: "from sharma@ybl", "to sabziwala@okaxis"; SBI: "by anita@oksbi"
+  /\bfrom\s+([A-Za-z][A-Za-z .]+?)(?:\.|\s+on\b|\s+ref|\s*\(|$)/im, // ICICI credit: "from SHARMA."
+];
+
+// Owner's account digits: "A/c XX1234", "Acct XX123", "A/C *1234", "a/c no. XX1234"
+const ACCOUNT_PATTERN = /\ba\/?c(?:ct)?(?:\s*no\.?)?\s*[x*]*\s*(\d{3,6})\b/i;
+
+const MONTHS: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5, jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11,
+};
+
+// Two-digit years are 20xx
+function toYear(year: string): number {
+  const value = parseInt(year);
+  return value < 100 ? 2000 + value : value;
+}
+
+// Dates: "19Oct25", "19-Oct-25", "19-10-25", "19/10/2025", optionally followed by "10:15:22"
+// Banks print Indian time, so the date is read as IST whatever the server's zone
+function parseSmsDate(text: string): Date | undefined {
+  const time = text.match(/\b(\d{1,2}):(\d{2})(?::(\d{2}))?\b/);
+  const [hours, minutes, seconds] = time
+    ? [parseInt(time[1]), parseInt(time[2]), parseInt(time[3] || "0")]
+    : [12, 0, 0];
+
+  const named = text.match(/\b(\d{1,2})[-\s]?([A-Za-z]{3})[-\s]?(\d{2,4})\b/);
+  if (named && MONTHS[named[2].toLowerCase()] !== undefined) {
+    return istDate(toYear(named[3]), MONTHS[named[2].toLowerCase()], parseInt(named[1]), hours, minutes, seconds);
+  }
+
+  const numeric = text.match(/\b(\d{1,2})[-/](\d{1,2})[-/](\d{2,4})\b/);
+  if (numeric) {
+    return istDate(toYear(numeric[3]), parseInt(numeric[2]) - 1, parseInt(numeric[1]), hours, minutes, seconds);
+  }
+
+  return undefined;
+}
+
+function firstMatch(text: string, patterns: RegExp[]): string | undefined {
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match?.[1]) return match[1].trim();
+  }
+  return undefined;
+}
+
+// Credit or debit, by whichever keyword appears first
+// (ICICI debits say "debited ... SHARMA credited", so first mention wins)
+function detectDirection(text: string): "credit" | "debit" | undefined {
+  const credit = text.search(CREDIT_WORDS);
+  const debit = text.search(DEBIT_WORDS);
+
+  if (credit === -1 && debit === -1) return undefined;
+  if (credit === -1) return "debit";
+  if (debit === -1) return "credit";
+  return credit < debit ? "credit" : "debit";
+}
+
+// Parse a bank/UPI alert SMS, or return null if it isn't one
+export function parseBankSms(text: string, sender?: string): ParsedBankSms | null {
+  // Collapse spacing but keep line breaks - multi-line alerts (Axis, HDFC) end fields at them
+  const body = text.replace(/[^\S\n]+/g, " ").replace(/ *\n\s*/g, "\n").trim();
+
+  const rawAmount = firstMatch(body, AMOUNT_PATTERNS);
+  const direction = detectDirection(body);
+  if (!rawAmount || !direction) return null;
+
+  const amount = parseFloat(rawAmount.replace(/,/g, ""));
+  if (!amount || amount <= 0) return null;
+
+  const bankSource = `${sender || ""} ${body}`;
+  const bank = BANK_PATTERNS.find((b) => b.pattern.test(bankSource))?.bank;
+
+  return {
+    amount,
+    direction,
+    counterparty: firstMatch(body, COUNTERPARTY_PATTERNS),
+    upiRef: firstMatch(body, UPI_REF_PATTERNS),
+    account: body.match(ACCOUNT_PATTERN)?.[1],
+    bank,
+    timestamp: parseSmsDate(body),
+  };
+}
+
+// Name to match against customers: VPA handles lose the domain and digits
+export function counterpartyName(counterparty: string): string {
+  const handle = counterparty.includes("@") ? counterparty.split("@")[0] : counterparty;
+  return handle.replace(/[\d._-]+/g, " ").replace(/\s+/g, " ").trim();
+}
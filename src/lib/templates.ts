@@ -0,0 +1,82 @@
+// Approved WhatsApp template registry
+// Templates are the only messages WhatsApp delivers outside the 24h session window,
+// so each proactive message type has a short template carrying its key figures.
+
+import type { TemplatePayload } from "./whatsapp";
+
+export interface MessageTemplate {
+  name: string;
+  language: string;
+  params: string[]; // slot names, in {{1}}..{{n}} order
+  body: string; // approved body text with {{n}} placeholders
+}
+
+export const TEMPLATES = {
+  morningBrief: {
+    name: "morning_brief_v1",
+    language: "en",
+    params: ["name", "cash", "pending", "watch"],
+    body: "☀️ Good morning {{1}}! Cash in hand: {{2}}. Pending collections: {{3}}. Today: {{4}}. Reply anything to see the full brief.",
+  },
+  eveningWrap: {
+    name: "evening_wrap_v1",
+    language: "en",
+    params: ["name", "in", "out", "cash"],
+    body: "🌙 {{1}}, today's wrap - In: {{2}}, Out: {{3}}, End of day cash: {{4}}. Reply anything to see details.",
+  },
+  salaryReminder: {
+    name: "salary_reminder_v1",
+    language: "en",
+    params: ["name", "total", "cash", "status"],
+    body: "📅 {{1}}, salaries of {{2}} are due in 3 days. Cash: {{3}} ({{4}}). Reply anything to see the breakdown.",
+  },
+  recurringDue: {
+    name: "recurring_due_v1",
+    language: "en",
+    params: ["name", "expense", "amount"],
+    body: "📌 {{1}}, {{2}} of {{3}} is due today. Reply anything to see details.",
+  },
+  collectionPolite: {
+    name: "collection_polite_v1",
+    language: "hi",
+    params: ["customer", "business", "amount", "days"],
+    body: "🙏 Namaste {{1}}! {{2}} ki taraf se yaad dila rahe hain - {{3}} baaki hai ({{4}} din se). Jab suvidha ho, bhej dijiye. Dhanyavaad!",
+  },
+  collectionFirm: {
+    name: "collection_firm_v1",
+    language: "hi",
+    params: ["customer", "business", "amount", "days"],
+    body: "Namaste {{1}}, {{2}} ka {{3}} {{4}} din se baaki hai. Kripya is hafte payment kar dijiye.",
+  },
+  collectionFinal: {
+    name: "collection_final_v1",
+    language: "hi",
+    params: ["customer", "business", "amount", "days"],
+    body: "{{1}} ji, {{2}} ka {{3}} {{4}} din se pending hai. Yeh aakhri reminder hai - kripya turant payment karein ya {{2}} se baat karein.",
+  },
+  alert: {
+    name: "business_alert_v1",
+    language: "en",
+    params: ["title", "message"],
+    body: "⚠️ {{1}}: {{2}}. Reply anything to dismiss or snooze.",
+  },
+} satisfies Record<string, MessageTemplate>;
+
+// Template parameters can't contain newlines, tabs or runs of spaces
+function sanitizeParam(value: string): string {
+  return value.replace(/[\n\t]+/g, " ").replace(/ {2,}/g, " ").trim() || "-";
+}
+
+// Fill a template's slots and return both the API payload and the rendered text
+export function buildTemplateMessage(
+  template: MessageTemplate,
+  values: Record<string, string>
+): { text: string; template: TemplatePayload } {
+  const params = template.params.map((slot) => sanitizeParam(values[slot] ?? ""));
+  const text = template.body.replace(/\{\{(\d+)\}\}/g, (_, n) => params[parseInt(n) - 1] ?? "");
+
+  return {
+    text,
+    template: { name: template.name, language: template.language, params },
+  };
+}
@@ -0,0 +1,44 @@
+// Voice-note transcription
+
+import { experimental_transcribe as transcribe } from "ai";
+import { openai } from "@ai-sdk/openai";
+
+export interface Transcriber {
+  transcribe(audio: Buffer, mimeType: string): Promise<string>;
+}
+
+// Prefix the simulator uses for voice notes that arrive as typed text
+const SIMULATED_VOICE_PREFIX = "[Voice Message]";
+
+// Nudge the model towards the vocabulary owners actually use
+const HINGLISH_PROMPT =
+  "Hinglish business notes: sabzi 2000, gas 900, Sharma se 5000 mila, Ramu ko 2000 advance, udhaar, baaki, salary.";
+
+// OpenAI Whisper-family transcriber (handles WhatsApp OGG/Opus voice notes directly)
+export const openAITranscriber: Transcriber = {
+  async transcribe(audio) {
+    const result = await transcribe({
+      model: openai.transcription("gpt-4o-mini-transcribe"),
+      audio,
+      providerOptions: { openai: { prompt: HINGLISH_PROMPT } },
+    });
+    return result.text.trim();
+  },
+};
+
+// Transcribe a voice note, returning null when nothing usable came back
+export async function transcribeVoiceNote(audio: Buffer, mimeType: string): Promise<string | null> {
+  try {
+    const text = await openAITranscriber.transcribe(audio, mimeType);
+    return text || null;
+  } catch (error) {
+    console.error("Transcription error:", error);
+    return null;
+  }
+}
+
+// Simulator voice notes arrive as "[Voice Message]\n<transcript>"
+export function parseSimulatedVoice(message: string): string | null {
+  if (!message.startsWith(SIMULATED_VOICE_PREFIX)) return null;
+  return message.slice(SIMULATED_VOICE_PREFIX.length).trim();
+}
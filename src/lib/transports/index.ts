@@ -0,0 +1,35 @@
+// Messaging transport registry
+
+import { isSimulatorMode } from "../whatsapp";
+import { simulatorTransport } from "./simulator";
+import { smsTransport } from "./sms";
+import { telegramTransport } from "./telegram";
+import { CHANNELS, type Channel, type MessagingTransport } from "./types";
+import { whatsappCloudTransport } from "./whatsapp-cloud";
+
+export { CHANNELS, type Channel, type DeliveryResult, type MessagingTransport } from "./types";
+
+const transports: Record<Channel, MessagingTransport> = {
+  simulator: simulatorTransport,
+  whatsapp: whatsappCloudTransport,
+  telegram: telegramTransport,
+  sms: smsTransport,
+};
+
+export function getTransport(channel: Channel): MessagingTransport {
+  return transports[channel];
+}
+
+export function isChannel(value: string | null | undefined): value is Channel {
+  return !!value && (CHANNELS as readonly string[]).includes(value);
+}
+
+// Channel for recipients without a stored preference
+export function defaultChannel(): Channel {
+  return isSimulatorMode() ? "simulator" : "whatsapp";
+}
+
+// Resolve a stored preference, falling back to the default channel
+export function resolveChannel(preferred: string | null | undefined): Channel {
+  return isChannel(preferred) ? preferred : defaultChannel();
+}
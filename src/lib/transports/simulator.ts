@@ -0,0 +1,29 @@
+// Simulator transport - writes bot messages to the SimulatorMessage table
+// so the simulator chat views pick them up through /api/messages
+
+import { db } from "../db";
+import { formatInteractiveText, type SendMessageOptions } from "../whatsapp";
+import type { DeliveryResult, MessagingTransport } from "./types";
+
+export const simulatorTransport: MessagingTransport = {
+  channel: "simulator",
+
+  async deliver(options: SendMessageOptions): Promise<DeliveryResult> {
+    try {
+      // The simulator can't render buttons, so show them as numbered options
+      const message = await db.simulatorMessage.create({
+        data: {
+          phone: options.to,
+          text: formatInteractiveText(options),
+          sender: "bot",
+        },
+      });
+
+      console.log(`[Simulator] Message to ${options.to}: ${options.text.substring(0, 100)}...`);
+      return { success: true, providerMessageId: `sim_${message.id}` };
+    } catch (error) {
+      console.error("Simulator send error:", error);
+      return { success: false, error: String(error), retryable: true };
+    }
+  },
+};
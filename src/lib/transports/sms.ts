@@ -0,0 +1,45 @@
+// SMS gateway transport
+// Posts to a generic HTTP SMS gateway: { to, sender, message } with a bearer key
+
+import { formatInteractiveText, type SendMessageOptions } from "../whatsapp";
+import type { DeliveryResult, MessagingTransport } from "./types";
+
+export const smsTransport: MessagingTransport = {
+  channel: "sms",
+
+  async deliver(options: SendMessageOptions): Promise<DeliveryResult> {
+    const gatewayUrl = process.env.SMS_GATEWAY_URL;
+    if (!gatewayUrl) {
+      return { success: false, error: "SMS_GATEWAY_URL is not set", retryable: false };
+    }
+
+    try {
+      const response = await fetch(gatewayUrl, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${process.env.SMS_GATEWAY_API_KEY}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          to: options.to,
+          sender: process.env.SMS_SENDER_ID || "SAARTH",
+          // No buttons over SMS - numbered options instead
+          message: formatInteractiveText(options),
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        console.error("SMS gateway error:", error);
+        const retryable = response.status === 429 || response.status >= 500;
+        return { success: false, error: `${response.status}: ${error}`, retryable };
+      }
+
+      const data = (await response.json().catch(() => ({}))) as { id?: string; messageId?: string };
+      return { success: true, providerMessageId: data.id || data.messageId };
+    } catch (error) {
+      console.error("SMS send error:", error);
+      return { success: false, error: String(error), retryable: true };
+    }
+  },
+};
@@ -0,0 +1,61 @@
+// Telegram Bot API transport
+
+import type { SendMessageOptions } from "../whatsapp";
+import type { DeliveryResult, MessagingTransport } from "./types";
+
+// Bot API base URL (overridable so a local fake server can stand in)
+function telegramApiUrl(): string {
+  return `${process.env.TELEGRAM_API_URL || "https://api.telegram.org"}/bot${process.env.TELEGRAM_BOT_TOKEN}`;
+}
+
+// Buttons and list rows both become inline keyboard rows (one choice per row)
+function buildReplyMarkup(options: SendMessageOptions): Record<string, unknown> | undefined {
+  const choices = options.buttons
+    || options.list?.sections.flatMap((s) => s.rows.map((r) => ({ id: r.id, title: r.title })))
+    || [];
+
+  if (choices.length === 0) return undefined;
+
+  return {
+    inline_keyboard: choices.map((c) => [{ text: c.title, callback_data: c.id.slice(0, 64) }]),
+  };
+}
+
+export const telegramTransport: MessagingTransport = {
+  channel: "telegram",
+
+  async deliver(options: SendMessageOptions): Promise<DeliveryResult> {
+    if (!process.env.TELEGRAM_BOT_TOKEN) {
+      return { success: false, error: "TELEGRAM_BOT_TOKEN is not set", retryable: false };
+    }
+
+    try {
+      const response = await fetch(`${telegramApiUrl()}/sendMessage`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          chat_id: options.to,
+          text: options.text,
+          reply_markup: buildReplyMarkup(options),
+        }),
+      });
+
+      const data = (await response.json()) as {
+        ok: boolean;
+        description?: string;
+        result?: { message_id: number };
+      };
+
+      if (!response.ok || !data.ok) {
+        console.error("Telegram API error:", data.description);
+        const retryable = response.status === 429 || response.status >= 500;
+        return { success: false, error: `${response.status}: ${data.description}`, retryable };
+      }
+
+      return { success: true, providerMessageId: `tg_${data.result?.message_id}` };
+    } catch (error) {
+      console.error("Telegram send error:", error);
+      return { success: false, error: String(error), retryable: true };
+    }
+  },
+};
@@ -0,0 +1,191 @@
+import { test, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import { smsTransport } from "./sms";
+import { telegramTransport } from "./telegram";
+import { whatsappCloudTransport } from "./whatsapp-cloud";
+
+interface Received {
+  method?: string;
+  path?: string;
+  headers: IncomingMessage["headers"];
+  body: Record<string, unknown>;
+}
+
+// One local HTTP server stands in for the Graph API, the Bot API and the SMS gateway
+let server: Server;
+let received: Received[] = [];
+let reply: (res: ServerResponse, req: Received) => void;
+
+function json(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+before(async () => {
+  server = createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      const entry = { method: req.method, path: req.url, headers: req.headers, body: raw ? JSON.parse(raw) : {} };
+      received.push(entry);
+      reply(res, entry);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  process.env.WHATSAPP_GRAPH_URL = `${url}/graph`;
+  process.env.WHATSAPP_PHONE_ID = "106540352242922";
+  process.env.WHATSAPP_TOKEN = "wa-token";
+  process.env.TELEGRAM_API_URL = `${url}/telegram`;
+  process.env.TELEGRAM_BOT_TOKEN = "tg-token";
+  process.env.SMS_GATEWAY_URL = `${url}/sms`;
+  process.env.SMS_GATEWAY_API_KEY = "sms-key";
+});
+
+after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+beforeEach(() => {
+  received = [];
+});
+
+const buttons = [
+  { id: "undo_last", title: "Undo" },
+  { id: "confirm_yes", title: "Haan, sahi hai - log karo" },
+];
+
+test("whatsapp: sends text to the Graph messages endpoint", async () => {
+  reply = (res) => json(res, 200, { messaging_product: "whatsapp", messages: [{ id: "wamid.OUT1" }] });
+
+  const result = await whatsappCloudTransport.deliver({ to: "919876543210", text: "₹450 sabzi log ho gaya" });
+
+  assert.deepEqual(result, { success: true, providerMessageId: "wamid.OUT1" });
+  assert.equal(received[0].path, "/graph/106540352242922/messages");
+  assert.equal(received[0].headers.authorization, "Bearer wa-token");
+  assert.deepEqual(received[0].body, {
+    messaging_product: "whatsapp",
+    to: "919876543210",
+    type: "text",
+    text: { body: "₹450 sabzi log ho gaya" },
+  });
+});
+
+test("whatsapp: sends buttons as interactive with titles clamped to 20 chars", async () => {
+  reply = (res) => json(res, 200, { messages: [{ id: "wamid.OUT2" }] });
+
+  await whatsappCloudTransport.deliver({ to: "919876543210", text: "Log karu?", buttons });
+
+  const interactive = received[0].body.interactive as { type: string; action: { buttons: Array<{ reply: { title: string } }> } };
+  assert.equal(interactive.type, "button");
+  assert.deepEqual(interactive.action.buttons.map((b) => b.reply.title), ["Undo", "Haan, sahi hai - lo…"]);
+});
+
+test("whatsapp: sends templates with body parameters", async () => {
+  reply = (res) => json(res, 200, { messages: [{ id: "wamid.OUT3" }] });
+
+  await whatsappCloudTransport.deliver({
+    to: "919876543210",
+    text: "Good morning",
+    template: { name: "morning_brief", language: "hi", params: ["Sunita", "₹2,400"] },
+  });
+
+  assert.deepEqual(received[0].body.template, {
+    name: "morning_brief",
+    language: { code: "hi" },
+    components: [{ type: "body", parameters: [{ type: "text", text: "Sunita" }, { type: "text", text: "₹2,400" }] }],
+  });
+});
+
+test("whatsapp: retries rate limits and server errors, not bad requests", async () => {
+  reply = (res) => json(res, 429, { error: { code: 130429, message: "Rate limit hit" } });
+  assert.equal((await whatsappCloudTransport.deliver({ to: "919876543210", text: "hi" })).retryable, true);
+
+  reply = (res) => json(res, 503, { error: { message: "Service unavailable" } });
+  assert.equal((await whatsappCloudTransport.deliver({ to: "919876543210", text: "hi" })).retryable, true);
+
+  reply = (res) => json(res, 400, { error: { code: 131030, message: "Recipient not in allowed list" } });
+  const result = await whatsappCloudTransport.deliver({ to: "919876543210", text: "hi" });
+  assert.equal(result.success, false);
+  assert.equal(result.retryable, false);
+  assert.match(result.error || "", /^400: .*131030/);
+});
+
+test("telegram: sends text with buttons as an inline keyboard", async () => {
+  reply = (res) => json(res, 200, { ok: true, result: { message_id: 812 } });
+
+  const result = await telegramTransport.deliver({ to: "55012345", text: "Log karu?", buttons });
+
+  assert.deepEqual(result, { success: true, providerMessageId: "tg_812" });
+  assert.equal(received[0].path, "/telegram/bottg-token/sendMessage");
+  assert.deepEqual(received[0].body, {
+    chat_id: "55012345",
+    text: "Log karu?",
+    reply_markup: {
+      inline_keyboard: [
+        [{ text: "Undo", callback_data: "undo_last" }],
+        [{ text: "Haan, sahi hai - log karo", callback_data: "confirm_yes" }],
+      ],
+    },
+  });
+});
+
+test("telegram: reports API errors and retries only rate limits and server errors", async () => {
+  reply = (res) => json(res, 400, { ok: false, error_code: 400, description: "Bad Request: chat not found" });
+  const badChat = await telegramTransport.deliver({ to: "1", text: "hi" });
+  assert.deepEqual(badChat, { success: false, error: "400: Bad Request: chat not found", retryable: false });
+
+  reply = (res) => json(res, 429, { ok: false, error_code: 429, description: "Too Many Requests: retry after 5" });
+  assert.equal((await telegramTransport.deliver({ to: "1", text: "hi" })).retryable, true);
+});
+
+test("sms: posts numbered options instead of buttons", async () => {
+  reply = (res) => json(res, 200, { id: "sms_7731" });
+
+  const result = await smsTransport.deliver({ to: "919876543210", text: "Log karu?", buttons });
+
+  assert.deepEqual(result, { success: true, providerMessageId: "sms_7731" });
+  assert.equal(received[0].path, "/sms");
+  assert.equal(received[0].headers.authorization, "Bearer sms-key");
+  assert.deepEqual(received[0].body, {
+    to: "919876543210",
+    sender: "SAARTH",
+    message: "Log karu?\n\n1. Undo\n2. Haan, sahi hai - log karo",
+  });
+});
+
+test("sms: gateway failures are retryable only for 429 and 5xx", async () => {
+  reply = (res) => json(res, 502, { error: "upstream down" });
+  assert.equal((await smsTransport.deliver({ to: "919876543210", text: "hi" })).retryable, true);
+
+  reply = (res) => json(res, 422, { error: "invalid number" });
+  assert.equal((await smsTransport.deliver({ to: "12", text: "hi" })).retryable, false);
+});
+
+test("unreachable servers are retryable network errors", async () => {
+  const graphUrl = process.env.WHATSAPP_GRAPH_URL;
+  process.env.WHATSAPP_GRAPH_URL = "http://127.0.0.1:1/graph";
+  try {
+    const result = await whatsappCloudTransport.deliver({ to: "919876543210", text: "hi" });
+    assert.equal(result.success, false);
+    assert.equal(result.retryable, true);
+  } finally {
+    process.env.WHATSAPP_GRAPH_URL = graphUrl;
+  }
+});
+
+test("telegram and sms refuse to send without configuration", async () => {
+  const token = process.env.TELEGRAM_BOT_TOKEN;
+  const gateway = process.env.SMS_GATEWAY_URL;
+  delete process.env.TELEGRAM_BOT_TOKEN;
+  delete process.env.SMS_GATEWAY_URL;
+  try {
+    assert.equal((await telegramTransport.deliver({ to: "1", text: "hi" })).retryable, false);
+    assert.equal((await smsTransport.deliver({ to: "1", text: "hi" })).retryable, false);
+    assert.equal(received.length, 0);
+  } finally {
+    process.env.TELEGRAM_BOT_TOKEN = token;
+    process.env.SMS_GATEWAY_URL = gateway;
+  }
+});
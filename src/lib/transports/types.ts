@@ -0,0 +1,19 @@
+import type { SendMessageOptions } from "../whatsapp";
+
+export const CHANNELS = ["simulator", "whatsapp", "telegram", "sms"] as const;
+
+export type Channel = (typeof CHANNELS)[number];
+
+export interface DeliveryResult {
+  success: boolean;
+  providerMessageId?: string;
+  error?: string;
+  retryable?: boolean; // false for errors a retry can't fix (bad number, bad payload)
+}
+
+// One outbound channel. `options.to` is the channel's own address
+// (phone number for WhatsApp/SMS/simulator, chat id for Telegram).
+export interface MessagingTransport {
+  channel: Channel;
+  deliver(options: SendMessageOptions): Promise<DeliveryResult>;
+}
@@ -0,0 +1,105 @@
+// WhatsApp Cloud API transport
+
+import { graphApiUrl, type SendMessageOptions } from "../whatsapp";
+import type { DeliveryResult, MessagingTransport } from "./types";
+
+// Clamp a label to WhatsApp's length limit
+function truncate(label: string, max: number): string {
+  return label.length > max ? `${label.slice(0, max - 1)}…` : label;
+}
+
+// Build the type-specific part of a Graph API message body
+function buildMessageBody(options: SendMessageOptions): Record<string, unknown> {
+  if (options.template) {
+    return {
+      type: "template",
+      template: {
+        name: options.template.name,
+        language: { code: options.template.language },
+        components: [
+          {
+            type: "body",
+            parameters: options.template.params.map((text) => ({ type: "text", text })),
+          },
+        ],
+      },
+    };
+  }
+
+  if (options.buttons && options.buttons.length > 0) {
+    return {
+      type: "interactive",
+      interactive: {
+        type: "button",
+        body: { text: options.text },
+        action: {
+          buttons: options.buttons.slice(0, 3).map((b) => ({
+            type: "reply",
+            reply: { id: b.id, title: truncate(b.title, 20) },
+          })),
+        },
+      },
+    };
+  }
+
+  if (options.list && options.list.sections.length > 0) {
+    return {
+      type: "interactive",
+      interactive: {
+        type: "list",
+        body: { text: options.text },
+        action: {
+          button: truncate(options.list.buttonText, 20),
+          sections: options.list.sections.map((section) => ({
+            ...(section.title ? { title: truncate(section.title, 24) } : {}),
+            rows: section.rows.map((row) => ({
+              id: row.id,
+              title: truncate(row.title, 24),
+              ...(row.description ? { description: truncate(row.description, 72) } : {}),
+            })),
+          })),
+        },
+      },
+    };
+  }
+
+  return { type: "text", text: { body: options.text } };
+}
+
+export const whatsappCloudTransport: MessagingTransport = {
+  channel: "whatsapp",
+
+  async deliver(options: SendMessageOptions): Promise<DeliveryResult> {
+    try {
+      const response = await fetch(
+        `${graphApiUrl()}/${process.env.WHATSAPP_PHONE_ID}/messages`,
+        {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${process.env.WHATSAPP_TOKEN}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            messaging_product: "whatsapp",
+            to: options.to,
+            ...buildMessageBody(options),
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.text();
+        console.error("WhatsApp API error:", error);
+        // Rate limits and server errors are worth retrying, other 4xx are not
+        const retryable = response.status === 429 || response.status >= 500;
+        return { success: false, error: `${response.status}: ${error}`, retryable };
+      }
+
+      const data = (await response.json()) as { messages?: Array<{ id: string }> };
+      return { success: true, providerMessageId: data.messages?.[0]?.id };
+    } catch (error) {
+      console.error("WhatsApp send error:", error);
+      return { success: false, error: String(error), retryable: true };
+    }
+  },
+};
@@ -0,0 +1,78 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac } from "crypto";
+import { parseWebhookMessages, parseWebhookStatuses, verifyWebhookSignature } from "./whatsapp";
+import textMessage from "./__fixtures__/whatsapp/text-message.json";
+import imageMessage from "./__fixtures__/whatsapp/image-message.json";
+import voiceMessage from "./__fixtures__/whatsapp/voice-message.json";
+import buttonReply from "./__fixtures__/whatsapp/button-reply.json";
+import batchedMessages from "./__fixtures__/whatsapp/batched-messages.json";
+import statusUpdate from "./__fixtures__/whatsapp/status-update.json";
+
+process.env.WHATSAPP_APP_SECRET = "test-app-secret";
+
+function sign(body: string): string {
+  return `sha256=${createHmac("sha256", "test-app-secret").update(body, "utf8").digest("hex")}`;
+}
+
+test("parses a text message", () => {
+  const [message] = parseWebhookMessages(textMessage);
+  assert.equal(message.id, "wamid.HBgMOTE5ODc2NTQzMjEwFQIAEhgUM0VCMDQ5RTU1QjNGMzdBQkQ4NjkA");
+  assert.equal(message.from, "919876543210");
+  assert.equal(message.text, "sabzi 450");
+  assert.equal(message.type, "text");
+  assert.equal(message.timestamp.getTime(), 1760850000 * 1000);
+});
+
+test("parses an image with its caption and media id", () => {
+  const [message] = parseWebhookMessages(imageMessage);
+  assert.equal(message.type, "image");
+  assert.equal(message.text, "mandi ka bill");
+  assert.equal(message.mediaUrl, "1193214478577193");
+});
+
+test("parses a voice note as voice", () => {
+  const [message] = parseWebhookMessages(voiceMessage);
+  assert.equal(message.type, "voice");
+  assert.equal(message.mediaUrl, "848720190412345");
+});
+
+test("parses a button tap as an interactive reply", () => {
+  const [message] = parseWebhookMessages(buttonReply);
+  assert.equal(message.type, "interactive");
+  assert.deepEqual(message.reply, { id: "undo_last", title: "Undo" });
+});
+
+test("parses every message in a batched delivery", () => {
+  const messages = parseWebhookMessages(batchedMessages);
+  assert.deepEqual(messages.map((m) => [m.from, m.text]), [
+    ["919876543210", "sabzi 200"],
+    ["919876543210", "doodh 60"],
+    ["919812345678", "aaj ka hisaab"],
+  ]);
+});
+
+test("status-only payloads carry statuses and no messages", () => {
+  assert.deepEqual(parseWebhookMessages(statusUpdate), []);
+  const statuses = parseWebhookStatuses(statusUpdate);
+  assert.deepEqual(statuses.map((s) => s.status), ["delivered", "failed"]);
+  assert.equal(statuses[1].error, "131047: Re-engagement message");
+});
+
+test("accepts a valid signature", () => {
+  const body = JSON.stringify(textMessage);
+  assert.equal(verifyWebhookSignature(body, sign(body)), true);
+});
+
+test("rejects a signature for a different body", () => {
+  assert.equal(verifyWebhookSignature("{}", sign("{ }")), false);
+});
+
+test("rejects missing or malformed signatures without throwing", () => {
+  const body = JSON.stringify(textMessage);
+  assert.equal(verifyWebhookSignature(body, null), false);
+  assert.equal(verifyWebhookSignature(body, "md5=abc"), false);
+  assert.equal(verifyWebhookSignature(body, "sha256=abc"), false);
+  // 64 chars but not hex - decodes to a shorter buffer
+  assert.equal(verifyWebhookSignature(body, `sha256=${"zz".repeat(32)}`), false);
+});
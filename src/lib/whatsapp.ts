@@ -1,78 +1,77 @@
 // WhatsApp messaging abstraction layer
 // Supports both simulator mode and real WhatsApp Business API
 
+import { createHmac, timingSafeEqual } from "crypto";
+import { toRupees, type Money } from "./money";
+
 export interface Message {
+  id?: string; // provider message id (wamid) when received via webhook
   from: string; // phone number
   text: string;
   timestamp: Date;
-  type: "text" | "image" | "voice";
+  type: "text" | "image" | "voice" | "interactive";
   mediaUrl?: string;
+  reply?: InteractiveReply; // set when the owner tapped a button or list row
+}
+
+// Quick-reply button (WhatsApp allows up to 3, titles up to 20 chars)
+export interface ReplyButton {
+  id: string;
+  title: string;
+}
+
+// List picker (up to 10 rows in total, row titles up to 24 chars)
+export interface ListMessage {
+  buttonText: string;
+  sections: Array<{
+    title?: string;
+    rows: Array<{ id: string; title: string; description?: string }>;
+  }>;
+}
+
+// A button or list row the user picked
+export interface InteractiveReply {
+  id: string;
+  title: string;
+}
+
+// Approved template message (the only kind allowed outside the 24h session window)
+export interface TemplatePayload {
+  name: string;
+  language: string;
+  params: string[]; // body parameters, in {{1}}..{{n}} order
 }
 
 export interface SendMessageOptions {
   to: string;
-  text: string;
+  text: string; // for templates: the rendered body, used by the simulator
+  buttons?: ReplyButton[];
+  list?: ListMessage;
+  template?: TemplatePayload;
 }
 
 // Message store for simulator mode (in-memory)
 const simulatorMessages: Map<string, Message[]> = new Map();
-const pendingResponses: Map<string, string[]> = new Map();
 
 // Check if we're in simulator mode
-function isSimulatorMode(): boolean {
+export function isSimulatorMode(): boolean {
   return !process.env.WHATSAPP_TOKEN || process.env.USE_SIMULATOR === "true";
 }
 
-// Send a message to a phone number
-export async function sendMessage(options: SendMessageOptions): Promise<boolean> {
-  const { to, text } = options;
-
-  if (isSimulatorMode()) {
-    // Store message for simulator to retrieve
-    const messages = pendingResponses.get(to) || [];
-    messages.push(text);
-    pendingResponses.set(to, messages);
-    console.log(`[Simulator] Message to ${to}: ${text.substring(0, 100)}...`);
-    return true;
-  }
+// Graph API base URL (overridable so a local fake server can stand in)
+export function graphApiUrl(): string {
+  return process.env.WHATSAPP_GRAPH_URL || "https://graph.facebook.com/v18.0";
+}
 
-  // Real WhatsApp Business API
-  try {
-    const response = await fetch(
-      `https://graph.facebook.com/v18.0/${process.env.WHATSAPP_PHONE_ID}/messages`,
-      {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${process.env.WHATSAPP_TOKEN}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          messaging_product: "whatsapp",
-          to,
-          type: "text",
-          text: { body: text },
-        }),
-      }
-    );
+// Plain-text rendering of buttons/lists for channels that can't show them (simulator, SMS)
+export function formatInteractiveText(options: SendMessageOptions): string {
+  const choices = options.buttons?.map((b) => b.title)
+    || options.list?.sections.flatMap((s) => s.rows.map((r) => r.description ? `${r.title} - ${r.description}` : r.title))
+    || [];
 
-    if (!response.ok) {
-      const error = await response.text();
-      console.error("WhatsApp API error:", error);
-      return false;
-    }
+  if (choices.length === 0) return options.text;
 
-    return true;
-  } catch (error) {
-    console.error("WhatsApp send error:", error);
-    return false;
-  }
-}
-
-// Get pending responses for simulator
-export function getSimulatorResponses(phone: string): string[] {
-  const messages = pendingResponses.get(phone) || [];
-  pendingResponses.delete(phone); // Clear after retrieval
-  return messages;
+  return `${options.text}\n\n${choices.map((c, i) => `${i + 1}. ${c}`).join("\n")}`;
 }
 
 // Store incoming message in simulator
@@ -90,48 +89,156 @@ export function getSimulatorHistory(phone: string): Message[] {
 // Clear simulator data for a phone
 export function clearSimulatorData(phone: string): void {
   simulatorMessages.delete(phone);
-  pendingResponses.delete(phone);
 }
 
-// Parse incoming WhatsApp webhook payload
-export function parseWebhookPayload(payload: unknown): Message | null {
-  try {
-    const data = payload as {
-      entry?: Array<{
-        changes?: Array<{
-          value?: {
-            messages?: Array<{
-              from: string;
-              timestamp: string;
-              type: string;
-              text?: { body: string };
-              image?: { id: string };
-              audio?: { id: string };
-            }>;
+// Raw WhatsApp Cloud API webhook payload (only the fields we read)
+interface WebhookPayload {
+  object?: string;
+  entry?: Array<{
+    id?: string;
+    changes?: Array<{
+      field?: string;
+      value?: {
+        messages?: Array<{
+          id: string;
+          from: string;
+          timestamp: string;
+          type: string;
+          text?: { body: string };
+          image?: { id: string; caption?: string };
+          audio?: { id: string };
+          interactive?: {
+            type: string;
+            button_reply?: { id: string; title: string };
+            list_reply?: { id: string; title: string; description?: string };
           };
+          button?: { payload: string; text: string }; // template quick-reply
+        }>;
+        statuses?: Array<{
+          id: string;
+          status: string;
+          timestamp: string;
+          recipient_id: string;
+          errors?: Array<{ code: number; title: string }>;
         }>;
-      }>;
-    };
-
-    const message = data.entry?.[0]?.changes?.[0]?.value?.messages?.[0];
-    if (!message) return null;
-
-    return {
-      from: message.from,
-      text: message.text?.body || "",
-      timestamp: new Date(parseInt(message.timestamp) * 1000),
-      type: message.type as "text" | "image" | "voice",
-      mediaUrl: message.image?.id || message.audio?.id,
-    };
+      };
+    }>;
+  }>;
+}
+
+// Map WhatsApp message types onto our internal message types
+function toMessageType(type: string): Message["type"] {
+  if (type === "image") return "image";
+  if (type === "audio" || type === "voice") return "voice";
+  if (type === "interactive" || type === "button") return "interactive";
+  return "text";
+}
+
+// Parse all inbound messages from a WhatsApp webhook payload
+// A single delivery can batch several entries/changes; status-only payloads yield []
+export function parseWebhookMessages(payload: unknown): Message[] {
+  const messages: Message[] = [];
+
+  try {
+    const data = payload as WebhookPayload;
+
+    for (const entry of data.entry || []) {
+      for (const change of entry.changes || []) {
+        for (const message of change.value?.messages || []) {
+          const picked = message.interactive?.button_reply || message.interactive?.list_reply;
+          const reply = picked
+            ? { id: picked.id, title: picked.title }
+            : message.button
+            ? { id: message.button.payload, title: message.button.text }
+            : undefined;
+
+          messages.push({
+            id: message.id,
+            from: message.from,
+            text: message.text?.body || message.image?.caption || reply?.title || "",
+            timestamp: new Date(parseInt(message.timestamp) * 1000),
+            type: toMessageType(message.type),
+            mediaUrl: message.image?.id || message.audio?.id,
+            reply,
+          });
+        }
+      }
+    }
   } catch (error) {
     console.error("Webhook parse error:", error);
-    return null;
   }
+
+  return messages;
+}
+
+// Delivery status update for a message we sent
+export interface StatusUpdate {
+  providerMessageId: string;
+  status: string; // sent, delivered, read, failed
+  timestamp: Date;
+  recipient: string;
+  error?: string;
+}
+
+// Parse delivery status updates from a WhatsApp webhook payload
+export function parseWebhookStatuses(payload: unknown): StatusUpdate[] {
+  const statuses: StatusUpdate[] = [];
+
+  try {
+    const data = payload as WebhookPayload;
+
+    for (const entry of data.entry || []) {
+      for (const change of entry.changes || []) {
+        for (const status of change.value?.statuses || []) {
+          statuses.push({
+            providerMessageId: status.id,
+            status: status.status,
+            timestamp: new Date(parseInt(status.timestamp) * 1000),
+            recipient: status.recipient_id,
+            error: status.errors?.map((e) => `${e.code}: ${e.title}`).join(", "),
+          });
+        }
+      }
+    }
+  } catch (error) {
+    console.error("Webhook status parse error:", error);
+  }
+
+  return statuses;
+}
+
+// Parse the first incoming message from a WhatsApp webhook payload
+export function parseWebhookPayload(payload: unknown): Message | null {
+  return parseWebhookMessages(payload)[0] || null;
+}
+
+// Verify the X-Hub-Signature-256 header against the raw request body
+export function verifyWebhookSignature(rawBody: string, signature: string | null): boolean {
+  const appSecret = process.env.WHATSAPP_APP_SECRET;
+
+  if (!appSecret) {
+    console.error("WHATSAPP_APP_SECRET is not set - rejecting webhook");
+    return false;
+  }
+
+  if (!signature?.startsWith("sha256=")) {
+    return false;
+  }
+
+  const received = signature.slice("sha256=".length);
+
+  // Non-hex input decodes to a shorter buffer, which timingSafeEqual would throw on
+  if (!/^[0-9a-f]{64}$/i.test(received)) {
+    return false;
+  }
+
+  const expected = createHmac("sha256", appSecret).update(rawBody, "utf8").digest();
+  return timingSafeEqual(Buffer.from(received, "hex"), expected);
 }
 
-// Format currency for display
-export function formatCurrency(amount: number): string {
-  return `₹${amount.toLocaleString("en-IN")}`;
+// Format currency for display - amounts are paise, paise are shown only when present
+export function formatCurrency(amount: Money): string {
+  return `₹${toRupees(amount).toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
 }
 
 // Format date for display
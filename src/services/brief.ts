@@ -1,5 +1,18 @@
-import { db } from "@/lib/db";
-import { formatCurrency, formatDate, sendMessage } from "@/lib/whatsapp";
+import { db, type RecurringExpense } from "@/lib/db";
+import { formatCurrency, formatDate } from "@/lib/whatsapp";
+import { sendOwnerMessage } from "@/lib/session";
+import { buildTemplateMessage, TEMPLATES } from "@/lib/templates";
+import { cashInHand, formatAccountBreakdown, getAccountBalances, type AccountBalance } from "@/lib/accounts";
+import { roundToRupee, sumMoney, toPaise, type Money } from "@/lib/money";
+import { describeSchedule, findDuePayment, getRecurringExpenses, isDueOn, logRecurringExpense, nextDueDate } from "@/lib/recurring";
+import { getOpenPayables, isPayableDueOn, payableBalance, payablesDueBy, payableDueDay, type OpenPayable } from "@/lib/payables";
+import { getProfitAndLoss } from "@/lib/ledger";
+
+// Composed proactive message plus the key figures for its template fallback
+interface ComposedMessage {
+  text: string;
+  templateValues: Record<string, string>;
+}
 
 // Generate and send morning brief for an owner
 export async function sendMorningBrief(ownerId: string): Promise<void> {
@@ -17,10 +30,11 @@ export async function sendMorningBrief(ownerId: string): Promise<void> {
 
   const brief = await composeMorningBrief(owner);
 
-  await sendMessage({
-    to: owner.phone,
-    text: brief,
-  });
+  await sendOwnerMessage(
+    owner,
+    { text: brief.text },
+    buildTemplateMessage(TEMPLATES.morningBrief, brief.templateValues)
+  );
 }
 
 // Compose morning brief content
@@ -29,7 +43,7 @@ async function composeMorningBrief(
     staff: Array<{ name: string; salaryAmount: number; salaryType: string; paymentDay: number | null; advanceBalance: number }>;
     receivables: Array<{ amount: number; amountPaid: number }>;
   }
-): Promise<string> {
+): Promise<ComposedMessage> {
   const now = new Date();
   const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
 
@@ -39,28 +53,20 @@ async function composeMorningBrief(
     0
   );
 
-  // Get this month's P&L
-  const monthlyTransactions = await db.transaction.groupBy({
-    by: ["type"],
-    where: {
-      ownerId: owner.id,
-      createdAt: { gte: startOfMonth },
-    },
-    _sum: { amount: true },
-  });
-
-  const income = monthlyTransactions.find((t) => t.type === "income")?._sum.amount || 0;
-  const expenses = monthlyTransactions.find((t) => t.type === "expense")?._sum.amount || 0;
-  const salaries = monthlyTransactions.find((t) => t.type === "salary")?._sum.amount || 0;
-  const totalExpenses = expenses + salaries;
+  // Get this month's P&L, from the ledger
+  const { income, expenses: totalExpenses } = await getProfitAndLoss(owner.id, startOfMonth);
   const profit = income - totalExpenses;
   const profitPercent = income > 0 ? Math.round((profit / income) * 100) : 0;
 
   // Generate 3-day projection
-  const projections = await generate3DayProjection(owner);
+  const recurring = await getRecurringExpenses(owner.id);
+  const payables = await getOpenPayables(owner.id);
+  const projections = await generate3DayProjection(owner, recurring, payables);
 
   // Find watch items
-  const watchItems = await getWatchItems(owner.id, owner.staff, owner.currentCash);
+  const accounts = await getAccountBalances(owner.id);
+  const watchItems = await getWatchItems(owner.id, owner.staff, owner.currentCash, accounts, recurring, payables);
+  const totalOwed = sumMoney(payables.map(payableBalance));
 
   // Compose the brief
   const monthName = now.toLocaleString("en-IN", { month: "long" });
@@ -69,8 +75,9 @@ async function composeMorningBrief(
   let brief = `☀️ *GOOD MORNING ${owner.name?.toUpperCase() || ""}*
 
 💰 *CASH POSITION*
-In hand: ${formatCurrency(owner.currentCash)}
-Pending: ${formatCurrency(totalPending)}
+${formatAccountBreakdown(accounts)}
+Total: ${formatCurrency(owner.currentCash)}
+Pending: ${formatCurrency(totalPending)}${totalOwed > 0 ? `\nSuppliers ko dena: ${formatCurrency(totalOwed)}` : ""}
 
 📅 *NEXT 3 DAYS*
 ${projections.map((p) => `${formatDate(p.date)}: ${formatCurrency(p.cash)} ${p.emoji}`).join("\n")}`;
@@ -86,16 +93,26 @@ Profit: ${formatCurrency(profit)} (${profitPercent}%) ${healthEmoji}
 
 Have a great day! 🙏`;
 
-  return brief;
+  return {
+    text: brief,
+    templateValues: {
+      name: owner.name || "",
+      cash: formatCurrency(owner.currentCash),
+      pending: formatCurrency(totalPending),
+      watch: watchItems[0] || "Sab theek ✓",
+    },
+  };
 }
 
 // Generate 3-day projection for morning brief
 async function generate3DayProjection(
   owner: NonNullable<Awaited<ReturnType<typeof db.owner.findUnique>>> & {
     staff: Array<{ name: string; salaryAmount: number; salaryType: string; paymentDay: number | null; advanceBalance: number }>;
-  }
-): Promise<Array<{ date: Date; cash: number; emoji: string }>> {
-  const projections: Array<{ date: Date; cash: number; emoji: string }> = [];
+  },
+  recurring: RecurringExpense[],
+  payables: OpenPayable[]
+): Promise<Array<{ date: Date; cash: Money; emoji: string }>> {
+  const projections: Array<{ date: Date; cash: Money; emoji: string }> = [];
   let runningCash = owner.currentCash;
 
   // Get daily expense average
@@ -106,12 +123,14 @@ async function generate3DayProjection(
     where: {
       ownerId: owner.id,
       type: "expense",
-      createdAt: { gte: thirtyDaysAgo },
+      source: { not: "recurring" }, // projected on their due dates below
+      supplierId: null, // supplier dues too
+      occurredAt: { gte: thirtyDaysAgo },
     },
     _avg: { amount: true },
   });
 
-  const dailyExpense = avgDailyExpense._avg.amount || 2000;
+  const dailyExpense = Math.round(avgDailyExpense._avg.amount || toPaise(2000));
 
   // Monthly salaries
   const monthlySalaries = owner.staff
@@ -131,18 +150,28 @@ async function generate3DayProjection(
       .filter((s) => s.day === dayOfMonth)
       .reduce((sum, s) => sum + s.amount, 0);
 
-    runningCash = runningCash - dailyExpense - salariesToday;
+    // Rent, EMIs and other fixed outflows due that day
+    const recurringToday = recurring.filter((r) => isDueOn(r, date));
+    const payablesToday = payables.filter((p) => isPayableDueOn(p, date));
+
+    runningCash = runningCash - dailyExpense - salariesToday
+      - sumMoney(recurringToday.map((r) => r.amount))
+      - sumMoney(payablesToday.map(payableBalance));
 
     let emoji = "✓";
     if (runningCash < 0) {
       emoji = "🔴";
     } else if (salariesToday > 0) {
       emoji = "⚠️ Salary!";
+    } else if (recurringToday.length > 0) {
+      emoji = `📌 ${recurringToday.map((r) => r.name).join(", ")}`;
+    } else if (payablesToday.length > 0) {
+      emoji = `🧾 ${payablesToday.map((p) => p.supplier.name).join(", ")}`;
     } else if (runningCash < dailyExpense * 2) {
       emoji = "🟡";
     }
 
-    projections.push({ date, cash: Math.round(runningCash), emoji });
+    projections.push({ date, cash: roundToRupee(runningCash), emoji });
   }
 
   return projections;
@@ -152,7 +181,10 @@ async function generate3DayProjection(
 async function getWatchItems(
   ownerId: string,
   staff: Array<{ name: string; salaryAmount: number; salaryType: string; paymentDay: number | null; advanceBalance: number }>,
-  currentCash: number
+  currentCash: Money,
+  accounts: AccountBalance[],
+  recurring: RecurringExpense[],
+  payables: OpenPayable[]
 ): Promise<string[]> {
   const items: string[] = [];
   const now = new Date();
@@ -169,15 +201,43 @@ async function getWatchItems(
     .filter((s) => s.daysLeft <= 5);
 
   if (daysUntilSalary.length > 0) {
-    const total = daysUntilSalary.reduce((sum, s) => sum + s.amount, 0);
     const days = Math.min(...daysUntilSalary.map((s) => s.daysLeft));
+    // Supplier dues falling before payday come out of the same money
+    const salaryDate = new Date(now);
+    salaryDate.setDate(salaryDate.getDate() + days);
+    const supplierDues = payablesDueBy(payables, salaryDate);
+    const total = daysUntilSalary.reduce((sum, s) => sum + s.amount, 0) + supplierDues;
+    const afterSuppliers = supplierDues > 0 ? " (supplier dues ke baad)" : "";
+    // Salaries go out as cash - total money can cover them while the drawer can't
+    const drawerCash = cashInHand(accounts);
     if (currentCash < total) {
-      items.push(`🔴 Salary in ${days} days - ${formatCurrency(total - currentCash)} short`);
+      items.push(`🔴 Salary in ${days} days - ${formatCurrency(total - currentCash)} short${afterSuppliers}`);
+    } else if (drawerCash < total) {
+      items.push(`🟡 Salary in ${days} days - cash ${formatCurrency(total - drawerCash)} kam${afterSuppliers}, bank/UPI se nikalo`);
     } else {
       items.push(`💰 Salary in ${days} days - ${formatCurrency(total)} covered`);
     }
   }
 
+  // Rent, EMIs and subscriptions due in the next 3 days that aren't paid yet
+  for (const expense of recurring) {
+    const dueDate = nextDueDate(expense, now);
+    const daysLeft = Math.round((dueDate.getTime() - new Date(now).setHours(0, 0, 0, 0)) / (1000 * 60 * 60 * 24));
+    if (daysLeft > 3 || (await findDuePayment(expense, dueDate))) continue;
+    items.push(`📌 ${expense.name} ${formatCurrency(expense.amount)} - ${daysLeft === 0 ? "aaj due" : `${daysLeft} din mein (${formatDate(dueDate)})`}`);
+  }
+
+  // Supplier dues in the next 3 days, overdue ones first
+  const startOfToday = new Date(now).setHours(0, 0, 0, 0);
+  for (const payable of payables) {
+    const dueDay = payableDueDay(payable, now);
+    if (!dueDay) continue;
+    const daysLeft = Math.round((dueDay.getTime() - startOfToday) / (1000 * 60 * 60 * 24));
+    if (daysLeft > 3) continue;
+    const overdue = payable.dueDate! < dueDay;
+    items.push(`🧾 ${payable.supplier.name} ${formatCurrency(payableBalance(payable))} - ${overdue ? `overdue since ${formatDate(payable.dueDate!)}` : daysLeft === 0 ? "aaj dena hai" : `${daysLeft} din mein (${formatDate(dueDay)})`}`);
+  }
+
   // Check for overdue receivables
   const overdueReceivables = await db.receivable.findMany({
     where: {
@@ -213,16 +273,22 @@ export async function sendEveningWrap(ownerId: string): Promise<void> {
 
   const wrap = await composeEveningWrap(owner);
 
-  await sendMessage({
-    to: owner.phone,
-    text: wrap,
-  });
+  const delivered = await sendOwnerMessage(
+    owner,
+    { text: wrap.text },
+    buildTemplateMessage(TEMPLATES.eveningWrap, wrap.templateValues)
+  );
+
+  // The owner's next bare amount is their galla count - but only if they actually saw the question;
+  // a held wrap or a bare template never asked it
+  if (!delivered) return;
+  await db.owner.update({ where: { id: owner.id }, data: { cashCountAskedAt: new Date() } });
 }
 
 // Compose evening wrap content
 async function composeEveningWrap(
   owner: NonNullable<Awaited<ReturnType<typeof db.owner.findUnique>>>
-): Promise<string> {
+): Promise<ComposedMessage> {
   const today = new Date();
   today.setHours(0, 0, 0, 0);
 
@@ -230,7 +296,7 @@ async function composeEveningWrap(
   const todayTransactions = await db.transaction.findMany({
     where: {
       ownerId: owner.id,
-      createdAt: { gte: today },
+      occurredAt: { gte: today },
     },
   });
 
@@ -284,9 +350,20 @@ async function composeEveningWrap(
     wrap += `\n✓ Normal day`;
   }
 
+  // Ask for the count without showing the expected figure, so the owner actually counts
+  wrap += `\n\n🧮 *Galla mein kitna hai?*\nGin ke batao (jaise "galla 12500") - hisaab se milake farak note kar lunga.`;
+
   wrap += `\n\nGood night! 🌙`;
 
-  return wrap;
+  return {
+    text: wrap,
+    templateValues: {
+      name: owner.name || "",
+      in: formatCurrency(todayIn),
+      out: formatCurrency(todayOut),
+      cash: formatCurrency(owner.currentCash),
+    },
+  };
 }
 
 // Send salary reminder alert
@@ -323,7 +400,14 @@ export async function sendSalaryReminder(ownerId: string): Promise<void> {
     0
   );
 
-  const shortfall = totalDue - owner.currentCash;
+  // Supplier dues before payday come out of the same cash
+  const salaryDate = new Date(now);
+  salaryDate.setDate(salaryDate.getDate() + 3);
+  const suppliersFirst = payablesDueBy(await getOpenPayables(owner.id), salaryDate);
+  const available = owner.currentCash - suppliersFirst;
+  const supplierLine = suppliersFirst > 0 ? `\n🧾 Suppliers ko pehle: ${formatCurrency(suppliersFirst)}` : "";
+
+  const shortfall = totalDue - available;
 
   let alert: string;
 
@@ -342,7 +426,7 @@ Due in 3 days:
 ${staffWithUpcomingSalary.map((s) => `• ${s.name}: ${formatCurrency(s.salaryAmount - s.advanceBalance)}`).join("\n")}
 Total: ${formatCurrency(totalDue)}
 
-💰 Current cash: ${formatCurrency(owner.currentCash)}
+💰 Current cash: ${formatCurrency(owner.currentCash)}${supplierLine}
 📉 Shortfall: ${formatCurrency(shortfall)}`;
 
     if (pendingReceivables.length > 0) {
@@ -358,12 +442,115 @@ Due in 3 days:
 ${staffWithUpcomingSalary.map((s) => `• ${s.name}: ${formatCurrency(s.salaryAmount - s.advanceBalance)}`).join("\n")}
 Total: ${formatCurrency(totalDue)}
 
-💰 Cash: ${formatCurrency(owner.currentCash)}
+💰 Cash: ${formatCurrency(owner.currentCash)}${supplierLine}
 ✅ Status: Covered`;
+
+    const drawerCash = cashInHand(await getAccountBalances(owner.id)) - suppliersFirst;
+    if (drawerCash < totalDue) {
+      alert += `\n\n💵 Cash drawer${suppliersFirst > 0 ? " (after suppliers)" : ""}: ${formatCurrency(drawerCash)}\n💡 Salary se pehle ${formatCurrency(totalDue - drawerCash)} bank/UPI se nikalo`;
+    }
   }
 
-  await sendMessage({
-    to: owner.phone,
-    text: alert,
+  await sendOwnerMessage(
+    owner,
+    { text: alert },
+    buildTemplateMessage(TEMPLATES.salaryReminder, {
+      name: owner.name || "",
+      total: formatCurrency(totalDue),
+      cash: formatCurrency(owner.currentCash),
+      status: shortfall > 0 ? `${formatCurrency(shortfall)} short` : "covered",
+    })
+  );
+}
+
+// Handle recurring expenses due today: log the auto-logged ones, ask about the rest
+// Returns how many were due
+export async function sendRecurringExpenseReminders(ownerId: string): Promise<number> {
+  const owner = await db.owner.findUnique({
+    where: { id: ownerId },
   });
+
+  if (!owner || owner.onboardingStep !== "COMPLETE") {
+    return 0;
+  }
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const due = (await getRecurringExpenses(ownerId)).filter((r) => isDueOn(r, today));
+
+  for (const expense of due) {
+    // Already logged by hand (or by an earlier run)
+    if (await findDuePayment(expense, today)) continue;
+
+    const schedule = `${formatCurrency(expense.amount)} (${describeSchedule(expense)})`;
+
+    if (expense.autoLog) {
+      const { cash } = await logRecurringExpense(expense, today);
+      await sendOwnerMessage(
+        owner,
+        { text: `🔁 *${expense.name}* logged\n\n📤 ${schedule}${cash !== null ? `\n💰 Cash: ${formatCurrency(cash)}` : ""}\n\nGalat hai to "undo" bolo.` },
+        buildTemplateMessage(TEMPLATES.recurringDue, { name: owner.name || "", expense: expense.name, amount: formatCurrency(expense.amount) })
+      );
+      continue;
+    }
+
+    await sendOwnerMessage(
+      owner,
+      {
+        text: `📌 *${expense.name}* aaj due hai\n\n${schedule}\n\nDe diya?`,
+        buttons: [
+          { id: `recurring_paid:${expense.id}`, title: "✅ Paid" },
+          { id: `recurring_skip:${expense.id}`, title: "Skip" },
+        ],
+      },
+      buildTemplateMessage(TEMPLATES.recurringDue, { name: owner.name || "", expense: expense.name, amount: formatCurrency(expense.amount) })
+    );
+  }
+
+  return due.length;
+}
+
+// Send pending alerts (and snoozed ones that are due again) with Dismiss / Snooze buttons
+export async function sendPendingAlerts(ownerId: string): Promise<number> {
+  const owner = await db.owner.findUnique({
+    where: { id: ownerId },
+  });
+
+  if (!owner || owner.onboardingStep !== "COMPLETE") {
+    return 0;
+  }
+
+  const alerts = await db.alert.findMany({
+    where: {
+      ownerId,
+      OR: [
+        { status: "pending" },
+        { status: "snoozed", snoozedUntil: { lte: new Date() } },
+      ],
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  for (const alert of alerts) {
+    const emoji = alert.severity === "critical" ? "🔴" : alert.severity === "warning" ? "⚠️" : "ℹ️";
+
+    await sendOwnerMessage(
+      owner,
+      {
+        text: `${emoji} *${alert.title}*\n\n${alert.message}`,
+        buttons: [
+          { id: `alert_dismiss:${alert.id}`, title: "Dismiss" },
+          { id: `alert_snooze:${alert.id}`, title: "Snooze 1 day" },
+        ],
+      },
+      buildTemplateMessage(TEMPLATES.alert, { title: alert.title, message: alert.message })
+    );
+
+    await db.alert.update({
+      where: { id: alert.id },
+      data: { status: "sent", sentAt: new Date() },
+    });
+  }
+
+  return alerts.length;
 }
@@ -0,0 +1,58 @@
+import { amendLastAction, undoLastAction, type ActionSummary } from "@/lib/actions";
+import type { Intent } from "@/lib/ai";
+import { formatCurrency } from "@/lib/whatsapp";
+import { toPaise } from "@/lib/money";
+
+interface CorrectionResponse {
+  text: string;
+  ownerId: string;
+}
+
+const KIND_LABELS: Record<ActionSummary["kind"], string> = {
+  expense: "Expense",
+  income: "Payment",
+  salary: "Salary",
+  advance: "Advance",
+  credit_sale: "Udhaar",
+  transfer: "Transfer",
+  credit_purchase: "Supplier udhaar",
+  supplier_payment: "Supplier payment",
+};
+
+// "undo" / "galat tha" - reverse the last logged action
+export async function handleUndo(ownerId: string): Promise<CorrectionResponse> {
+  const result = await undoLastAction(ownerId);
+
+  if (!result.success) {
+    return { text: `🤷 ${result.error}`, ownerId };
+  }
+
+  const { action } = result;
+  return {
+    text: `↩️ *Undone*\n\n${KIND_LABELS[action.kind]}: ${action.description} - ${formatCurrency(action.amount)}\n\n💰 Cash: ${formatCurrency(result.cash)}\n\nAur peeche jaana hai? "Undo" phir bolo.`,
+    ownerId,
+  };
+}
+
+// "last wala 2000 karo" - re-book the last action at the corrected amount
+export async function handleCorrection(ownerId: string, message: string, intent: Intent): Promise<CorrectionResponse> {
+  const amountMatch = message.match(/(\d[\d,]*)/);
+  const amount = toPaise(intent.entities?.amounts?.[0]?.value
+    ?? (amountMatch ? parseInt(amountMatch[1].replace(/,/g, "")) : 0));
+
+  if (!amount) {
+    return { text: `🤔 Sahi amount kya hai? Example: "Last wala 2000 karo"`, ownerId };
+  }
+
+  const result = await amendLastAction(ownerId, amount);
+
+  if (!result.success) {
+    return { text: `🤷 ${result.error}`, ownerId };
+  }
+
+  const { action } = result;
+  return {
+    text: `✏️ *Corrected*\n\n${KIND_LABELS[action.kind]}: ${action.description}\n${formatCurrency(result.previousAmount || 0)} → ${formatCurrency(action.amount)}\n\n💰 Cash: ${formatCurrency(result.cash)}`,
+    ownerId,
+  };
+}
@@ -0,0 +1,121 @@
+import { db } from "@/lib/db";
+import { sendMessage } from "@/lib/outbound";
+import { formatCurrency, type InteractiveReply } from "@/lib/whatsapp";
+import { lastDueDate, logRecurringExpense } from "@/lib/recurring";
+import { handleStaff } from "./staff";
+import type { MessageResponse } from "./message-router";
+
+const SNOOZE_HOURS = 24;
+
+// Button/list ids are "<action>:<recordId>", e.g. "pay_salary:clx123"
+export function parseActionId(id: string): { action: string; targetId: string } | null {
+  const separator = id.indexOf(":");
+  if (separator <= 0) return null;
+  return { action: id.slice(0, separator), targetId: id.slice(separator + 1) };
+}
+
+// Handle a tapped reply button or list row
+// Returns null for unknown actions so the caller can fall back to the agent
+export async function handleInteractiveAction(
+  phone: string,
+  reply: InteractiveReply
+): Promise<MessageResponse | null> {
+  const parsed = parseActionId(reply.id);
+  if (!parsed) return null;
+
+  const owner = await db.owner.findUnique({
+    where: { phone },
+    include: { staff: { where: { isActive: true } } },
+  });
+
+  if (!owner || owner.onboardingStep !== "COMPLETE") return null;
+
+  switch (parsed.action) {
+    case "pay_salary": {
+      const staff = owner.staff.find((s) => s.id === parsed.targetId);
+      if (!staff) {
+        return { text: "❌ Staff member nahi mila.", ownerId: owner.id };
+      }
+      return handleStaff({ owner, message: `${staff.name} salary done`, action: "salary_paid" });
+    }
+
+    case "recurring_paid":
+    case "recurring_skip": {
+      const expense = await db.recurringExpense.findFirst({
+        where: { id: parsed.targetId, ownerId: owner.id },
+      });
+      if (!expense) {
+        return { text: "❌ Recurring expense nahi mila.", ownerId: owner.id };
+      }
+
+      if (parsed.action === "recurring_skip") {
+        return { text: `⏭️ ${expense.name} is baar skip kiya.`, ownerId: owner.id };
+      }
+
+      const { cash, alreadyLogged } = await logRecurringExpense(expense, lastDueDate(expense));
+      if (alreadyLogged) {
+        return { text: `✅ ${expense.name} already logged hai.`, ownerId: owner.id };
+      }
+      return {
+        text: `✅ *Logged*\n\n📤 ${expense.name}: ${formatCurrency(expense.amount)}\n\n💰 Cash: ${formatCurrency(cash ?? owner.currentCash)}`,
+        ownerId: owner.id,
+      };
+    }
+
+    case "remind":
+      return sendPaymentReminder(owner.id, owner.businessName || owner.name || "Saarathi", parsed.targetId);
+
+    case "alert_dismiss":
+    case "alert_snooze": {
+      const alert = await db.alert.findFirst({
+        where: { id: parsed.targetId, ownerId: owner.id },
+      });
+      if (!alert) {
+        return { text: "❌ Alert nahi mila.", ownerId: owner.id };
+      }
+
+      if (parsed.action === "alert_dismiss") {
+        await db.alert.update({ where: { id: alert.id }, data: { status: "dismissed" } });
+        return { text: `✅ Alert dismissed: ${alert.title}`, ownerId: owner.id };
+      }
+
+      const snoozedUntil = new Date(Date.now() + SNOOZE_HOURS * 60 * 60 * 1000);
+      await db.alert.update({ where: { id: alert.id }, data: { status: "snoozed", snoozedUntil } });
+      return { text: `⏰ Kal phir yaad dilaunga: ${alert.title}`, ownerId: owner.id };
+    }
+
+    default:
+      return null;
+  }
+}
+
+// Send a one-off payment reminder to the customer behind a receivable
+async function sendPaymentReminder(ownerId: string, businessName: string, receivableId: string): Promise<MessageResponse> {
+  const receivable = await db.receivable.findFirst({
+    where: { id: receivableId, ownerId },
+    include: { customer: true },
+  });
+
+  if (!receivable || receivable.status === "paid") {
+    return { text: "✅ Yeh payment already clear hai.", ownerId };
+  }
+
+  const remaining = receivable.amount - receivable.amountPaid;
+
+  if (!receivable.customer.phone) {
+    return {
+      text: `📵 ${receivable.customer.name} ka phone number saved nahi hai, reminder nahi bhej sakte.`,
+      ownerId,
+    };
+  }
+
+  await sendMessage({
+    to: receivable.customer.phone,
+    text: `🙏 Namaste!\n\n${businessName} ki taraf se yaad dila rahe hain — ${formatCurrency(remaining)} baaki hai.\n\nDhanyavaad 🙏`,
+  });
+
+  return {
+    text: `📤 Reminder sent to ${receivable.customer.name} (${formatCurrency(remaining)})`,
+    ownerId,
+  };
+}
@@ -1,8 +1,10 @@
 import { db } from "@/lib/db";
 import { detectIntent, type Intent } from "@/lib/ai";
+import type { ListMessage, ReplyButton } from "@/lib/whatsapp";
 import { handleOnboarding } from "./onboarding";
 import { handleTransaction } from "./transaction";
 import { handleStaff } from "./staff";
+import { handleCorrection, handleUndo } from "./corrections";
 import { handleStatusQuery, handleProjectionQuery, handlePendingQuery, handleStaffQuery, handleProfitQuery } from "./queries";
 
 export interface MessageContext {
@@ -15,6 +17,8 @@ export interface MessageContext {
 export interface MessageResponse {
   text: string;
   ownerId?: string;
+  buttons?: ReplyButton[];
+  list?: ListMessage;
 }
 
 // Main message router - determines intent and routes to appropriate handler
@@ -80,6 +84,7 @@ async function routeByIntent(
         owner: owner as Parameters<typeof handleTransaction>[0]["owner"],
         message,
         type: "expense",
+        dates: intent.entities?.dates,
       });
 
     case "log_income":
@@ -88,6 +93,7 @@ async function routeByIntent(
         owner: owner as Parameters<typeof handleTransaction>[0]["owner"],
         message,
         type: "income",
+        dates: intent.entities?.dates,
       });
 
     case "salary_paid":
@@ -95,6 +101,8 @@ async function routeByIntent(
         owner: owner as Parameters<typeof handleStaff>[0]["owner"],
         message,
         action: "salary_paid",
+        dates: intent.entities?.dates,
+        amount: intent.entities?.amounts?.[0]?.value,
       });
 
     case "advance_given":
@@ -102,6 +110,8 @@ async function routeByIntent(
         owner: owner as Parameters<typeof handleStaff>[0]["owner"],
         message,
         action: "advance",
+        dates: intent.entities?.dates,
+        amount: intent.entities?.amounts?.[0]?.value,
       });
 
     case "add_staff":
@@ -111,6 +121,12 @@ async function routeByIntent(
         action: "add",
       });
 
+    case "undo_last":
+      return handleUndo(owner.id);
+
+    case "correct_last":
+      return handleCorrection(owner.id, message, intent);
+
     case "status_query":
       return handleStatusQuery(owner as Parameters<typeof handleStatusQuery>[0]);
 
@@ -134,7 +150,7 @@ async function routeByIntent(
 
     case "help":
       return {
-        text: `📚 *HELP*\n\n*Log Transactions:*\n• "Sabzi 2000, gas 900"\n• "Sharma se 5000 mila"\n• "Ramu salary done"\n\n*Check Status:*\n• "Status batao"\n• "Next week kaisa hai"\n• "Profit kitna hua"\n• "Kaun kitna dena hai"\n\n*Staff:*\n• "Staff add karo"\n• "Ramu ko 2000 advance"`,
+        text: `📚 *HELP*\n\n*Log Transactions:*\n• "Sabzi 2000, gas 900"\n• "Sharma se 5000 mila"\n• "Ramu salary done"\n\n*Check Status:*\n• "Status batao"\n• "Next week kaisa hai"\n• "Profit kitna hua"\n• "Kaun kitna dena hai"\n\n*Staff:*\n• "Staff add karo"\n• "Ramu ko 2000 advance"\n\n*Galti hui?*\n• "Undo"\n• "Last wala 2000 karo"`,
         ownerId: owner.id,
       };
 
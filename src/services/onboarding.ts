@@ -1,6 +1,8 @@
 import { db, type Owner } from "@/lib/db";
 import { parseStaffInput } from "@/lib/ai";
 import { formatCurrency } from "@/lib/whatsapp";
+import { postEntry, setCashBalance } from "@/lib/ledger";
+import { toPaise } from "@/lib/money";
 
 interface OnboardingContext {
   owner: Owner & {
@@ -128,16 +130,15 @@ async function handleCash(owner: Owner, message: string): Promise<OnboardingResp
     };
   }
 
+  const cash = toPaise(amount);
+  await setCashBalance(owner.id, cash, "Opening cash");
   await db.owner.update({
     where: { id: owner.id },
-    data: {
-      currentCash: amount,
-      onboardingStep: "STAFF",
-    },
+    data: { onboardingStep: "STAFF" },
   });
 
   return {
-    text: `✅ Cash: ${formatCurrency(amount)}
+    text: `✅ Cash: ${formatCurrency(cash)}
 
 👥 *Staff hai? Kitne log, kitni salary?*
 
@@ -188,7 +189,7 @@ Ya "skip" if nothing pending`,
       const match = line.match(/([a-zA-Z]+)\s+(\d+)/i);
       if (match) {
         const name = match[1].trim();
-        const amount = parseInt(match[2]);
+        const amount = toPaise(parseInt(match[2]));
         const isDaily = /daily/i.test(line);
         const dayMatch = line.match(/(\d+)(st|nd|rd|th)?/);
         const paymentDay = !isDaily && dayMatch ? parseInt(dayMatch[1]) : null;
@@ -211,7 +212,7 @@ Ya "skip" if nothing pending`,
         data: {
           ownerId: owner.id,
           name: staff.name,
-          salaryAmount: staff.salaryAmount,
+          salaryAmount: toPaise(staff.salaryAmount),
           salaryType: staff.salaryType,
           paymentDay: staff.paymentDay || 1,
         },
@@ -280,7 +281,7 @@ async function handlePending(owner: Owner, message: string): Promise<OnboardingR
     const match = line.match(/([a-zA-Z\s]+?)\s+(\d+)/i);
     if (match) {
       const name = match[1].trim();
-      const amount = parseInt(match[2]);
+      const amount = toPaise(parseInt(match[2]));
 
       // Create customer and receivable
       const customer = await db.customer.create({
@@ -304,6 +305,14 @@ async function handlePending(owner: Owner, message: string): Promise<OnboardingR
     }
   }
 
+  // Udhaar from before they joined - an opening balance, not today's income
+  if (totalPending > 0) {
+    await postEntry(owner.id, "Opening receivables", [
+      { account: "receivables", amount: totalPending },
+      { account: "equity", amount: -totalPending },
+    ]);
+  }
+
   if (addedCustomers.length === 0) {
     return {
       text: `🤔 Details samajh nahi aaye.\n\nFormat: "TechPark 12000"\nYa "skip" to continue`,
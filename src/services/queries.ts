@@ -1,9 +1,16 @@
 import { db, type Owner } from "@/lib/db";
-import { formatCurrency, formatDate } from "@/lib/whatsapp";
+import { formatCurrency, formatDate, type ListMessage } from "@/lib/whatsapp";
+import { cashInHand, formatAccountBreakdown, getAccountBalances } from "@/lib/accounts";
+import { roundToRupee, scaleMoney, sumMoney, type Money } from "@/lib/money";
+import { getRecurringExpenses, isDueOn } from "@/lib/recurring";
+import { getOpenPayables, isPayableDueOn, payableBalance, payablesDueBy } from "@/lib/payables";
+import { getCashCountHistory } from "@/lib/cash-count";
+import { getProfitAndLoss } from "@/lib/ledger";
 
 interface QueryResponse {
   text: string;
   ownerId: string;
+  list?: ListMessage;
 }
 
 type OwnerWithRelations = Owner & {
@@ -23,20 +30,8 @@ export async function handleStatusQuery(owner: OwnerWithRelations): Promise<Quer
   });
   const totalPending = (pendingReceivables._sum.amount || 0) - (pendingReceivables._sum.amountPaid || 0);
 
-  // Get this month's transactions
-  const monthlyTransactions = await db.transaction.groupBy({
-    by: ["type"],
-    where: {
-      ownerId: owner.id,
-      createdAt: { gte: startOfMonth },
-    },
-    _sum: { amount: true },
-  });
-
-  const income = monthlyTransactions.find((t) => t.type === "income")?._sum.amount || 0;
-  const expenses = monthlyTransactions.find((t) => t.type === "expense")?._sum.amount || 0;
-  const salaries = monthlyTransactions.find((t) => t.type === "salary")?._sum.amount || 0;
-  const totalExpenses = expenses + salaries;
+  // This month's P&L, from the ledger
+  const { income, expenses: totalExpenses } = await getProfitAndLoss(owner.id, startOfMonth);
   const profit = income - totalExpenses;
   const profitPercent = income > 0 ? Math.round((profit / income) * 100) : 0;
 
@@ -46,26 +41,49 @@ export async function handleStatusQuery(owner: OwnerWithRelations): Promise<Quer
   const totalMonthlySalary = monthlyStaff.reduce((sum, s) => sum + s.salaryAmount, 0);
 
   // Calculate remaining salaries
-  const paidSalaries = salaries;
+  const salaryPayments = await db.transaction.aggregate({
+    where: { ownerId: owner.id, type: "salary", occurredAt: { gte: startOfMonth } },
+    _sum: { amount: true },
+  });
+  const paidSalaries = salaryPayments._sum.amount || 0;
   const remainingSalaries = Math.max(0, totalMonthlySalary - paidSalaries);
 
+  // What's owed to suppliers, and how much of it falls due this month
+  const payables = await getOpenPayables(owner.id);
+  const totalOwed = sumMoney(payables.map(payableBalance));
+  const endOfMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0);
+  const suppliersDue = payablesDueBy(payables, endOfMonth);
+
+  // Salaries are paid from the drawer, so coverage is judged on cash in hand
+  // left after this month's supplier dues
+  const accounts = await getAccountBalances(owner.id);
+  const drawerCash = cashInHand(accounts) - suppliersDue;
+  const totalCash = owner.currentCash - suppliersDue;
+
   // Determine health emoji
   const healthEmoji = profit >= 0 ? "💚" : "🔴";
-  const statusEmoji = owner.currentCash >= remainingSalaries ? "✅" : "⚠️";
+  const statusEmoji = drawerCash >= remainingSalaries ? "✅" : "⚠️";
+
+  let coverage = drawerCash >= remainingSalaries ? "OK" : `${formatCurrency(remainingSalaries - drawerCash)} short`;
+  if (drawerCash < remainingSalaries && totalCash >= remainingSalaries) {
+    coverage += ` in cash - ${formatCurrency(remainingSalaries - drawerCash)} bank/UPI se nikalo`;
+  }
+  if (suppliersDue > 0) coverage += ` (after ${formatCurrency(suppliersDue)} supplier dues)`;
 
   const response = `📊 *BUSINESS STATUS*
 ━━━━━━━━━━━━━━━━━━
 
-💰 *Cash:* ${formatCurrency(owner.currentCash)}
+💰 *Total:* ${formatCurrency(owner.currentCash)}
+${formatAccountBreakdown(accounts)}
 📥 *Pending:* ${formatCurrency(totalPending)}
-📤 *Due:* ${formatCurrency(remainingSalaries)} (salaries)
+📤 *Due:* ${formatCurrency(remainingSalaries)} (salaries)${totalOwed > 0 ? `\n🧾 *Suppliers ko dena:* ${formatCurrency(totalOwed)}${suppliersDue > 0 ? ` (${formatCurrency(suppliersDue)} this month)` : ""}` : ""}
 
 ${healthEmoji} *${now.toLocaleString("en-IN", { month: "long" })}:*
 • Revenue: ${formatCurrency(income)}
 • Expenses: ${formatCurrency(totalExpenses)}
 • Profit: ${formatCurrency(profit)} (${profitPercent}%)
 
-${statusEmoji} Salary coverage: ${owner.currentCash >= remainingSalaries ? "OK" : `₹${remainingSalaries - owner.currentCash} short`}`;
+${statusEmoji} Salary coverage: ${coverage}`;
 
   return {
     text: response,
@@ -130,13 +148,22 @@ ${lines.join("\n")}`;
 export async function handlePendingQuery(owner: OwnerWithRelations): Promise<QueryResponse> {
   const receivables = await db.receivable.findMany({
     where: { ownerId: owner.id, status: { in: ["pending", "partial"] } },
-    include: { customer: true },
+    include: { customer: true, reminders: { orderBy: { createdAt: "desc" }, take: 1 } },
     orderBy: { createdAt: "asc" },
   });
 
+  // Customers who paid ahead - their next udhaar comes out of this first
+  const credits = await db.customer.findMany({
+    where: { ownerId: owner.id, creditBalance: { gt: 0 } },
+    orderBy: { creditBalance: "desc" },
+  });
+  const creditNote = credits.length > 0
+    ? `\n\n💳 *Advance / credit:*\n${credits.map((c) => `• ${c.name}: ${formatCurrency(c.creditBalance)}`).join("\n")}`
+    : "";
+
   if (receivables.length === 0) {
     return {
-      text: "✅ No pending payments! Sab clear hai.",
+      text: `✅ No pending payments! Sab clear hai.${creditNote}`,
       ownerId: owner.id,
     };
   }
@@ -147,12 +174,25 @@ export async function handlePendingQuery(owner: OwnerWithRelations): Promise<Que
     const remaining = r.amount - r.amountPaid;
     const daysOld = Math.floor((Date.now() - r.createdAt.getTime()) / (1000 * 60 * 60 * 24));
     const statusEmoji = daysOld > 14 ? "⚠️" : daysOld > 7 ? "🟡" : "";
-    return `• ${r.customer.name}: ${formatCurrency(remaining)} (${daysOld}d) ${statusEmoji}`;
+    const reminded = r.reminders[0] ? ` - ${r.reminders[0].step} reminder ${formatDate(r.reminders[0].createdAt)}` : "";
+    return `• ${r.customer.name}: ${formatCurrency(remaining)} (${daysOld}d)${reminded} ${statusEmoji}`;
   });
 
   return {
-    text: `📋 *PENDING PAYMENTS*\n\nTotal: ${formatCurrency(total)}\n\n${lines.join("\n")}\n\nRemind karna hai? Name bolo.`,
+    text: `📋 *PENDING PAYMENTS*\n\nTotal: ${formatCurrency(total)}\n\n${lines.join("\n")}${creditNote}\n\nRemind karna hai? Name bolo.`,
     ownerId: owner.id,
+    list: {
+      buttonText: "Send reminder",
+      sections: [
+        {
+          rows: receivables.slice(0, 10).map((r) => ({
+            id: `remind:${r.id}`,
+            title: r.customer.name,
+            description: `${formatCurrency(r.amount - r.amountPaid)} pending`,
+          })),
+        },
+      ],
+    },
   };
 }
 
@@ -180,7 +220,7 @@ export async function handleStaffQuery(owner: OwnerWithRelations): Promise<Query
         ownerId: owner.id,
         staffId: staff.id,
         type: "salary",
-        createdAt: { gte: startOfMonth },
+        occurredAt: { gte: startOfMonth },
       },
     });
 
@@ -190,7 +230,7 @@ export async function handleStaffQuery(owner: OwnerWithRelations): Promise<Query
       } else {
         const due = staff.salaryAmount - staff.advanceBalance;
         totalDue += due;
-        lines.push(`• ${staff.name}: ${formatCurrency(due)} pending${staff.advanceBalance > 0 ? ` (after ₹${staff.advanceBalance} advance)` : ""}`);
+        lines.push(`• ${staff.name}: ${formatCurrency(due)} pending${staff.advanceBalance > 0 ? ` (after ${formatCurrency(staff.advanceBalance)} advance)` : ""}`);
       }
     } else {
       lines.push(`• ${staff.name}: ${formatCurrency(staff.salaryAmount)}/day`);
@@ -200,10 +240,16 @@ export async function handleStaffQuery(owner: OwnerWithRelations): Promise<Query
   let response = `👥 *STAFF STATUS*\n\n${lines.join("\n")}`;
 
   if (totalDue > 0) {
+    // Supplier dues this month come out of the same cash
+    const endOfMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0);
+    const suppliersDue = payablesDueBy(await getOpenPayables(owner.id), endOfMonth);
+    const available = owner.currentCash - suppliersDue;
+    const afterSuppliers = suppliersDue > 0 ? ` after ${formatCurrency(suppliersDue)} supplier dues` : "";
+
     response += `\n\n💰 Total pending: ${formatCurrency(totalDue)}`;
-    response += owner.currentCash >= totalDue
-      ? `\n✅ Cash available: ${formatCurrency(owner.currentCash)}`
-      : `\n⚠️ Cash: ${formatCurrency(owner.currentCash)} (${formatCurrency(totalDue - owner.currentCash)} short)`;
+    response += available >= totalDue
+      ? `\n✅ Cash available: ${formatCurrency(available)}${afterSuppliers}`
+      : `\n⚠️ Cash: ${formatCurrency(available)}${afterSuppliers} (${formatCurrency(totalDue - available)} short)`;
   }
 
   return {
@@ -218,28 +264,8 @@ export async function handleProfitQuery(owner: OwnerWithRelations): Promise<Quer
   const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
   const monthName = now.toLocaleString("en-IN", { month: "long" });
 
-  // Get transactions grouped by type and category
-  const transactions = await db.transaction.findMany({
-    where: {
-      ownerId: owner.id,
-      createdAt: { gte: startOfMonth },
-    },
-  });
-
-  const income = transactions
-    .filter((t) => t.type === "income")
-    .reduce((sum, t) => sum + t.amount, 0);
-
-  // Group expenses by category
-  const expensesByCategory: Record<string, number> = {};
-  for (const t of transactions) {
-    if (t.type === "expense" || t.type === "salary" || t.type === "advance") {
-      const category = t.category || "other";
-      expensesByCategory[category] = (expensesByCategory[category] || 0) + t.amount;
-    }
-  }
-
-  const totalExpenses = Object.values(expensesByCategory).reduce((sum, v) => sum + v, 0);
+  // From the ledger, so credit sales and purchases count in the month they happened
+  const { income, expenses: totalExpenses, expensesByCategory } = await getProfitAndLoss(owner.id, startOfMonth);
   const profit = income - totalExpenses;
   const profitPercent = income > 0 ? Math.round((profit / income) * 100) : 0;
 
@@ -254,6 +280,15 @@ export async function handleProfitQuery(owner: OwnerWithRelations): Promise<Quer
 
   const profitEmoji = profit >= 0 ? "🎉" : "⚠️";
 
+  // Galla counts that didn't match the books - already inside the figures above as "unrecorded"
+  const counts = await getCashCountHistory(owner.id, startOfMonth);
+  const mismatches = counts.counts.filter((c) => c.difference !== 0).length;
+  const countLine = counts.counts.length > 0
+    ? `\n\n🧮 Galla count: ${counts.counts.length} din gina, ${mismatches} din farak` +
+      (counts.unrecordedExpenses > 0 ? `\n• ${formatCurrency(counts.unrecordedExpenses)} kam (unrecorded kharcha)` : "") +
+      (counts.unrecordedSales > 0 ? `\n• ${formatCurrency(counts.unrecordedSales)} zyada (unrecorded sale)` : "")
+    : "";
+
   return {
     text: `📈 *${monthName.toUpperCase()} P&L*
 
@@ -264,7 +299,7 @@ ${expenseLines.join("\n")}
 ━━━━━━━━━━━━━━━━━━
 Total: ${formatCurrency(totalExpenses)}
 ━━━━━━━━━━━━━━━━━━
-*PROFIT: ${formatCurrency(profit)} (${profitPercent}%)* ${profitEmoji}`,
+*PROFIT: ${formatCurrency(profit)} (${profitPercent}%)* ${profitEmoji}${countLine}`,
     ownerId: owner.id,
   };
 }
@@ -272,8 +307,8 @@ Total: ${formatCurrency(totalExpenses)}
 // Helper: Generate 7-day projections
 async function generateProjections(
   owner: OwnerWithRelations
-): Promise<Array<{ date: Date; cash: number; flags: string[]; note?: string }>> {
-  const projections: Array<{ date: Date; cash: number; flags: string[]; note?: string }> = [];
+): Promise<Array<{ date: Date; cash: Money; flags: string[]; note?: string }>> {
+  const projections: Array<{ date: Date; cash: Money; flags: string[]; note?: string }> = [];
   let runningCash = owner.currentCash;
 
   // Get historical averages (last 30 days)
@@ -283,18 +318,14 @@ async function generateProjections(
   const historicalTransactions = await db.transaction.findMany({
     where: {
       ownerId: owner.id,
-      createdAt: { gte: thirtyDaysAgo },
+      occurredAt: { gte: thirtyDaysAgo },
     },
   });
 
   // Calculate daily averages
-  const dailyExpenses = historicalTransactions
-    .filter((t) => t.type === "expense")
-    .reduce((sum, t) => sum + t.amount, 0) / 30;
-
-  const dailyIncome = historicalTransactions
-    .filter((t) => t.type === "income")
-    .reduce((sum, t) => sum + t.amount, 0) / 30;
+  // Recurring expenses and supplier dues are projected on their due dates, so keep them out of the daily average
+  const dailyExpenses = scaleMoney(sumMoney(historicalTransactions.filter((t) => t.type === "expense" && t.source !== "recurring" && !t.supplierId).map((t) => t.amount)), 1 / 30);
+  const dailyIncome = scaleMoney(sumMoney(historicalTransactions.filter((t) => t.type === "income").map((t) => t.amount)), 1 / 30);
 
   // Get staff salary dates
   const staff = owner.staff || [];
@@ -306,6 +337,9 @@ async function generateProjections(
       day: s.paymentDay || 1,
     }));
 
+  const recurring = await getRecurringExpenses(owner.id);
+  const payables = await getOpenPayables(owner.id);
+
   // Generate projections for next 7 days
   for (let i = 0; i < 7; i++) {
     const date = new Date();
@@ -321,8 +355,14 @@ async function generateProjections(
     const salaryAmount = salariesDue.reduce((sum, s) => sum + s.amount, 0);
 
     // Estimate daily cash flow
-    const expectedIn = dailyIncome * (dayOfWeek === 0 || dayOfWeek === 6 ? 1.3 : 1); // Weekend boost
-    const expectedOut = dailyExpenses + salaryAmount;
+    const expectedIn = scaleMoney(dailyIncome, dayOfWeek === 0 || dayOfWeek === 6 ? 1.3 : 1); // Weekend boost
+    // Rent, EMIs and subscriptions due that day
+    const recurringDue = recurring.filter((r) => isDueOn(r, date));
+    // Supplier dues on their due date - overdue ones today
+    const payablesDue = payables.filter((p) => isPayableDueOn(p, date));
+    const expectedOut = dailyExpenses + salaryAmount
+      + sumMoney(recurringDue.map((r) => r.amount))
+      + sumMoney(payablesDue.map(payableBalance));
 
     runningCash = runningCash + expectedIn - expectedOut;
 
@@ -336,12 +376,18 @@ async function generateProjections(
       if (runningCash < salaryAmount) {
         note += ` - ${formatCurrency(salaryAmount - runningCash)} short`;
       }
+    } else if (recurringDue.length > 0) {
+      flags.push("recurring_due");
+      note = recurringDue.map((r) => `${r.name} ${formatCurrency(r.amount)}`).join(", ");
+    } else if (payablesDue.length > 0) {
+      flags.push("payable_due");
+      note = payablesDue.map((p) => `${p.supplier.name} ${formatCurrency(payableBalance(p))}`).join(", ");
     } else if (runningCash < dailyExpenses * 3) {
       flags.push("low_cash");
       note = "Low buffer";
     }
 
-    projections.push({ date, cash: Math.round(runningCash), flags, note });
+    projections.push({ date, cash: roundToRupee(runningCash), flags, note });
   }
 
   return projections;
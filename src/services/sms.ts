@@ -0,0 +1,150 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { db, isUniqueViolation, type Customer, type Transaction } from "@/lib/db";
+import { counterpartyName, parseBankSms, type ParsedBankSms } from "@/lib/sms-parser";
+import { formatCurrency } from "@/lib/whatsapp";
+import { expenseEntry, incomeEntry, withAccount } from "@/lib/ledger";
+import { resolveBankAccount } from "@/lib/accounts";
+import { toPaise, type Money } from "@/lib/money";
+import { bookAction } from "@/lib/actions";
+import { applyCustomerPayment, formatPaymentBreakdown, paymentState, type PaymentApplication } from "@/lib/receivables";
+import { categorize } from "@/lib/categories";
+
+interface SmsIngestResult {
+  status: "logged" | "duplicate" | "ignored";
+  text: string;
+  transactionId?: string;
+  parsed?: ParsedBankSms;
+}
+
+// Check the forwarder's X-SMS-Secret header against SMS_INGEST_SECRET
+// Forwarder apps can only add a fixed header, so this is a shared secret rather than an HMAC.
+// Both sides are hashed first so the comparison is constant-time whatever the lengths.
+export function verifySmsSecret(received: string | null): boolean {
+  const secret = process.env.SMS_INGEST_SECRET;
+
+  if (!secret) {
+    console.error("SMS_INGEST_SECRET is not set - rejecting SMS ingest");
+    return false;
+  }
+  if (!received) return false;
+
+  const digest = (value: string) => createHash("sha256").update(value, "utf8").digest();
+  return timingSafeEqual(digest(received), digest(secret));
+}
+
+// Match a bank counterparty to one of the owner's customers
+// Only returns a customer when the match is unambiguous
+function matchCustomer(customers: Customer[], counterparty: string): Customer | null {
+  const name = counterpartyName(counterparty).toLowerCase();
+  if (!name) return null;
+
+  const exact = customers.filter((c) => c.name.toLowerCase() === name);
+  if (exact.length === 1) return exact[0];
+
+  const partial = customers.filter((c) => {
+    const customerName = c.name.toLowerCase();
+    return name.includes(customerName) || customerName.includes(name);
+  });
+  if (partial.length === 1) return partial[0];
+
+  // "SHARMA RAJESH" vs "Sharma ji" - first word
+  const firstWord = name.split(" ")[0];
+  const byFirstWord = customers.filter((c) => c.name.toLowerCase().split(" ")[0] === firstWord);
+  return byFirstWord.length === 1 ? byFirstWord[0] : null;
+}
+
+// Ingest a forwarded bank/UPI alert SMS for an owner
+export async function ingestBankSms(
+  phone: string,
+  sms: string,
+  options: { sender?: string; receivedAt?: Date } = {}
+): Promise<SmsIngestResult | null> {
+  const owner = await db.owner.findUnique({
+    where: { phone },
+    include: { customers: true },
+  });
+  if (!owner) return null;
+
+  const parsed = parseBankSms(sms, options.sender);
+  if (!parsed) {
+    return { status: "ignored", text: "Not a bank transaction alert" };
+  }
+
+  // Same alert forwarded twice (or by two forwarders)
+  if (parsed.upiRef) {
+    const existing = await db.transaction.findFirst({
+      where: { ownerId: owner.id, reference: parsed.upiRef },
+    });
+    if (existing) {
+      return { status: "duplicate", text: "Already logged", transactionId: existing.id, parsed };
+    }
+  }
+
+  const isCredit = parsed.direction === "credit";
+  const amount = toPaise(parsed.amount);
+  const customer = isCredit && parsed.counterparty
+    ? matchCustomer(owner.customers, parsed.counterparty)
+    : null;
+  const party = customer?.name || (parsed.counterparty && counterpartyName(parsed.counterparty)) || null;
+
+  // Bank alerts move the bank balance, not the cash drawer
+  const account = await resolveBankAccount(owner.id, parsed.account);
+
+  const category = isCredit ? undefined : await categorize(owner.id, party || "");
+
+  let booked: { transaction: Transaction; payment: PaymentApplication | null; newCash: Money };
+  try {
+    booked = await db.$transaction(async (tx) => {
+      const transaction = await tx.transaction.create({
+        data: {
+          ownerId: owner.id,
+          type: isCredit ? "income" : "expense",
+          amount,
+          description: isCredit ? `UPI from ${party || "unknown"}` : `UPI to ${party || "unknown"}`,
+          category,
+          customerId: customer?.id,
+          accountId: account.id,
+          source: "sms",
+          reference: parsed.upiRef,
+          occurredAt: parsed.timestamp || options.receivedAt || new Date(),
+        },
+      });
+
+      const payment = customer
+        ? await applyCustomerPayment(owner.id, customer.id, amount, { paidAt: transaction.occurredAt }, tx)
+        : null;
+
+      const newCash = await bookAction(owner.id, {
+        kind: isCredit ? "income" : "expense",
+        description: transaction.description || "Bank SMS",
+        amount,
+        postings: withAccount(isCredit ? incomeEntry(amount, payment?.settled, payment?.credited) : expenseEntry(amount), account.id),
+        transactionId: transaction.id,
+        receivableId: payment?.allocations[0]?.receivableId,
+        customerId: payment ? customer?.id : undefined,
+        previousState: payment ? paymentState(payment) : undefined,
+        occurredAt: transaction.occurredAt,
+      }, tx);
+
+      return { transaction, payment, newCash };
+    });
+  } catch (error) {
+    // The same alert forwarded twice at once - the other request logged it first
+    if (!isUniqueViolation(error) || !parsed.upiRef) throw error;
+    const existing = await db.transaction.findFirst({ where: { ownerId: owner.id, reference: parsed.upiRef } });
+    if (!existing) throw error;
+    return { status: "duplicate", text: "Already logged", transactionId: existing.id, parsed };
+  }
+  const { transaction, payment, newCash } = booked;
+
+  const line = isCredit
+    ? `📥 ${formatCurrency(amount)} ${party ? `from ${party}` : "received"}`
+    : `📤 ${formatCurrency(amount)} ${party ? `to ${party}` : "paid"}`;
+
+  return {
+    status: "logged",
+    text: `✅ *Bank SMS logged*\n\n${[line, ...(payment ? formatPaymentBreakdown(payment) : [])].join("\n")}\n🏦 ${account.name}\n\n💰 Total: ${formatCurrency(newCash)}`,
+    transactionId: transaction.id,
+    parsed,
+  };
+}
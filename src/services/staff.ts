@@ -1,6 +1,10 @@
-import { db, type Owner, type Staff } from "@/lib/db";
+import { db, type DbClient, type Owner, type Staff } from "@/lib/db";
 import { parseStaffInput } from "@/lib/ai";
-import { formatCurrency } from "@/lib/whatsapp";
+import { formatCurrency, formatDate, type ListMessage } from "@/lib/whatsapp";
+import { advanceEntry, salaryEntry } from "@/lib/ledger";
+import { bookAction } from "@/lib/actions";
+import { toPaise, type Money } from "@/lib/money";
+import { isBackdated, resolveTransactionDate } from "@/lib/dates";
 
 interface StaffContext {
   owner: Owner & {
@@ -8,23 +12,30 @@ interface StaffContext {
   };
   message: string;
   action: "add" | "salary_paid" | "advance";
+  dates?: string[]; // date phrases the intent classifier found ("kal", "5 tareekh")
+  amount?: number; // rupees the intent classifier read off the message
 }
 
 interface StaffResponse {
   text: string;
   ownerId: string;
+  list?: ListMessage;
 }
 
 export async function handleStaff(ctx: StaffContext): Promise<StaffResponse> {
   const { owner, message, action } = ctx;
 
+  // "kal Ramu ko 2000 advance diya" happened yesterday - otherwise it's now
+  const occurredAt = resolveTransactionDate(message, ctx.dates) || new Date();
+  const amount = namedAmount(message, ctx.dates, ctx.amount);
+
   switch (action) {
     case "add":
       return handleAddStaff(owner, message);
     case "salary_paid":
-      return handleSalaryPaid(owner, message);
+      return handleSalaryPaid(owner, message, amount, occurredAt);
     case "advance":
-      return handleAdvance(owner, message);
+      return handleAdvance(owner, message, amount, occurredAt);
     default:
       return {
         text: "Staff action not recognized",
@@ -33,6 +44,19 @@ export async function handleStaff(ctx: StaffContext): Promise<StaffResponse> {
   }
 }
 
+// Amount the owner named, in paise: the classifier's figure, else the first number left once the
+// date phrases are taken out - "5 tareekh ko Ramu ko 2000 advance" is ₹2000, not ₹5
+export function namedAmount(message: string, dates: string[] = [], amount?: number): Money | null {
+  if (amount !== undefined && amount > 0) return toPaise(amount);
+
+  const escape = (phrase: string) => phrase.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const text = dates
+    .filter((phrase) => phrase.trim())
+    .reduce((rest, phrase) => rest.replace(new RegExp(escape(phrase.trim()), "gi"), " "), message);
+  const match = text.match(/(\d+)/);
+  return match ? toPaise(parseInt(match[0])) : null;
+}
+
 async function handleAddStaff(owner: Owner, message: string): Promise<StaffResponse> {
   // Parse staff from message
   const parsed = await parseStaffInput(message);
@@ -42,7 +66,7 @@ async function handleAddStaff(owner: Owner, message: string): Promise<StaffRespo
     const match = message.match(/([a-zA-Z]+)\s+(\d+)/i);
     if (match) {
       const name = match[1].trim();
-      const amount = parseInt(match[2]);
+      const amount = toPaise(parseInt(match[2]));
       const isDaily = /daily/i.test(message);
       const dayMatch = message.match(/(\d+)(st|nd|rd|th)/);
       const paymentDay = dayMatch ? parseInt(dayMatch[1]) : 1;
@@ -72,17 +96,18 @@ async function handleAddStaff(owner: Owner, message: string): Promise<StaffRespo
   // Add all parsed staff
   const addedStaff: string[] = [];
   for (const staff of parsed.staff) {
+    const salaryAmount = toPaise(staff.salaryAmount);
     await db.staff.create({
       data: {
         ownerId: owner.id,
         name: staff.name,
-        salaryAmount: staff.salaryAmount,
+        salaryAmount,
         salaryType: staff.salaryType,
         paymentDay: staff.salaryType === "daily" ? null : (staff.paymentDay || 1),
       },
     });
     addedStaff.push(
-      `👤 ${staff.name} - ${formatCurrency(staff.salaryAmount)}/${staff.salaryType === "daily" ? "day" : "month"}`
+      `👤 ${staff.name} - ${formatCurrency(salaryAmount)}/${staff.salaryType === "daily" ? "day" : "month"}`
     );
   }
 
@@ -92,7 +117,12 @@ async function handleAddStaff(owner: Owner, message: string): Promise<StaffRespo
   };
 }
 
-async function handleSalaryPaid(owner: Owner & { staff: Staff[] }, message: string): Promise<StaffResponse> {
+async function handleSalaryPaid(
+  owner: Owner & { staff: Staff[] },
+  message: string,
+  namedPaid: Money | null,
+  occurredAt: Date
+): Promise<StaffResponse> {
   // Find staff member mentioned in message
   const staffMember = findStaffInMessage(message, owner.staff);
 
@@ -108,56 +138,79 @@ async function handleSalaryPaid(owner: Owner & { staff: Staff[] }, message: stri
     return {
       text: `🤔 Which staff? Your team: ${staffList}\n\nExample: "Ramu salary done"`,
       ownerId: owner.id,
+      list: staffPicker(owner.staff, "pay_salary"),
     };
   }
 
-  // Calculate salary after advance deduction
-  const salaryDue = staffMember.salaryAmount - staffMember.advanceBalance;
+  const result = await db.$transaction(async (tx) => {
+    // Lock the staff row so an advance given meanwhile isn't wiped out
+    const locked = await tx.staff.update({
+      where: { id: staffMember.id },
+      data: { advanceBalance: { increment: 0 } },
+    });
+    const advanceDeducted = locked.advanceBalance;
 
-  // Extract amount if specified, otherwise use full salary
-  const amountMatch = message.match(/(\d+)/);
-  const paidAmount = amountMatch ? parseInt(amountMatch[0]) : salaryDue;
+    // The amount named, otherwise the full salary after advance deduction
+    const paidAmount = namedPaid ?? locked.salaryAmount - advanceDeducted;
 
-  // Check if owner has enough cash
-  if (owner.currentCash < paidAmount) {
-    return {
-      text: `⚠️ Cash kam hai!\n\nSalary: ${formatCurrency(paidAmount)}\nCash available: ${formatCurrency(owner.currentCash)}\nShortfall: ${formatCurrency(paidAmount - owner.currentCash)}`,
-      ownerId: owner.id,
-    };
-  }
+    // Check the cash under the owner's row lock, so two payments can't both spend it
+    const { currentCash } = await lockOwnerCash(tx, owner.id);
+    if (currentCash < paidAmount) return { booked: false as const, paidAmount, cash: currentCash };
 
-  // Create salary transaction
-  await db.transaction.create({
-    data: {
-      ownerId: owner.id,
-      staffId: staffMember.id,
-      type: "salary",
-      category: "salary",
-      amount: paidAmount,
+    // Create salary transaction
+    const transaction = await tx.transaction.create({
+      data: {
+        ownerId: owner.id,
+        staffId: staffMember.id,
+        type: "salary",
+        category: "salary",
+        amount: paidAmount,
+        description: `Salary to ${staffMember.name}`,
+        occurredAt,
+      },
+    });
+
+    // Book it: gross salary expensed, advance recovered, the rest paid in cash
+    const newCash = await bookAction(owner.id, {
+      kind: "salary",
       description: `Salary to ${staffMember.name}`,
-    },
-  });
+      amount: paidAmount,
+      postings: salaryEntry({
+        gross: paidAmount + advanceDeducted,
+        advanceDeducted,
+        paid: paidAmount,
+      }),
+      transactionId: transaction.id,
+      staffId: staffMember.id,
+      previousState: { advanceBalance: advanceDeducted, advanceDeducted },
+      occurredAt,
+    }, tx);
+
+    // Clear the advance that was recovered
+    await tx.staff.update({
+      where: { id: staffMember.id },
+      data: { advanceBalance: { decrement: advanceDeducted } },
+    });
 
-  // Update owner cash
-  const newCash = owner.currentCash - paidAmount;
-  await db.owner.update({
-    where: { id: owner.id },
-    data: { currentCash: newCash },
+    return { booked: true as const, paidAmount, advanceDeducted, newCash };
   });
 
-  // Reset advance balance
-  await db.staff.update({
-    where: { id: staffMember.id },
-    data: { advanceBalance: 0 },
-  });
+  if (!result.booked) {
+    const { paidAmount, cash } = result;
+    return {
+      text: `⚠️ Cash kam hai!\n\nSalary: ${formatCurrency(paidAmount)}\nCash available: ${formatCurrency(cash)}\nShortfall: ${formatCurrency(paidAmount - cash)}`,
+      ownerId: owner.id,
+    };
+  }
+  const { paidAmount, advanceDeducted, newCash } = result;
 
   // Get remaining salaries
   const remainingSalaries = await getRemainingMonthlySalaries(owner.id, staffMember.id);
 
-  let response = `✅ *Salary Paid*\n\n👤 ${staffMember.name}: ${formatCurrency(paidAmount)}`;
+  let response = `✅ *Salary Paid*${isBackdated(occurredAt) ? ` on ${formatDate(occurredAt)}` : ""}\n\n👤 ${staffMember.name}: ${formatCurrency(paidAmount)}`;
 
-  if (staffMember.advanceBalance > 0) {
-    response += `\n(After ${formatCurrency(staffMember.advanceBalance)} advance deduction)`;
+  if (advanceDeducted > 0) {
+    response += `\n(After ${formatCurrency(advanceDeducted)} advance deduction)`;
   }
 
   response += `\n\n💰 Cash: ${formatCurrency(newCash)}`;
@@ -172,7 +225,12 @@ async function handleSalaryPaid(owner: Owner & { staff: Staff[] }, message: stri
   };
 }
 
-async function handleAdvance(owner: Owner & { staff: Staff[] }, message: string): Promise<StaffResponse> {
+async function handleAdvance(
+  owner: Owner & { staff: Staff[] },
+  message: string,
+  amount: Money | null,
+  occurredAt: Date
+): Promise<StaffResponse> {
   // Find staff member and amount
   const staffMember = findStaffInMessage(message, owner.staff);
 
@@ -191,59 +249,90 @@ async function handleAdvance(owner: Owner & { staff: Staff[] }, message: string)
     };
   }
 
-  // Extract amount
-  const amountMatch = message.match(/(\d+)/);
-  if (!amountMatch) {
+  if (amount === null) {
     return {
       text: `🤔 Kitna advance? Example: "Ramu ko 2000 advance"`,
       ownerId: owner.id,
     };
   }
 
-  const amount = parseInt(amountMatch[0]);
+  const result = await db.$transaction(async (tx) => {
+    // Check the cash under the owner's row lock, so two payments can't both spend it
+    const { currentCash } = await lockOwnerCash(tx, owner.id);
+    if (currentCash < amount) return { booked: false as const, cash: currentCash };
 
-  // Check if owner has enough cash
-  if (owner.currentCash < amount) {
-    return {
-      text: `⚠️ Cash kam hai!\n\nAdvance: ${formatCurrency(amount)}\nCash available: ${formatCurrency(owner.currentCash)}`,
-      ownerId: owner.id,
-    };
-  }
+    // Create advance transaction
+    const transaction = await tx.transaction.create({
+      data: {
+        ownerId: owner.id,
+        staffId: staffMember.id,
+        type: "advance",
+        category: "salary",
+        amount,
+        description: `Advance to ${staffMember.name}`,
+        occurredAt,
+      },
+    });
 
-  // Create advance transaction
-  await db.transaction.create({
-    data: {
-      ownerId: owner.id,
-      staffId: staffMember.id,
-      type: "advance",
-      category: "salary",
-      amount,
+    // Update staff advance balance
+    const updated = await tx.staff.update({
+      where: { id: staffMember.id },
+      data: { advanceBalance: { increment: amount } },
+    });
+    const newAdvance = updated.advanceBalance;
+
+    // Book it - the ledger moves the cash balance
+    const newCash = await bookAction(owner.id, {
+      kind: "advance",
       description: `Advance to ${staffMember.name}`,
-    },
-  });
+      amount,
+      postings: advanceEntry(amount),
+      transactionId: transaction.id,
+      staffId: staffMember.id,
+      previousState: { advanceBalance: newAdvance - amount },
+      occurredAt,
+    }, tx);
 
-  // Update staff advance balance
-  const newAdvance = staffMember.advanceBalance + amount;
-  await db.staff.update({
-    where: { id: staffMember.id },
-    data: { advanceBalance: newAdvance },
+    return { booked: true as const, newAdvance, newCash };
   });
 
-  // Update owner cash
-  const newCash = owner.currentCash - amount;
-  await db.owner.update({
-    where: { id: owner.id },
-    data: { currentCash: newCash },
-  });
+  if (!result.booked) {
+    return {
+      text: `⚠️ Cash kam hai!\n\nAdvance: ${formatCurrency(amount)}\nCash available: ${formatCurrency(result.cash)}`,
+      ownerId: owner.id,
+    };
+  }
+  const { newAdvance, newCash } = result;
 
   const nextSalary = staffMember.salaryAmount - newAdvance;
 
   return {
-    text: `✅ *Advance Logged*\n\n👤 ${staffMember.name}:\n• Advance: ${formatCurrency(amount)}\n• Total advance: ${formatCurrency(newAdvance)}\n• Next salary: ${formatCurrency(nextSalary)}\n\n💰 Cash: ${formatCurrency(newCash)}`,
+    text: `✅ *Advance Logged*${isBackdated(occurredAt) ? ` for ${formatDate(occurredAt)}` : ""}\n\n👤 ${staffMember.name}:\n• Advance: ${formatCurrency(amount)}\n• Total advance: ${formatCurrency(newAdvance)}\n• Next salary: ${formatCurrency(nextSalary)}\n\n💰 Cash: ${formatCurrency(newCash)}`,
     ownerId: owner.id,
   };
 }
 
+// Helper: Lock the owner's row and read the cash it holds
+function lockOwnerCash(tx: DbClient, ownerId: string): Promise<Owner> {
+  return tx.owner.update({ where: { id: ownerId }, data: { currentCash: { increment: 0 } } });
+}
+
+// Helper: List picker of staff members, each row tagged with an action id
+function staffPicker(staff: Staff[], action: string): ListMessage {
+  return {
+    buttonText: "Choose staff",
+    sections: [
+      {
+        rows: staff.slice(0, 10).map((s) => ({
+          id: `${action}:${s.id}`,
+          title: s.name,
+          description: `${formatCurrency(s.salaryAmount - s.advanceBalance)} due`,
+        })),
+      },
+    ],
+  };
+}
+
 // Helper: Find staff member mentioned in message
 function findStaffInMessage(message: string, staff: Staff[]): Staff | undefined {
   const lowerMessage = message.toLowerCase();
@@ -261,7 +350,7 @@ function findStaffInMessage(message: string, staff: Staff[]): Staff | undefined
 async function getRemainingMonthlySalaries(
   ownerId: string,
   excludeStaffId?: string
-): Promise<{ total: number; list: string[] }> {
+): Promise<{ total: Money; list: string[] }> {
   const currentMonth = new Date().getMonth();
   const currentYear = new Date().getFullYear();
   const startOfMonth = new Date(currentYear, currentMonth, 1);
@@ -278,7 +367,7 @@ async function getRemainingMonthlySalaries(
   });
 
   // Check which salaries haven't been paid this month
-  const unpaidStaff: Array<{ name: string; amount: number }> = [];
+  const unpaidStaff: Array<{ name: string; amount: Money }> = [];
 
   for (const s of staff) {
     const paidThisMonth = await db.transaction.findFirst({
@@ -286,7 +375,7 @@ async function getRemainingMonthlySalaries(
         ownerId,
         staffId: s.id,
         type: "salary",
-        createdAt: {
+        occurredAt: {
           gte: startOfMonth,
           lte: endOfMonth,
         },
@@ -0,0 +1,420 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { db, type DbClient, type Transaction } from "@/lib/db";
+import type { Prisma } from "@/generated/prisma";
+import { bookAction, previousReceivables, type ActionKind, type ActionState } from "@/lib/actions";
+import {
+  accountTotal,
+  advanceEntry,
+  expenseEntry,
+  getTransactionPostings,
+  incomeEntry,
+  postEntry,
+  salaryEntry,
+  supplierPaymentEntry,
+  withAccount,
+  type PostingInput,
+} from "@/lib/ledger";
+import type { Money } from "@/lib/money";
+import { reversePayablePayment, settlePayables, type PayableSettlement } from "@/lib/payables";
+import { applyCustomerPayment, paymentState, reverseReceivablePayment, type PaymentApplication } from "@/lib/receivables";
+
+// Transaction list/edit/delete for the support API
+// Every change goes through the ledger: the transaction's current booking is
+// reversed (with its receivable, payable and advance effects) and the new one is posted.
+// Amounts here are paise; the routes convert to and from rupees.
+
+export const TRANSACTION_TYPES = ["income", "expense", "salary", "advance"] as const;
+export type TransactionType = (typeof TRANSACTION_TYPES)[number];
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+export interface TransactionFilters {
+  from?: Date;
+  to?: Date;
+  type?: string;
+  category?: string;
+  customerId?: string;
+  staffId?: string;
+  supplierId?: string;
+  accountId?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface TransactionInput {
+  type: TransactionType;
+  amount: Money;
+  description?: string | null;
+  category?: string | null;
+  customerId?: string | null;
+  staffId?: string | null;
+  supplierId?: string | null; // an expense with a supplier pays down their payables
+  accountId?: string | null; // money account (null = cash drawer)
+  date?: Date; // when the money moved (defaults to now)
+}
+
+export type TransactionResult =
+  | { success: true; transaction: Transaction; cash: Money }
+  | { success: false; error: string; status: 400 | 404 };
+
+export function isTransactionType(value: unknown): value is TransactionType {
+  return typeof value === "string" && (TRANSACTION_TYPES as readonly string[]).includes(value);
+}
+
+// Check the Authorization: Bearer header against ADMIN_API_TOKEN
+// The support API reads and rewrites any owner's books, so it's closed when no token is configured
+export function verifyAdminToken(authorization: string | null): boolean {
+  const token = process.env.ADMIN_API_TOKEN;
+
+  if (!token) {
+    console.error("ADMIN_API_TOKEN is not set - rejecting transactions API request");
+    return false;
+  }
+  const received = authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+  if (!received) return false;
+
+  const digest = (value: string) => createHash("sha256").update(value, "utf8").digest();
+  return timingSafeEqual(digest(received), digest(token));
+}
+
+// Undo treats a supplier payment differently from a plain expense
+function actionKind(input: TransactionInput): ActionKind {
+  return input.type === "expense" && input.supplierId ? "supplier_payment" : input.type;
+}
+
+// Paginated, filtered transaction list (newest first)
+export async function listTransactions(ownerId: string, filters: TransactionFilters) {
+  const page = Math.max(1, filters.page || 1);
+  const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, filters.pageSize || DEFAULT_PAGE_SIZE));
+
+  const where: Prisma.TransactionWhereInput = {
+    ownerId,
+    type: filters.type,
+    category: filters.category,
+    customerId: filters.customerId,
+    staffId: filters.staffId,
+    supplierId: filters.supplierId,
+    accountId: filters.accountId,
+    occurredAt: filters.from || filters.to ? { gte: filters.from, lte: filters.to } : undefined,
+  };
+
+  const [transactions, total] = await Promise.all([
+    db.transaction.findMany({
+      where,
+      include: {
+        customer: { select: { id: true, name: true } },
+        staff: { select: { id: true, name: true } },
+        supplier: { select: { id: true, name: true } },
+        account: { select: { id: true, name: true, kind: true } },
+      },
+      orderBy: { occurredAt: "desc" },
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+    }),
+    db.transaction.count({ where }),
+  ]);
+
+  return { transactions, total, page, pageSize, totalPages: Math.ceil(total / pageSize) };
+}
+
+// What a transaction is booked as - its journal entries, or for rows that
+// predate the ledger, the postings its type implies
+async function currentPostings(txn: Transaction, tx: DbClient): Promise<PostingInput[]> {
+  const booked = await getTransactionPostings(txn.ownerId, txn.id, tx);
+  if (booked) return booked;
+
+  switch (txn.type) {
+    case "income":
+      return withAccount(incomeEntry(txn.amount), txn.accountId);
+    case "salary":
+      return withAccount(salaryEntry({ gross: txn.amount, paid: txn.amount }), txn.accountId);
+    case "advance":
+      return withAccount(advanceEntry(txn.amount), txn.accountId);
+    default:
+      return withAccount(expenseEntry(txn.amount), txn.accountId);
+  }
+}
+
+// Reverse a transaction's booking along with the receivable/payable payment and advance change it made
+// The receivables and payables it paid come from the allocations its action log kept
+async function unwindTransaction(txn: Transaction, description: string, tx: DbClient): Promise<Money | null> {
+  const booked = await getTransactionPostings(txn.ownerId, txn.id, tx);
+  const postings = booked ?? (await currentPostings(txn, tx));
+  const action = await tx.actionLog.findFirst({
+    where: { ownerId: txn.ownerId, transactionId: txn.id, status: "active" },
+    orderBy: { createdAt: "desc" },
+  });
+  const previous = (action?.previousState || {}) as ActionState;
+
+  // Receivables are credited when a payment settles udhaar, customer credit when it keeps a surplus
+  const settled = -accountTotal(postings, "receivables");
+  const credited = -accountTotal(postings, "customer_credit");
+  if ((settled > 0 || credited > 0) && txn.customerId) {
+    const allocations = action ? previousReceivables(action, previous) : undefined;
+    await reverseReceivablePayment(txn.ownerId, txn.customerId, Math.max(settled, 0), Math.max(credited, 0), allocations, tx);
+  }
+
+  // Payables are debited when a supplier payment settles them
+  const paidDown = accountTotal(postings, "payables");
+  if (paidDown > 0 && txn.supplierId) {
+    await reversePayablePayment(txn.ownerId, txn.supplierId, paidDown, previous.payables, tx);
+  }
+
+  const advanceChange = accountTotal(postings, "staff_advances");
+  if (advanceChange !== 0 && txn.staffId) {
+    await tx.staff.update({
+      where: { id: txn.staffId },
+      data: { advanceBalance: { decrement: advanceChange } },
+    });
+  }
+
+  const reversal = postings.map((p) => ({ account: p.account, amount: -p.amount, accountId: p.accountId }));
+  if (reversal.every((p) => p.amount === 0)) return null;
+
+  // Dated with the booking it cancels, so the P&L of that day drops it rather than today's
+  const original = action ? await tx.journalEntry.findUnique({ where: { id: action.journalEntryId } }) : null;
+  const createdAt = original?.createdAt ?? txn.occurredAt;
+
+  // Booked against the transaction so its net postings drop what was reversed - unless the row
+  // predates the ledger, when there's nothing booked against it to cancel
+  const entry = await postEntry(txn.ownerId, description, reversal, { transactionId: booked ? txn.id : undefined, createdAt }, tx);
+  return entry.cash;
+}
+
+// Apply a transaction's receivable/payable/advance effects and return the postings that book it
+// advanceDeducted carries a salary's advance recovery across edits
+async function applyTransaction(
+  ownerId: string,
+  input: TransactionInput,
+  tx: DbClient,
+  advanceDeducted = 0
+): Promise<{
+  postings: PostingInput[];
+  payment: PaymentApplication | null;
+  payables: PayableSettlement;
+}> {
+  let payment: PaymentApplication | null = null;
+  let payables: PayableSettlement = { settled: 0, previous: [] };
+  let postings: PostingInput[];
+
+  switch (input.type) {
+    case "income":
+      if (input.customerId) {
+        payment = await applyCustomerPayment(ownerId, input.customerId, input.amount, { paidAt: input.date }, tx);
+      }
+      postings = incomeEntry(input.amount, payment?.settled, payment?.credited);
+      break;
+    case "salary":
+      postings = salaryEntry({ gross: input.amount + advanceDeducted, advanceDeducted, paid: input.amount });
+      break;
+    case "advance":
+      postings = advanceEntry(input.amount);
+      break;
+    default:
+      if (input.supplierId) {
+        payables = await settlePayables(ownerId, input.supplierId, input.amount, input.date, tx);
+        postings = supplierPaymentEntry(input.amount, payables.settled);
+      } else {
+        postings = expenseEntry(input.amount);
+      }
+  }
+
+  const advanceChange = accountTotal(postings, "staff_advances");
+  if (advanceChange !== 0 && input.staffId) {
+    await tx.staff.update({
+      where: { id: input.staffId },
+      data: { advanceBalance: { increment: advanceChange } },
+    });
+  }
+
+  return { postings: withAccount(postings, input.accountId), payment, payables };
+}
+
+// Undo snapshot for the receivables and payables a booking paid
+function allocationState(payment: PaymentApplication | null, payables: PayableSettlement): ActionState {
+  return {
+    ...(payment && paymentState(payment)),
+    payables: payables.previous.length > 0 ? payables.previous : undefined,
+  };
+}
+
+// Customer, staff and supplier must belong to the owner; salary and advances need a staff member
+async function validateInput(ownerId: string, input: TransactionInput): Promise<string | null> {
+  if (!isTransactionType(input.type)) return `type must be one of: ${TRANSACTION_TYPES.join(", ")}`;
+  if (!(input.amount > 0)) return "amount must be greater than 0";
+  if ((input.type === "salary" || input.type === "advance") && !input.staffId) {
+    return `staffId is required for ${input.type}`;
+  }
+
+  if (input.customerId) {
+    const customer = await db.customer.findFirst({ where: { id: input.customerId, ownerId } });
+    if (!customer) return "Customer not found";
+  }
+  if (input.staffId) {
+    const staff = await db.staff.findFirst({ where: { id: input.staffId, ownerId } });
+    if (!staff) return "Staff not found";
+  }
+  if (input.supplierId) {
+    if (input.type !== "expense") return "supplierId is only allowed on expenses";
+    const supplier = await db.supplier.findFirst({ where: { id: input.supplierId, ownerId } });
+    if (!supplier) return "Supplier not found";
+  }
+  if (input.accountId) {
+    const account = await db.account.findFirst({ where: { id: input.accountId, ownerId } });
+    if (!account) return "Account not found";
+  }
+  return null;
+}
+
+export async function createTransaction(ownerId: string, input: TransactionInput): Promise<TransactionResult> {
+  const error = await validateInput(ownerId, input);
+  if (error) return { success: false, error, status: 400 };
+
+  return db.$transaction(async (tx): Promise<TransactionResult> => {
+    const transaction = await tx.transaction.create({
+      data: {
+        ownerId,
+        type: input.type,
+        amount: input.amount,
+        description: input.description,
+        category: input.category,
+        customerId: input.customerId,
+        staffId: input.staffId,
+        supplierId: input.supplierId,
+        accountId: input.accountId,
+        occurredAt: input.date,
+      },
+    });
+
+    const staff = input.staffId ? await tx.staff.findUnique({ where: { id: input.staffId } }) : null;
+    const { postings, payment, payables } = await applyTransaction(ownerId, input, tx);
+
+    const cash = await bookAction(ownerId, {
+      kind: actionKind(input),
+      description: input.description || input.type,
+      amount: input.amount,
+      postings,
+      transactionId: transaction.id,
+      receivableId: payment?.allocations[0]?.receivableId,
+      customerId: payment ? input.customerId || undefined : undefined,
+      staffId: input.staffId || undefined,
+      occurredAt: input.date,
+      previousState: { ...allocationState(payment, payables), advanceBalance: staff?.advanceBalance },
+    }, tx);
+
+    return { success: true, transaction, cash };
+  });
+}
+
+// Edit a transaction; amount/type/customer/staff/supplier/account/date changes re-book it through the ledger
+export async function updateTransaction(
+  ownerId: string,
+  id: string,
+  changes: Partial<TransactionInput>
+): Promise<TransactionResult> {
+  const existing = await db.transaction.findFirst({ where: { id, ownerId } });
+  if (!existing) return { success: false, error: "Transaction not found", status: 404 };
+
+  const next: TransactionInput = {
+    type: changes.type ?? (existing.type as TransactionType),
+    amount: changes.amount ?? existing.amount,
+    description: changes.description !== undefined ? changes.description : existing.description,
+    category: changes.category !== undefined ? changes.category : existing.category,
+    customerId: changes.customerId !== undefined ? changes.customerId : existing.customerId,
+    staffId: changes.staffId !== undefined ? changes.staffId : existing.staffId,
+    supplierId: changes.supplierId !== undefined ? changes.supplierId : existing.supplierId,
+    accountId: changes.accountId !== undefined ? changes.accountId : existing.accountId,
+    date: changes.date ?? existing.occurredAt,
+  };
+
+  const error = await validateInput(ownerId, next);
+  if (error) return { success: false, error, status: 400 };
+
+  const rebook =
+    next.type !== existing.type ||
+    next.amount !== existing.amount ||
+    next.customerId !== existing.customerId ||
+    next.staffId !== existing.staffId ||
+    next.supplierId !== existing.supplierId ||
+    next.accountId !== existing.accountId ||
+    next.date?.getTime() !== existing.occurredAt.getTime();
+
+  // The unwind, the new booking and the row update commit together
+  return db.$transaction(async (tx): Promise<TransactionResult> => {
+    // Read again under the transaction - a concurrent delete or edit may have got there first
+    const current = await tx.transaction.findFirst({ where: { id, ownerId } });
+    if (!current) return { success: false, error: "Transaction not found", status: 404 };
+
+    let cash: Money | null = null;
+
+    if (rebook) {
+      // A salary keeps the advance it recovered
+      const previous = await currentPostings(current, tx);
+      const advanceDeducted = current.type === "salary" && next.type === "salary"
+        ? -accountTotal(previous, "staff_advances")
+        : 0;
+
+      await unwindTransaction(current, `Edit: ${current.description || current.type}`, tx);
+      const { postings, payment, payables } = await applyTransaction(ownerId, next, tx, advanceDeducted);
+      const entry = await postEntry(ownerId, next.description || next.type, postings, { transactionId: id, createdAt: next.date }, tx);
+      cash = entry.cash;
+
+      // Keep chat undo pointed at the current booking and what it paid
+      const previousState: ActionState = { ...allocationState(payment, payables), advanceDeducted: advanceDeducted || undefined };
+      await tx.actionLog.updateMany({
+        where: { ownerId, transactionId: id, status: "active" },
+        data: {
+          kind: actionKind(next),
+          amount: next.amount,
+          journalEntryId: entry.id,
+          receivableId: payment?.allocations[0]?.receivableId ?? null,
+          customerId: payment ? next.customerId ?? null : null,
+          staffId: next.staffId ?? null,
+          previousState: previousState as Prisma.InputJsonValue,
+        },
+      });
+    }
+
+    const transaction = await tx.transaction.update({
+      where: { id },
+      data: {
+        type: next.type,
+        amount: next.amount,
+        description: next.description,
+        category: next.category,
+        customerId: next.customerId,
+        staffId: next.staffId,
+        supplierId: next.supplierId,
+        accountId: next.accountId,
+        occurredAt: next.date,
+      },
+    });
+
+    if (cash === null) {
+      const owner = await tx.owner.findUniqueOrThrow({ where: { id: ownerId } });
+      cash = owner.currentCash;
+    }
+
+    return { success: true, transaction, cash };
+  });
+}
+
+// Delete a transaction and reverse everything it did, in one database transaction
+export async function deleteTransaction(ownerId: string, id: string): Promise<TransactionResult> {
+  return db.$transaction(async (tx): Promise<TransactionResult> => {
+    const existing = await tx.transaction.findFirst({ where: { id, ownerId } });
+    if (!existing) return { success: false, error: "Transaction not found", status: 404 };
+
+    const reversedCash = await unwindTransaction(existing, `Deleted: ${existing.description || existing.type}`, tx);
+
+    await tx.transaction.delete({ where: { id } });
+    await tx.actionLog.updateMany({
+      where: { ownerId, transactionId: id, status: "active" },
+      data: { status: "undone" },
+    });
+
+    const cash = reversedCash ?? (await tx.owner.findUniqueOrThrow({ where: { id: ownerId } })).currentCash;
+    return { success: true, transaction: existing, cash };
+  });
+}
@@ -1,6 +1,13 @@
 import { db, type Owner, type Customer, type Staff } from "@/lib/db";
 import { parseTransactions } from "@/lib/ai";
-import { formatCurrency } from "@/lib/whatsapp";
+import { formatCurrency, formatDate } from "@/lib/whatsapp";
+import { expenseEntry, incomeEntry, withAccount } from "@/lib/ledger";
+import { parseAccountKind, resolveAccount } from "@/lib/accounts";
+import { bookAction } from "@/lib/actions";
+import { toPaise } from "@/lib/money";
+import { applyCustomerPayment, formatPaymentBreakdown, paymentState, type PaymentApplication } from "@/lib/receivables";
+import { isBackdated, resolveTransactionDate } from "@/lib/dates";
+import { categorize, getCategoryNames } from "@/lib/categories";
 
 interface TransactionContext {
   owner: Owner & {
@@ -9,6 +16,7 @@ interface TransactionContext {
   };
   message: string;
   type: "income" | "expense";
+  dates?: string[]; // date phrases the intent classifier found ("kal", "5 tareekh")
 }
 
 interface TransactionResponse {
@@ -23,6 +31,7 @@ export async function handleTransaction(ctx: TransactionContext): Promise<Transa
   const parsed = await parseTransactions(message, {
     staffNames: owner.staff.map((s) => s.name),
     customerNames: owner.customers.map((c) => c.name),
+    categories: await getCategoryNames(owner.id),
   });
 
   // If AI parsing failed, try simple pattern matching
@@ -45,53 +54,87 @@ export async function handleTransaction(ctx: TransactionContext): Promise<Transa
   let totalIn = 0;
   let totalOut = 0;
 
+  let newCash = owner.currentCash;
+
+  // "UPI se aaya", "bank se diya" - otherwise it's the cash drawer
+  const accountKind = parseAccountKind(message);
+  const account = accountKind ? await resolveAccount(owner.id, accountKind) : null;
+
+  // "kal sabzi 2000" happened yesterday - otherwise it's now
+  const occurredAt = resolveTransactionDate(message, ctx.dates) || new Date();
+
+  // "Sharma ne 2000 advance diya" - kept as credit against their next udhaar
+  const isAdvance = /\badvance\b/i.test(message);
+
   for (const txn of parsed.transactions) {
+    // Parsed amounts are rupees
+    const amount = toPaise(txn.amount);
+
     // Find or create customer if person name is mentioned and it's income
-    let customerId: string | undefined;
-    if (txn.personName && (txn.type === "income" || type === "income")) {
-      const customer = await findOrCreateCustomer(owner.id, txn.personName);
-      customerId = customer.id;
+    const customer = txn.personName && (txn.type === "income" || type === "income")
+      ? await findOrCreateCustomer(owner.id, txn.personName)
+      : null;
+    const customerId = customer?.id;
+    const transactionType = txn.type || type;
+    const category = await categorize(owner.id, txn.description, txn.category);
 
-      // Update receivable if exists
-      await updateReceivable(owner.id, customer.id, txn.amount);
-    }
+    const booked = await db.$transaction(async (tx) => {
+      // Clear their udhaar, oldest first; any surplus becomes credit
+      const payment: PaymentApplication | null = customer
+        ? await applyCustomerPayment(owner.id, customer.id, amount, { paidAt: occurredAt, advance: isAdvance }, tx)
+        : null;
 
-    // Create transaction
-    const transactionType = txn.type || type;
-    await db.transaction.create({
-      data: {
-        ownerId: owner.id,
-        type: transactionType,
-        amount: txn.amount,
+      // Create transaction
+      const transaction = await tx.transaction.create({
+        data: {
+          ownerId: owner.id,
+          type: transactionType,
+          amount,
+          description: txn.description,
+          category,
+          customerId,
+          accountId: account?.id,
+          source: "text",
+          occurredAt,
+        },
+      });
+
+      // Book it - the ledger moves the cash balance
+      const isIncome = transactionType === "income";
+      const cash = await bookAction(owner.id, {
+        kind: isIncome ? "income" : "expense",
         description: txn.description,
-        category: txn.category || detectCategory(txn.description),
+        amount,
+        postings: withAccount(
+          isIncome ? incomeEntry(amount, payment?.settled, payment?.credited) : expenseEntry(amount),
+          account?.id
+        ),
+        transactionId: transaction.id,
+        receivableId: payment?.allocations[0]?.receivableId,
         customerId,
-        source: "text",
-      },
+        previousState: payment ? paymentState(payment) : undefined,
+        occurredAt,
+      }, tx);
+      return { payment, cash };
     });
+    const { payment } = booked;
+    newCash = booked.cash;
 
-    // Update cash balance
     if (transactionType === "income") {
-      totalIn += txn.amount;
-      results.push(`📥 ${txn.description}: ${formatCurrency(txn.amount)}`);
+      totalIn += amount;
+      results.push(`📥 ${txn.description}: ${formatCurrency(amount)}`);
+      if (payment) results.push(...formatPaymentBreakdown(payment));
     } else {
-      totalOut += txn.amount;
-      results.push(`📤 ${txn.description}: ${formatCurrency(txn.amount)}`);
+      totalOut += amount;
+      results.push(`📤 ${txn.description}: ${formatCurrency(amount)}`);
     }
   }
 
-  // Update owner's cash
-  const newCash = owner.currentCash + totalIn - totalOut;
-  await db.owner.update({
-    where: { id: owner.id },
-    data: { currentCash: newCash },
-  });
-
   // Build response
-  let response = `✅ *Logged*\n\n${results.join("\n")}`;
+  let response = `✅ *Logged*${isBackdated(occurredAt) ? ` for ${formatDate(occurredAt)}` : ""}\n\n${results.join("\n")}`;
 
   if (totalIn > 0 || totalOut > 0) {
-    response += `\n\n💰 Cash: ${formatCurrency(newCash)}`;
+    response += `\n\n💰 ${account && !account.isDefault ? `Total (via ${account.name})` : "Cash"}: ${formatCurrency(newCash)}`;
     if (totalIn > 0 && totalOut > 0) {
       response += ` (↑${formatCurrency(totalIn)} ↓${formatCurrency(totalOut)})`;
     } else if (totalIn > 0) {
@@ -127,14 +170,12 @@ function parseSimpleTransactions(
         type: defaultType,
         amount: parseInt(match1[2]),
         description: match1[1].trim(),
-        category: detectCategory(match1[1]),
       });
     } else if (match2) {
       transactions.push({
         type: defaultType,
         amount: parseInt(match2[1]),
         description: match2[2].trim(),
-        category: detectCategory(match2[2]),
       });
     }
 
@@ -153,21 +194,6 @@ function parseSimpleTransactions(
   return transactions;
 }
 
-// Detect category from description
-function detectCategory(description: string): string {
-  const lower = description.toLowerCase();
-
-  if (/sabzi|vegetable|grocery|kirana|ration/.test(lower)) return "supplies";
-  if (/gas|cylinder|lpg|electricity|bijli|pani|water/.test(lower)) return "utilities";
-  if (/petrol|diesel|auto|taxi|transport|delivery/.test(lower)) return "transport";
-  if (/rent|kiraya/.test(lower)) return "rent";
-  if (/salary|wages|payment/.test(lower)) return "salary";
-  if (/phone|mobile|recharge|internet/.test(lower)) return "utilities";
-  if (/repair|maintenance/.test(lower)) return "equipment";
-
-  return "other";
-}
-
 // Find or create customer
 async function findOrCreateCustomer(ownerId: string, name: string): Promise<Customer> {
   // Find existing customer (case-insensitive)
@@ -189,58 +215,3 @@ async function findOrCreateCustomer(ownerId: string, name: string): Promise<Cust
 
   return customer;
 }
-
-// Update receivable when payment is received
-async function updateReceivable(
-  ownerId: string,
-  customerId: string,
-  amount: number
-): Promise<void> {
-  // Find pending receivable for this customer
-  const receivable = await db.receivable.findFirst({
-    where: {
-      ownerId,
-      customerId,
-      status: { in: ["pending", "partial"] },
-    },
-    orderBy: { createdAt: "asc" },
-  });
-
-  if (receivable) {
-    const newAmountPaid = receivable.amountPaid + amount;
-    const remaining = receivable.amount - newAmountPaid;
-
-    if (remaining <= 0) {
-      // Fully paid
-      await db.receivable.update({
-        where: { id: receivable.id },
-        data: {
-          amountPaid: receivable.amount,
-          status: "paid",
-          paidAt: new Date(),
-        },
-      });
-    } else {
-      // Partial payment
-      await db.receivable.update({
-        where: { id: receivable.id },
-        data: {
-          amountPaid: newAmountPaid,
-          status: "partial",
-        },
-      });
-    }
-
-    // Update customer reliability score
-    const daysSinceCreated = Math.floor(
-      (Date.now() - receivable.createdAt.getTime()) / (1000 * 60 * 60 * 24)
-    );
-    await db.customer.update({
-      where: { id: customerId },
-      data: {
-        avgDaysToPay: daysSinceCreated,
-        reliabilityScore: daysSinceCreated <= 7 ? 80 : daysSinceCreated <= 14 ? 60 : 40,
-      },
-    });
-  }
-}
@@ -1,7 +1,14 @@
 import { schedules } from "@trigger.dev/sdk/v3";
 import { db } from "@/lib/db";
 import { Prisma } from "@/generated/prisma";
-import { sendMorningBrief, sendEveningWrap, sendSalaryReminder } from "@/services/brief";
+import { sendMorningBrief, sendEveningWrap, sendSalaryReminder, sendPendingAlerts, sendRecurringExpenseReminders } from "@/services/brief";
+import { processOutboundQueue } from "@/lib/outbound";
+import { pruneProcessedMessages } from "@/lib/idempotency";
+import { isQuietHours, sendCollectionReminders } from "@/lib/collections";
+import { getAccountBalances, getDefaultAccount } from "@/lib/accounts";
+import { roundToRupee, scaleMoney, sumMoney } from "@/lib/money";
+import { getRecurringExpenses, isDueOn } from "@/lib/recurring";
+import { getOpenPayables, isPayableDueOn, payableBalance } from "@/lib/payables";
 
 // Morning Brief - 9:00 AM IST daily
 export const morningBriefTask = schedules.task({
@@ -22,7 +29,8 @@ export const morningBriefTask = schedules.task({
     for (const owner of owners) {
       try {
         await sendMorningBrief(owner.id);
-        console.log(`Morning brief sent to ${owner.name} (${owner.phone})`);
+        const alertCount = await sendPendingAlerts(owner.id);
+        console.log(`Morning brief and ${alertCount} alerts sent to ${owner.name} (${owner.phone})`);
       } catch (error) {
         console.error(`Failed to send morning brief to ${owner.id}:`, error);
       }
@@ -88,6 +96,32 @@ export const salaryReminderTask = schedules.task({
   },
 });
 
+// Recurring Expenses - 9:30 AM IST daily (logs or asks about rent/EMIs due today)
+export const recurringExpenseTask = schedules.task({
+  id: "recurring-expenses",
+  // Run at 9:30 AM IST (4:00 AM UTC), after the morning brief
+  cron: "0 4 * * *",
+  run: async () => {
+    console.log("Running recurring expense task...");
+
+    const owners = await db.owner.findMany({
+      where: { onboardingStep: "COMPLETE", recurringExpenses: { some: { isActive: true } } },
+      select: { id: true, name: true },
+    });
+
+    let due = 0;
+    for (const owner of owners) {
+      try {
+        due += await sendRecurringExpenseReminders(owner.id);
+      } catch (error) {
+        console.error(`Failed to handle recurring expenses for ${owner.id}:`, error);
+      }
+    }
+
+    return { owners: owners.length, due };
+  },
+});
+
 // Projection Refresh - Every 6 hours
 export const projectionRefreshTask = schedules.task({
   id: "projection-refresh",
@@ -115,6 +149,62 @@ export const projectionRefreshTask = schedules.task({
   },
 });
 
+// Collection Reminders - Hourly outside quiet hours (overdue udhaar, polite -> firm -> final)
+export const collectionRemindersTask = schedules.task({
+  id: "collection-reminders",
+  cron: "15 * * * *",
+  run: async () => {
+    if (isQuietHours()) {
+      return { skipped: "quiet hours" };
+    }
+
+    const owners = await db.owner.findMany({
+      where: { onboardingStep: "COMPLETE" },
+      select: { id: true },
+    });
+
+    const totals = { sent: 0, queued: 0, noPhone: 0 };
+    for (const owner of owners) {
+      try {
+        const result = await sendCollectionReminders(owner.id);
+        totals.sent += result.sent;
+        totals.queued += result.queued;
+        totals.noPhone += result.noPhone;
+      } catch (error) {
+        console.error(`Failed to send collection reminders for ${owner.id}:`, error);
+      }
+    }
+
+    return totals;
+  },
+});
+
+// Outbound Retry - Every 2 minutes (re-sends queued messages whose backoff has elapsed)
+export const outboundRetryTask = schedules.task({
+  id: "outbound-retry",
+  cron: "*/2 * * * *",
+  run: async () => {
+    // Collection reminders queued for retry keep to the same quiet hours as the first send
+    const result = await processOutboundQueue({ quietHours: isQuietHours() });
+
+    if (result.attempted > 0) {
+      console.log(`Outbound retry: ${result.sent} sent, ${result.failed} failed of ${result.attempted}`);
+    }
+
+    return result;
+  },
+});
+
+// Processed Message Prune - 3:00 AM IST daily (drops old inbound dedup keys)
+export const processedMessagePruneTask = schedules.task({
+  id: "processed-message-prune",
+  cron: "30 21 * * *",
+  run: async () => {
+    const pruned = await pruneProcessedMessages();
+    return { pruned };
+  },
+});
+
 // Helper: Refresh projections for an owner
 async function refreshProjections(ownerId: string): Promise<void> {
   const owner = await db.owner.findUnique({
@@ -133,17 +223,14 @@ async function refreshProjections(ownerId: string): Promise<void> {
   const historicalTransactions = await db.transaction.findMany({
     where: {
       ownerId,
-      createdAt: { gte: thirtyDaysAgo },
+      occurredAt: { gte: thirtyDaysAgo },
     },
   });
 
-  const dailyExpenses = historicalTransactions
-    .filter((t) => t.type === "expense")
-    .reduce((sum, t) => sum + t.amount, 0) / 30;
-
-  const dailyIncome = historicalTransactions
-    .filter((t) => t.type === "income")
-    .reduce((sum, t) => sum + t.amount, 0) / 30;
+  // Recurring expenses and supplier dues are projected on their due dates, so keep them out of the daily average
+  const isScheduledOutflow = (t: (typeof historicalTransactions)[number]) => t.source === "recurring" || !!t.supplierId;
+  const dailyExpenses = scaleMoney(sumMoney(historicalTransactions.filter((t) => t.type === "expense" && !isScheduledOutflow(t)).map((t) => t.amount)), 1 / 30);
+  const dailyIncome = scaleMoney(sumMoney(historicalTransactions.filter((t) => t.type === "income").map((t) => t.amount)), 1 / 30);
 
   // Monthly salaries
   const monthlySalaries = owner.staff
@@ -154,6 +241,23 @@ async function refreshProjections(ownerId: string): Promise<void> {
       day: s.paymentDay || 1,
     }));
 
+  const recurring = await getRecurringExpenses(ownerId);
+  const payables = await getOpenPayables(ownerId);
+
+  // Per-account daily averages - untagged transactions, salaries and supplier dues go through the cash drawer
+  const accounts = await getAccountBalances(ownerId);
+  const drawer = await getDefaultAccount(ownerId);
+  const accountCash = new Map(accounts.map((a) => [a.id, a.balance]));
+  const accountDaily = new Map<string, { in: number; out: number }>();
+
+  for (const t of historicalTransactions) {
+    const id = t.accountId || drawer.id;
+    const daily = accountDaily.get(id) || { in: 0, out: 0 };
+    if (t.type === "income") daily.in += scaleMoney(t.amount, 1 / 30);
+    if (t.type === "expense" && !isScheduledOutflow(t)) daily.out += scaleMoney(t.amount, 1 / 30);
+    accountDaily.set(id, daily);
+  }
+
   // Generate projections for next 30 days
   let runningCash = owner.currentCash;
 
@@ -167,22 +271,50 @@ async function refreshProjections(ownerId: string): Promise<void> {
 
     // Calculate expected in/out
     const weekendMultiplier = dayOfWeek === 0 || dayOfWeek === 6 ? 1.3 : 1;
-    const expectedIn = dailyIncome * weekendMultiplier;
+    const expectedIn = scaleMoney(dailyIncome, weekendMultiplier);
     const salariesToday = monthlySalaries
       .filter((s) => s.day === dayOfMonth)
       .reduce((sum, s) => sum + s.amount, 0);
-    const expectedOut = dailyExpenses + salariesToday;
+    const recurringToday = recurring.filter((r) => isDueOn(r, date));
+    const recurringOut = sumMoney(recurringToday.map((r) => r.amount));
+    // Supplier dues on their due date - overdue ones today
+    const payablesToday = payables.filter((p) => isPayableDueOn(p, date));
+    const payablesOut = sumMoney(payablesToday.map(payableBalance));
+    const expectedOut = dailyExpenses + salariesToday + recurringOut + payablesOut;
 
     runningCash = runningCash + expectedIn - expectedOut;
 
+    for (const account of accounts) {
+      const daily = accountDaily.get(account.id) || { in: 0, out: 0 };
+      const drawerOut = account.id === drawer.id ? salariesToday + payablesOut : 0;
+      const fixed = sumMoney(recurringToday.filter((r) => (r.accountId || drawer.id) === account.id).map((r) => r.amount));
+      accountCash.set(account.id, (accountCash.get(account.id) || 0) + scaleMoney(daily.in, weekendMultiplier) - daily.out - drawerOut - fixed);
+    }
+    const accountProjections = accounts.map((a) => ({ name: a.name, kind: a.kind, projected: roundToRupee(accountCash.get(a.id) || 0) }));
+    const drawerCash = accounts
+      .filter((a) => a.kind === "cash")
+      .reduce((sum, a) => sum + (accountCash.get(a.id) || 0), 0);
+
     // Determine flags
     const flags: string[] = [];
     if (runningCash < 0) flags.push("negative");
     if (salariesToday > 0) flags.push("salary_due");
+    if (recurringOut > 0) flags.push("recurring_due");
+    if (payablesOut > 0) flags.push("payable_due");
+    // Enough money overall, but not in the drawer to hand out salaries
+    if (salariesToday > 0 && drawerCash < 0 && runningCash >= 0) flags.push("salary_cash_short");
     if (runningCash < dailyExpenses * 3 && !flags.includes("negative")) {
       flags.push("low_cash");
     }
 
+    const commitments = salariesToday > 0 || recurringOut > 0 || payablesOut > 0
+      ? {
+          salaries: monthlySalaries.filter((s) => s.day === dayOfMonth),
+          recurring: recurringToday.map((r) => ({ name: r.name, amount: r.amount, category: r.category })),
+          payables: payablesToday.map((p) => ({ supplier: p.supplier.name, amount: payableBalance(p) })),
+        }
+      : Prisma.JsonNull;
+
     // Determine confidence
     const confidence = i < 3 ? "high" : i < 7 ? "medium" : "low";
 
@@ -194,18 +326,20 @@ async function refreshProjections(ownerId: string): Promise<void> {
       create: {
         ownerId,
         date,
-        projectedCash: Math.round(runningCash),
-        expectedIn: Math.round(expectedIn),
-        expectedOut: Math.round(expectedOut),
-        commitments: salariesToday > 0 ? { salaries: monthlySalaries.filter((s) => s.day === dayOfMonth) } : Prisma.JsonNull,
+        projectedCash: roundToRupee(runningCash),
+        expectedIn: roundToRupee(expectedIn),
+        expectedOut: roundToRupee(expectedOut),
+        commitments,
+        accounts: accountProjections,
         confidence,
         flags,
       },
       update: {
-        projectedCash: Math.round(runningCash),
-        expectedIn: Math.round(expectedIn),
-        expectedOut: Math.round(expectedOut),
-        commitments: salariesToday > 0 ? { salaries: monthlySalaries.filter((s) => s.day === dayOfMonth) } : Prisma.JsonNull,
+        projectedCash: roundToRupee(runningCash),
+        expectedIn: roundToRupee(expectedIn),
+        expectedOut: roundToRupee(expectedOut),
+        commitments,
+        accounts: accountProjections,
         confidence,
         flags,
         generatedAt: new Date(),